@@ -1,7 +1,20 @@
 import { ServiceManager } from '../core/ServiceManager'
 import { ResponseBuilder } from '../utils/ResponseBuilder'
 import { apiLogger as logger } from '../core/Logger'
+import {
+  ApiScope,
+  EndpointMetadata,
+  ImportTarget,
+  JobCancelledError,
+  JobContext,
+  JobStage,
+  RateLimitError,
+} from '../core/types'
+import { LibraryInfo, LibraryUtils } from '../utils/LibraryUtils'
+import { HTTP_STATUS, IDEMPOTENCY } from '../config/constants'
+import { HeaderUtils } from '../utils/HeaderUtils'
 import { RequestValidator } from './middleware/RequestValidator'
+import { CorsPolicy } from './middleware/CorsPolicy'
 
 /**
  * Base class for all API endpoints
@@ -11,6 +24,12 @@ export abstract class BaseEndpoint {
   public path: string
   protected supportedMethods: string[]
   protected supportedDataTypes: string[]
+  // OpenAPI description of the endpoint's operations, set by subclasses
+  public metadata?: EndpointMetadata
+  // Methods that start translations, subject to client rate limits and the concurrency cap
+  protected rateLimitedMethods: string[] = []
+  // Methods accepting an idempotency key, so retried imports return the first response
+  protected idempotentMethods: string[] = []
 
   constructor(path: string, serviceManager: ServiceManager, methods: string[] = ['POST']) {
     this.path = path
@@ -40,23 +59,148 @@ export abstract class BaseEndpoint {
 
     const EndpointConstructor = function() {}
     EndpointConstructor.prototype = {
-      supportedMethods: this.supportedMethods,
+      supportedMethods: [...this.supportedMethods, 'OPTIONS'],
       supportedDataTypes: this.supportedDataTypes,
 
       init: async function(requestData: any) {
+        // Requests from web pages are only served for allow-listed origins
+        const origin = CorsPolicy.getOrigin(requestData)
+        if (origin && !CorsPolicy.isOriginAllowed(origin)) {
+          logger.warn(`Rejected ${self.path} request from origin ${origin}`)
+          return ResponseBuilder.error(`Origin ${origin} is not allowed`, HTTP_STATUS.FORBIDDEN)
+        }
+
+        if (requestData?.method === 'OPTIONS') {
+          return origin
+            ? CorsPolicy.preflightResponse(origin, self.supportedMethods)
+            : [HTTP_STATUS.NO_CONTENT, { Allow: [...self.supportedMethods, 'OPTIONS'].join(', ') }, '']
+        }
+
+        let response: [number, string | Record<string, string>, string]
         try {
           logger.info(`${self.path} endpoint called`)
-          return await self.handleRequest(requestData)
+          self.authorize(requestData)
+          response = await self.handleOnce(requestData, origin)
         } catch (error) {
           logger.error(`Error in ${self.path}: ${error}`)
-          return ResponseBuilder.error(error)
+          response = error instanceof RateLimitError
+            ? ResponseBuilder.tooManyRequests(error.message, error.retryAfter)
+            : ResponseBuilder.error(error)
         }
+
+        return origin ? CorsPolicy.withCorsHeaders(response, origin, self.supportedMethods) : response
       },
     }
 
     return EndpointConstructor
   }
 
+  /**
+   * Check the request's API token against the scopes this request needs
+   * Sets requestData.apiToken to the token name when authentication is enabled
+   * @param requestData - Request data from Zotero server
+   * @throws AuthenticationError (401) or AuthorizationError (403), answered through ResponseBuilder
+   */
+  protected authorize(requestData: any): void {
+    const token = this.serviceManager.authService.authorize(
+      requestData?.headers,
+      this.getRequiredScopes(requestData),
+    )
+    if (token) {
+      requestData.apiToken = token.name
+    }
+  }
+
+  /**
+   * Handle a request, replaying the remembered response when its idempotency key was seen before
+   * Replays skip rate limits, as nothing is translated again. Dry runs are never remembered,
+   * so a key can be tried out before the real request is sent with it.
+   * @param requestData - Request data, authorized
+   * @param origin - Origin of the request, if sent by a web page
+   * @returns Response array [statusCode, contentType or headers, body]
+   */
+  protected async handleOnce(
+    requestData: any,
+    origin: string | null,
+  ): Promise<[number, string | Record<string, string>, string]> {
+    const handle = async (): Promise<[number, string, string]> => {
+      const releaseSlot = this.applyRateLimits(requestData, origin)
+      try {
+        return await this.handleRequest(requestData)
+      } finally {
+        releaseSlot?.()
+      }
+    }
+
+    if (!this.idempotentMethods.includes(requestData?.method) || this.isDryRun(requestData)) {
+      return handle()
+    }
+
+    const idempotencyService = this.serviceManager.idempotencyService
+    const key = idempotencyService.parseKey(
+      HeaderUtils.getHeader(requestData.headers, IDEMPOTENCY.HEADER),
+      requestData.data?.idempotencyKey,
+    )
+    if (!key) {
+      return handle()
+    }
+
+    // The key itself is not part of the request it identifies
+    const body = { ...(requestData.data || {}) }
+    delete body.idempotencyKey
+    return idempotencyService.execute(
+      `${this.getClientKey(requestData, origin)} ${this.path} ${key}`,
+      JSON.stringify(body),
+      handle,
+    )
+  }
+
+  /**
+   * Apply the client rate limit and claim a translation slot for rate-limited methods
+   * @param requestData - Request data, authorized
+   * @param origin - Origin of the request, if sent by a web page
+   * @returns Function releasing the translation slot, or null when the method is not rate limited
+   * @throws RateLimitError (429), answered through ResponseBuilder with Retry-After
+   */
+  protected applyRateLimits(requestData: any, origin: string | null): (() => void) | null {
+    if (!this.rateLimitedMethods.includes(requestData?.method)) {
+      return null
+    }
+
+    const rateLimiter = this.serviceManager.rateLimiter
+    rateLimiter.consume(this.getClientKey(requestData, origin))
+    return rateLimiter.acquireTranslationSlot()
+  }
+
+  /**
+   * Identify the client of a request for rate limiting
+   * @param requestData - Request data, authorized
+   * @param origin - Origin of the request, if sent by a web page
+   * @returns Client key
+   */
+  protected getClientKey(requestData: any, origin: string | null): string {
+    return requestData?.apiToken ? `token:${requestData.apiToken}` : origin || 'local'
+  }
+
+  /**
+   * Get the API token scopes a request needs
+   * Defaults to read for GET, delete for DELETE and write otherwise; endpoints override this
+   * when their POST routes only read (previews, exports) or use AI, and return no scopes when public
+   * @param requestData - Request data
+   * @returns Required scopes
+   */
+  protected getRequiredScopes(requestData: any): ApiScope[] {
+    switch (requestData?.method) {
+      case 'GET':
+      case 'HEAD':
+        return ['read']
+      case 'DELETE':
+        return ['delete']
+      default:
+        return ['write']
+    }
+  }
+
   /**
    * Register this endpoint with Zotero server
    */
@@ -101,6 +245,171 @@ export abstract class BaseEndpoint {
     return RequestValidator.checkLibraryEditable()
   }
 
+  /**
+   * Normalize tag input from a single string or an array of strings
+   * @param value - Tag value(s) from body or query
+   * @returns Array of non-empty tag names
+   */
+  protected parseTags(value: any): string[] {
+    if (value === undefined || value === null) return []
+    const tags = Array.isArray(value) ? value : [value]
+    return tags
+      .filter(tag => typeof tag === 'string')
+      .map(tag => tag.trim())
+      .filter(tag => tag.length > 0)
+  }
+
+  /**
+   * Parse a boolean flag from JSON or a query string value
+   * @param value - Raw value
+   * @returns True for true, "true" or "1"
+   */
+  protected parseBoolean(value: any): boolean {
+    return value === true || value === 'true' || value === '1'
+  }
+
+  /**
+   * Check whether a write request asks for a dry run (report the changes without saving)
+   * @param requestData - Request data
+   * @returns True when the dryRun body field is set
+   */
+  protected isDryRun(requestData: any): boolean {
+    return this.parseBoolean(requestData?.data?.dryRun)
+  }
+
+  /**
+   * Report progress when the request runs as a background job
+   * Does nothing for regular HTTP requests. Throws once the job has been cancelled,
+   * so long-running handlers stop at the next stage boundary.
+   * @param requestData - Request data, carrying a jobContext when run by the job queue
+   * @param stage - Stage the handler is entering
+   * @param cancellable - False once items were saved: the job then runs to completion, so the
+   * client still gets the keys of the items it created
+   */
+  protected reportStage(requestData: any, stage: JobStage, cancellable = true): void {
+    const jobContext: JobContext | undefined = requestData?.jobContext
+    if (!jobContext) return
+
+    if (cancellable && jobContext.isCancelled()) {
+      throw new JobCancelledError(jobContext.jobId)
+    }
+    jobContext.setStage(stage)
+  }
+
+  /**
+   * Read the optional libraryID or groupID parameter (body or query)
+   * @param requestData - Request data
+   * @returns Validation result; libraryID is undefined when no library was specified
+   */
+  protected getLibraryParam(requestData: any): { valid: boolean; error?: string; libraryID?: number } {
+    const body = requestData?.data || {}
+    const searchParams = requestData?.searchParams
+    return LibraryUtils.resolveLibraryParam(
+      body.libraryID ?? searchParams?.get('libraryID'),
+      body.groupID ?? searchParams?.get('groupID'),
+    )
+  }
+
+  /**
+   * Find an item by key in the given library, or across all libraries when none is given
+   * @param itemKey - Item key
+   * @param libraryID - Library to look in (optional)
+   * @returns Item or null if not found
+   */
+  protected async findItem(itemKey: string, libraryID?: number): Promise<any | null> {
+    if (libraryID !== undefined) {
+      return (await Zotero.Items.getByLibraryAndKeyAsync(libraryID, itemKey)) || null
+    }
+
+    // Keys are only unique per library, so the user library wins over group libraries
+    const item = await Zotero.Items.getByLibraryAndKeyAsync(Zotero.Libraries.userLibraryID, itemKey)
+    return item || this.serviceManager.itemValidator.findItemInAllLibraries(itemKey)
+  }
+
+  /**
+   * Resolve where imported items should be saved
+   * Reads libraryID/groupID, collection (key or path like Projects/Thesis/Ch2), createCollection and tags
+   * from the request body. When none are given, the target is undefined and Zotero's current save
+   * target is used as before.
+   * @param requestData - Request data
+   * @param createCollections - False to only check the target (job submission): missing collections
+   * that createCollection asks for are then left out instead of being created
+   * @returns Validation result with the import target, and the collection path that was left out
+   */
+  protected async resolveImportTarget(requestData: any, createCollections = true): Promise<{
+    valid: boolean
+    error?: string
+    statusCode?: number
+    target?: ImportTarget
+    collectionToCreate?: string
+  }> {
+    const { collection, createCollection } = requestData?.data || {}
+    const rawTags = requestData?.data?.tags
+
+    const libraryParam = this.getLibraryParam(requestData)
+    if (!libraryParam.valid) {
+      return { valid: false, error: libraryParam.error, statusCode: 400 }
+    }
+
+    if (collection !== undefined && (typeof collection !== 'string' || collection.trim().length === 0)) {
+      return { valid: false, error: 'collection must be a collection key or path', statusCode: 400 }
+    }
+
+    if (rawTags !== undefined && typeof rawTags !== 'string'
+      && !(Array.isArray(rawTags) && rawTags.every(tag => typeof tag === 'string'))) {
+      return { valid: false, error: 'tags must be a string or an array of strings', statusCode: 400 }
+    }
+    const tags = this.parseTags(rawTags)
+
+    if (libraryParam.libraryID === undefined && collection === undefined && tags.length === 0) {
+      return { valid: true }
+    }
+
+    const libraryID = libraryParam.libraryID ?? LibraryUtils.getSaveTargetLibraryID()
+    if (!this.isLibraryEditable(libraryID)) {
+      return { valid: false, error: 'Target library is not editable', statusCode: 403 }
+    }
+
+    // Dry runs never create collections; a path that would be created is left out of the target
+    // and returned separately so the dry-run response can name it
+    const canCreate = createCollections && !this.isDryRun(requestData)
+    const collectionIDs: number[] = []
+    if (collection !== undefined) {
+      const target = await this.serviceManager.collectionService.resolveCollection(
+        libraryID,
+        collection,
+        this.parseBoolean(createCollection) && canCreate,
+      )
+      if (!target && !canCreate && this.parseBoolean(createCollection)) {
+        return { valid: true, target: { libraryID, collectionIDs, tags }, collectionToCreate: collection.trim() }
+      }
+      if (!target) {
+        return { valid: false, error: `Collection "${collection}" not found in library ${libraryID}`, statusCode: 404 }
+      }
+      collectionIDs.push(target.id)
+    }
+
+    return { valid: true, target: { libraryID, collectionIDs, tags } }
+  }
+
+  /**
+   * Check if a specific library is editable
+   * @param libraryID - Library ID
+   * @returns True if editable
+   */
+  protected isLibraryEditable(libraryID: number): boolean {
+    return LibraryUtils.isLibraryEditable(libraryID)
+  }
+
+  /**
+   * Describe a library for API responses
+   * @param libraryID - Library ID
+   * @returns Library information
+   */
+  protected getLibraryInfo(libraryID: number): LibraryInfo | null {
+    return LibraryUtils.getLibraryInfo(libraryID)
+  }
+
   /**
    * Create success response
    * @param data - Response data
@@ -147,4 +456,35 @@ export abstract class BaseEndpoint {
   ) {
     return ResponseBuilder.translationSuccess(items, method, translator, duplicateProcessing)
   }
+
+  /**
+   * Create the response of an import run, describing unsaved items when it was a dry run
+   * @param processedItems - Items that passed validation, and those that did not
+   * @param method - Translation method
+   * @param translator - Translator name
+   * @param duplicateProcessing - Duplicate detection results
+   * @param dryRun - Whether the items were left unsaved
+   * @param collectionToCreate - Collection path a dry run would have created
+   * @returns Formatted translation success or dry-run response
+   */
+  protected importResponse(
+    processedItems: { validItems: any[]; invalidItems: any[] },
+    method: string,
+    translator: string,
+    duplicateProcessing: any,
+    dryRun: boolean,
+    collectionToCreate?: string,
+  ) {
+    if (!dryRun) {
+      return this.translationSuccessResponse(processedItems.validItems, method, translator, duplicateProcessing)
+    }
+    return ResponseBuilder.dryRunTranslation(
+      processedItems.validItems,
+      processedItems.invalidItems,
+      method,
+      translator,
+      duplicateProcessing,
+      collectionToCreate,
+    )
+  }
 }
\ No newline at end of file
@@ -0,0 +1,463 @@
+import { EndpointMetadata, EndpointOperation, EndpointParameter, JsonSchema } from '../core/types'
+import { API_AUTH, API_BASE_PATH, EVENT_STREAM, HTTP_STATUS, IDEMPOTENCY, LIBRARY_SEARCH, PLUGIN_VERSION, WEBHOOKS } from '../config/constants'
+
+/**
+ * Schemas shared by several endpoints, published under components.schemas
+ * Objects are open (additional properties allowed) as Zotero adds fields over time
+ */
+const COMPONENT_SCHEMAS: Record<string, JsonSchema> = {
+  SuccessResponse: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      timestamp: { type: 'string', format: 'date-time' },
+      message: { type: 'string' },
+    },
+    required: ['success'],
+  },
+  ErrorResponse: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      error: {
+        type: 'object',
+        properties: {
+          type: { type: 'string' },
+          message: { type: 'string' },
+          code: { type: 'integer' },
+          details: {},
+          timestamp: { type: 'string', format: 'date-time' },
+        },
+        required: ['message'],
+      },
+    },
+    required: ['success', 'error'],
+  },
+  Library: {
+    type: 'object',
+    properties: {
+      libraryID: { type: 'integer' },
+      type: { type: 'string', enum: ['user', 'group', 'feed'] },
+      groupID: { type: 'integer', nullable: true },
+      name: { type: 'string' },
+      editable: { type: 'boolean' },
+      filesEditable: { type: 'boolean' },
+    },
+  },
+  Creator: {
+    type: 'object',
+    properties: {
+      creatorType: { type: 'string' },
+      firstName: { type: 'string' },
+      lastName: { type: 'string' },
+      name: { type: 'string' },
+    },
+  },
+  Item: {
+    type: 'object',
+    description: 'Item data as returned by /item',
+    properties: {
+      key: { type: 'string' },
+      version: { type: 'integer' },
+      itemType: { type: 'string' },
+      libraryID: { type: 'integer' },
+      library: { $ref: '#/components/schemas/Library' },
+      title: { type: 'string' },
+      date: { type: 'string' },
+      dateAdded: { type: 'string' },
+      dateModified: { type: 'string' },
+      fields: { type: 'object', additionalProperties: { type: 'string' } },
+      creators: { type: 'array', items: { $ref: '#/components/schemas/Creator' } },
+      tags: {
+        type: 'array',
+        items: { type: 'object', properties: { tag: { type: 'string' }, type: { type: 'integer' } } },
+      },
+      collections: { type: 'array', items: { type: 'integer' } },
+      relations: { type: 'object' },
+      attachments: { type: 'array', items: { type: 'object' } },
+      notes: { type: 'array', items: { type: 'object' } },
+      citation: { type: 'string' },
+      citationKey: { type: 'string', nullable: true },
+      apiURL: { type: 'string' },
+    },
+  },
+  DuplicateInfo: {
+    type: 'object',
+    properties: {
+      processed: { type: 'boolean' },
+      autoMerged: { type: 'array', items: { type: 'object' } },
+      possibleDuplicates: { type: 'array', items: { type: 'object' } },
+      errors: { type: 'array', items: { type: 'string' } },
+    },
+  },
+  TranslationResult: {
+    type: 'object',
+    description: 'Items created by a translator, serialized with Zotero\'s toJSON()',
+    properties: {
+      success: { type: 'boolean' },
+      timestamp: { type: 'string', format: 'date-time' },
+      method: { type: 'string' },
+      translator: { type: 'string' },
+      itemCount: { type: 'integer' },
+      items: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            key: { type: 'string' },
+            itemType: { type: 'string' },
+            title: { type: 'string' },
+            _meta: {
+              type: 'object',
+              properties: {
+                index: { type: 'integer' },
+                itemKey: { type: 'string' },
+                itemType: { type: 'string' },
+                library: { type: 'integer' },
+              },
+            },
+          },
+        },
+      },
+      duplicateInfo: { $ref: '#/components/schemas/DuplicateInfo' },
+      dryRun: { type: 'boolean', description: 'Set when nothing was saved; items are unsaved and have no key' },
+      rejectedItems: {
+        type: 'array',
+        description: 'Dry runs only: translated items that validation would discard',
+        items: { type: 'object' },
+      },
+      collectionToCreate: {
+        type: 'string',
+        description: 'Dry runs only: collection path createCollection would create for the items',
+      },
+    },
+    required: ['success'],
+  },
+  SearchResults: {
+    type: 'object',
+    properties: {
+      success: { type: 'boolean' },
+      timestamp: { type: 'string', format: 'date-time' },
+      library: { $ref: '#/components/schemas/Library' },
+      total: { type: 'integer' },
+      offset: { type: 'integer' },
+      limit: { type: 'integer' },
+      count: { type: 'integer' },
+      hasMore: { type: 'boolean' },
+      items: { type: 'array', items: { $ref: '#/components/schemas/Item' } },
+    },
+    required: ['success', 'items'],
+  },
+  Collection: {
+    type: 'object',
+    properties: {
+      key: { type: 'string' },
+      id: { type: 'integer' },
+      name: { type: 'string' },
+      path: { type: 'string' },
+      parentKey: { type: 'string', nullable: true },
+      itemCount: { type: 'integer' },
+      totalItemCount: { type: 'integer' },
+      children: { type: 'array', items: { $ref: '#/components/schemas/Collection' } },
+    },
+  },
+  Note: {
+    type: 'object',
+    properties: {
+      key: { type: 'string' },
+      version: { type: 'integer' },
+      libraryID: { type: 'integer' },
+      parentItemKey: { type: 'string', nullable: true },
+      title: { type: 'string' },
+      markdown: { type: 'string' },
+      html: { type: 'string' },
+      tags: { type: 'array', items: { type: 'string' } },
+      collections: { type: 'array', items: { type: 'string' } },
+      dateAdded: { type: 'string' },
+      dateModified: { type: 'string' },
+    },
+  },
+  Job: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      type: { type: 'string', enum: ['url', 'url_ai', 'identifier'] },
+      input: { type: 'object' },
+      status: { type: 'string', enum: ['queued', 'running', 'completed', 'failed', 'cancelled'] },
+      stage: { type: 'string', enum: ['queued', 'deduplicating', 'fetching', 'translating', 'validating', 'done'] },
+      stages: {
+        type: 'array',
+        items: { type: 'object', properties: { stage: { type: 'string' }, at: { type: 'string', format: 'date-time' } } },
+      },
+      cancelRequested: { type: 'boolean' },
+      createdAt: { type: 'string', format: 'date-time' },
+      startedAt: { type: 'string', format: 'date-time' },
+      finishedAt: { type: 'string', format: 'date-time' },
+      statusCode: { type: 'integer' },
+      result: { type: 'object' },
+      error: { type: 'string' },
+    },
+  },
+  Event: {
+    type: 'object',
+    properties: {
+      id: { type: 'integer' },
+      type: { type: 'string', enum: EVENT_STREAM.TYPES },
+      timestamp: { type: 'string', format: 'date-time' },
+      libraryID: { type: 'integer', nullable: true },
+      collections: { type: 'array', items: { type: 'string' }, nullable: true },
+      data: { type: 'object' },
+    },
+  },
+  Webhook: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      url: { type: 'string', format: 'uri' },
+      events: { type: 'array', items: { type: 'string', enum: WEBHOOKS.EVENTS } },
+      libraryID: { type: 'integer' },
+      collection: { type: 'string' },
+      tag: { type: 'string' },
+      itemType: { type: 'string' },
+    },
+  },
+  WebhookDelivery: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      webhook: { type: 'string' },
+      url: { type: 'string', format: 'uri' },
+      eventId: { type: 'integer' },
+      eventType: { type: 'string' },
+      itemKey: { type: 'string' },
+      status: { type: 'string', enum: ['pending', 'retrying', 'delivered', 'failed'] },
+      attempts: { type: 'integer' },
+      createdAt: { type: 'string', format: 'date-time' },
+      lastAttemptAt: { type: 'string', format: 'date-time' },
+      nextAttemptAt: { type: 'string', format: 'date-time' },
+      deliveredAt: { type: 'string', format: 'date-time' },
+      statusCode: { type: 'integer' },
+      error: { type: 'string' },
+    },
+  },
+}
+
+const ERROR_RESPONSES: Record<number, string> = {
+  [HTTP_STATUS.BAD_REQUEST]: 'Invalid request',
+  [HTTP_STATUS.UNAUTHORIZED]: 'Missing or invalid API token',
+  [HTTP_STATUS.FORBIDDEN]: 'Not allowed (token scope, origin or read-only library)',
+  [HTTP_STATUS.NOT_FOUND]: 'Not found',
+  [HTTP_STATUS.UNPROCESSABLE_ENTITY]: 'Input could not be processed (e.g. no translator found)',
+  [HTTP_STATUS.TOO_MANY_REQUESTS]: 'Rate limited or all translation slots busy; wait for Retry-After seconds',
+  [HTTP_STATUS.INTERNAL_SERVER_ERROR]: 'Internal server error',
+}
+
+/**
+ * Builds the OpenAPI 3 description of the API from the metadata declared by each endpoint,
+ * and provides the schema helpers endpoints use to declare it
+ */
+export class OpenApiBuilder {
+  /**
+   * Body properties selecting a library (see Group Libraries)
+   */
+  static readonly LIBRARY_PROPERTIES: Record<string, JsonSchema> = {
+    libraryID: { type: 'integer', description: 'Zotero library ID' },
+    groupID: { type: 'integer', description: 'Zotero group ID, alternative to libraryID' },
+  }
+
+  /**
+   * Body properties choosing where imported items are saved (see Import Targets)
+   */
+  static readonly IMPORT_TARGET_PROPERTIES: Record<string, JsonSchema> = {
+    ...OpenApiBuilder.LIBRARY_PROPERTIES,
+    collection: { type: 'string', description: 'Collection key or name path such as Projects/Thesis' },
+    createCollection: { type: 'boolean', description: 'Create missing collection path segments' },
+    tags: {
+      oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+      description: 'Tags to add to the imported items',
+    },
+  }
+
+  /**
+   * Body property identifying a request for safe retries (see Idempotency Keys)
+   */
+  static readonly IDEMPOTENCY_PROPERTIES: Record<string, JsonSchema> = {
+    idempotencyKey: {
+      type: 'string',
+      maxLength: IDEMPOTENCY.MAX_KEY_LENGTH,
+      description: 'Retries with the same key return the first response; alternative to the Idempotency-Key header',
+    },
+  }
+
+  /**
+   * Body property asking a write endpoint to report its changes without saving them
+   */
+  static readonly DRY_RUN_PROPERTIES: Record<string, JsonSchema> = {
+    dryRun: {
+      type: 'boolean',
+      default: false,
+      description: 'Report what would be created, changed or removed without saving anything',
+    },
+  }
+
+  /**
+   * Query parameters selecting a library
+   */
+  static readonly LIBRARY_PARAMETERS: EndpointParameter[] = [
+    { name: 'libraryID', in: 'query', description: 'Zotero library ID', schema: { type: 'integer' } },
+    { name: 'groupID', in: 'query', description: 'Zotero group ID, alternative to libraryID', schema: { type: 'integer' } },
+  ]
+
+  /**
+   * Query parameters for sorting and paging item lists
+   */
+  static readonly PAGINATION_PARAMETERS: EndpointParameter[] = [
+    { name: 'sort', in: 'query', schema: { type: 'string', enum: LIBRARY_SEARCH.SORT_FIELDS } },
+    { name: 'direction', in: 'query', schema: { type: 'string', enum: ['asc', 'desc'] } },
+    { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: LIBRARY_SEARCH.MAX_LIMIT } },
+    { name: 'offset', in: 'query', schema: { type: 'integer', minimum: 0 } },
+  ]
+
+  /**
+   * Reference a shared schema
+   * @param name - Component schema name
+   * @returns Reference schema
+   */
+  static ref(name: string): JsonSchema {
+    return { $ref: `#/components/schemas/${name}` }
+  }
+
+  /**
+   * Build an object schema
+   * @param properties - Property schemas
+   * @param required - Required property names
+   * @returns Object schema
+   */
+  static object(properties: Record<string, JsonSchema>, required: string[] = []): JsonSchema {
+    return {
+      type: 'object',
+      properties,
+      ...(required.length > 0 && { required }),
+    }
+  }
+
+  /**
+   * Build the schema of a success response carrying the given properties
+   * @param properties - Properties added to the common success fields
+   * @returns Response schema
+   */
+  static success(properties: Record<string, JsonSchema>): JsonSchema {
+    return {
+      allOf: [OpenApiBuilder.ref('SuccessResponse'), OpenApiBuilder.object(properties)],
+    }
+  }
+
+  /**
+   * Build the OpenAPI document
+   * @param endpoints - Registered endpoints; those without metadata are left out
+   * @param serverUrl - Base URL of the API, e.g. http://localhost:23119/citationlinker
+   * @returns OpenAPI 3 document
+   */
+  static build(endpoints: Array<{ path: string; metadata?: EndpointMetadata }>, serverUrl: string): JsonSchema {
+    const paths: Record<string, any> = {}
+    const tags = new Set<string>()
+
+    for (const endpoint of endpoints) {
+      if (!endpoint.metadata) continue
+
+      const path = OpenApiBuilder.toOpenApiPath(endpoint.path)
+      const pathParameters: EndpointParameter[] = (endpoint.path.match(/:\w+/g) || []).map(param => ({
+        name: param.slice(1),
+        in: 'path' as const,
+        required: true,
+        schema: { type: 'string' },
+      }))
+
+      tags.add(endpoint.metadata.tag)
+      paths[path] = paths[path] || {}
+      for (const [method, operation] of Object.entries(endpoint.metadata.operations)) {
+        paths[path][method.toLowerCase()] = OpenApiBuilder.buildOperation(
+          operation!,
+          endpoint.metadata.tag,
+          pathParameters,
+        )
+      }
+    }
+
+    return {
+      openapi: '3.0.3',
+      info: {
+        title: 'Zotero Citation Linker API',
+        version: PLUGIN_VERSION,
+        description: 'Local HTTP API of the Zotero Citation Linker plugin',
+      },
+      servers: [{ url: serverUrl }],
+      tags: Array.from(tags).map(name => ({ name })),
+      paths,
+      components: {
+        schemas: COMPONENT_SCHEMAS,
+        securitySchemes: {
+          bearerToken: { type: 'http', scheme: 'bearer' },
+          tokenHeader: { type: 'apiKey', in: 'header', name: API_AUTH.TOKEN_HEADER },
+        },
+      },
+      // Tokens are only required once configured in the apiTokens preference
+      security: [{}, { bearerToken: [] }, { tokenHeader: [] }],
+    }
+  }
+
+  /**
+   * Convert an endpoint path to an OpenAPI path relative to the server URL
+   * @param path - Endpoint path such as /citationlinker/jobs/:jobID
+   * @returns OpenAPI path such as /jobs/{jobID}
+   */
+  private static toOpenApiPath(path: string): string {
+    const relative = path.startsWith(API_BASE_PATH) ? path.slice(API_BASE_PATH.length) : path
+    return relative.replace(/:(\w+)/g, '{$1}') || '/'
+  }
+
+  /**
+   * Build an OpenAPI operation object
+   * @param operation - Declared operation
+   * @param tag - Endpoint tag
+   * @param pathParameters - Parameters taken from the endpoint path
+   * @returns Operation object
+   */
+  private static buildOperation(
+    operation: EndpointOperation,
+    tag: string,
+    pathParameters: EndpointParameter[],
+  ): Record<string, any> {
+    const parameters = [...pathParameters, ...(operation.parameters || [])]
+    const content: Record<string, any> = {}
+    if (operation.requestBody) {
+      content['application/json'] = { schema: operation.requestBody }
+    }
+    if (operation.multipartBody) {
+      content['multipart/form-data'] = { schema: operation.multipartBody }
+    }
+
+    const responses: Record<string, any> = {
+      [operation.successStatus || HTTP_STATUS.OK]: {
+        description: 'Success',
+        content: { 'application/json': { schema: operation.response } },
+      },
+    }
+    for (const [status, description] of Object.entries(ERROR_RESPONSES)) {
+      responses[status] = {
+        description,
+        content: { 'application/json': { schema: OpenApiBuilder.ref('ErrorResponse') } },
+      }
+    }
+
+    return {
+      operationId: operation.operationId,
+      summary: operation.summary,
+      ...(operation.description && { description: operation.description }),
+      tags: [tag],
+      ...(parameters.length > 0 && { parameters }),
+      ...(Object.keys(content).length > 0 && { requestBody: { required: true, content } }),
+      responses,
+    }
+  }
+}
@@ -1,12 +1,39 @@
 import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
 import { ServiceManager } from '../../core/ServiceManager'
 import { WebTranslator } from '../../translators/WebTranslator'
 import { IdentifierExtractor } from '../../utils/IdentifierExtractor'
 import { UrlUtils } from '../../utils/UrlUtils'
 import { API_ENDPOINTS } from '../../config/constants'
 import { apiLogger as logger } from '../../core/Logger'
+import { ApiScope, EndpointMetadata } from '../../core/types'
 import { PdfProcessor } from '../../services/PdfProcessor'
 
+const METADATA: EndpointMetadata = {
+  tag: 'Preview',
+  operations: {
+    POST: {
+      operationId: 'analyzeUrl',
+      summary: 'Check a URL for existing items, identifiers and available translators',
+      requestBody: OpenApiBuilder.object({ url: { type: 'string', format: 'uri' } }, ['url']),
+      response: OpenApiBuilder.success({
+        itemKey: { type: 'string', nullable: true },
+        identifiers: { type: 'array', items: {} },
+        validIdentifiers: { type: 'array', items: {} },
+        webTranslators: { type: 'array', items: { type: 'object' } },
+        status: { type: 'string' },
+        processingRecommendation: { type: 'string', nullable: true },
+        urlAccessible: { type: 'boolean' },
+        contentType: { type: 'string', enum: ['pdf', 'html', 'unknown'] },
+        httpStatusCode: { type: 'integer', nullable: true },
+        primaryDOI: { type: 'string' },
+        alternativeDOIs: { type: 'array', items: { type: 'object' } },
+        errors: { type: 'array', items: { type: 'string' } },
+      }),
+    },
+  },
+}
+
 /**
  * Endpoint for comprehensive URL analysis
  * Checks for existing items, extracts identifiers, and detects translators
@@ -17,10 +44,20 @@ export class AnalyzeUrlEndpoint extends BaseEndpoint {
 
   constructor(serviceManager: ServiceManager) {
     super(API_ENDPOINTS.ANALYZE_URL, serviceManager, ['POST'])
-    this.webTranslator = new WebTranslator()
+    this.rateLimitedMethods = ['POST']
+    this.metadata = METADATA
+    this.webTranslator = new WebTranslator(serviceManager.eventService, serviceManager.rateLimiter)
     this.pdfProcessor = new PdfProcessor()
   }
 
+  /**
+   * Analysis only reads, although it is sent as POST
+   * @returns Required scopes
+   */
+  protected getRequiredScopes(): ApiScope[] {
+    return ['read']
+  }
+
   /**
    * Initialize the endpoint and its dependencies
    */
@@ -111,6 +148,7 @@ export class AnalyzeUrlEndpoint extends BaseEndpoint {
         logger.info('Step 3: Checking URL accessibility and content type')
         try {
           // Perform initial HEAD/GET request to check accessibility
+          await this.serviceManager.rateLimiter.waitForDomain(url!)
           httpResponse = await Zotero.HTTP.request('GET', url!, {
             headers: {
               'User-Agent': 'Mozilla/5.0 (compatible; Zotero Citation Linker)',
@@ -303,6 +341,7 @@ export class AnalyzeUrlEndpoint extends BaseEndpoint {
             // Try to fetch content if we don't have it yet
             if (!httpResponse || !httpResponse.responseText) {
               try {
+                await this.serviceManager.rateLimiter.waitForDomain(url!)
                 httpResponse = await Zotero.HTTP.request('GET', url!, {
                   headers: {
                     'User-Agent': 'Mozilla/5.0 (compatible; Zotero Citation Linker)',
@@ -0,0 +1,85 @@
+import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
+import { ServiceManager } from '../../core/ServiceManager'
+import { API_ENDPOINTS } from '../../config/constants'
+import { apiLogger as logger } from '../../core/Logger'
+import { EndpointMetadata } from '../../core/types'
+
+const METADATA: EndpointMetadata = {
+  tag: 'Items',
+  operations: {
+    GET: {
+      operationId: 'getAnnotations',
+      summary: 'Get the annotations of an item or attachment as cited Markdown',
+      parameters: [
+        { name: 'key', in: 'query', required: true, description: 'Item or attachment key', schema: { type: 'string' } },
+        { name: 'style', in: 'query', description: 'CSL style for the page citations', schema: { type: 'string' } },
+        ...OpenApiBuilder.LIBRARY_PARAMETERS,
+      ],
+      response: OpenApiBuilder.success({
+        itemKey: { type: 'string' },
+        library: OpenApiBuilder.ref('Library'),
+        annotationCount: { type: 'integer' },
+        annotations: { type: 'array', items: { type: 'object' } },
+        markdown: { type: 'string' },
+      }),
+    },
+  },
+}
+
+/**
+ * Endpoint for retrieving an item's PDF/EPUB annotations as cited Markdown blockquotes
+ */
+export class AnnotationsEndpoint extends BaseEndpoint {
+  constructor(serviceManager: ServiceManager) {
+    super(API_ENDPOINTS.ANNOTATIONS, serviceManager, ['GET'])
+    this.metadata = METADATA
+  }
+
+  /**
+   * Handle annotations request
+   * @param requestData - Request data with key (item or attachment) and optional style query parameters
+   * @returns Response with annotation data and combined Markdown
+   */
+  async handleRequest(requestData: any): Promise<[number, string, string]> {
+    try {
+      const itemKey = requestData.searchParams?.get('key')
+      const style = requestData.searchParams?.get('style') || undefined
+
+      if (!itemKey || typeof itemKey !== 'string') {
+        return this.validationErrorResponse('key query parameter is required and must be a string')
+      }
+
+      const libraryParam = this.getLibraryParam(requestData)
+      if (!libraryParam.valid) {
+        return this.validationErrorResponse(libraryParam.error!)
+      }
+
+      logger.info(`Retrieving annotations for item: ${itemKey}`)
+
+      const item = await this.findItem(itemKey, libraryParam.libraryID)
+      if (!item) {
+        logger.warn(`Item with key ${itemKey} does not exist`)
+        return this.errorResponse(`Item with key ${itemKey} not found`, 404)
+      }
+
+      if (!item.isRegularItem() && !item.isAttachment()) {
+        return this.validationErrorResponse(`Item ${itemKey} is neither a regular item nor an attachment`)
+      }
+
+      const result = await this.serviceManager.annotationExporter.exportItemAnnotations(item, style)
+
+      return this.successResponse(
+        { ...result, library: this.getLibraryInfo(item.libraryID) },
+        {
+          message: result.annotationCount > 0
+            ? `Found ${result.annotationCount} annotation(s)`
+            : 'No annotations found',
+        },
+      )
+    } catch (error) {
+      logger.error(`Error in Annotations endpoint: ${error}`)
+      return this.errorResponse(`Internal server error: ${error}`, 500)
+    }
+  }
+}
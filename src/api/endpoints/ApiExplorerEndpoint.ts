@@ -0,0 +1,176 @@
+import { BaseEndpoint } from '../BaseEndpoint'
+import { ServiceManager } from '../../core/ServiceManager'
+import { API_ENDPOINTS } from '../../config/constants'
+import { ApiScope } from '../../core/types'
+import { ResponseBuilder } from '../../utils/ResponseBuilder'
+
+/**
+ * Self-contained page listing the operations of openapi.json, with a form to try JSON requests
+ * The script avoids template literals so it can live in this TypeScript template string
+ */
+const EXPLORER_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Zotero Citation Linker API</title>
+<style>
+  body { font: 14px/1.4 system-ui, sans-serif; margin: 2em auto; max-width: 60em; padding: 0 1em; color: #222; }
+  h2 { border-bottom: 1px solid #ddd; padding-bottom: .2em; margin-top: 1.5em; }
+  details { border: 1px solid #ddd; border-radius: 4px; margin: .4em 0; padding: .4em .6em; }
+  summary { cursor: pointer; }
+  .method { display: inline-block; min-width: 4.5em; font-weight: bold; font-family: monospace; }
+  .path { font-family: monospace; }
+  pre { background: #f6f6f6; padding: .6em; overflow: auto; max-height: 25em; }
+  textarea { width: 100%; min-height: 8em; font-family: monospace; }
+  input { font-family: monospace; }
+  label { display: block; margin: .3em 0; }
+</style>
+</head>
+<body>
+<h1>Zotero Citation Linker API</h1>
+<p>Generated from <a href="openapi.json">openapi.json</a>.
+  <label>API token (only needed when tokens are configured): <input id="token" type="password" size="40"></label>
+</p>
+<div id="operations">Loading…</div>
+<script>
+  var tokenInput = document.getElementById('token')
+  tokenInput.value = localStorage.getItem('citationLinkerToken') || ''
+  tokenInput.addEventListener('change', function () {
+    localStorage.setItem('citationLinkerToken', tokenInput.value)
+  })
+
+  function element(tag, text, className) {
+    var node = document.createElement(tag)
+    if (text) node.textContent = text
+    if (className) node.className = className
+    return node
+  }
+
+  function resolve(spec, schema) {
+    if (schema && schema.$ref) return resolve(spec, spec.components.schemas[schema.$ref.split('/').pop()])
+    return schema
+  }
+
+  function renderOperation(spec, path, method, operation) {
+    var details = element('details')
+    var summary = element('summary')
+    summary.appendChild(element('span', method.toUpperCase(), 'method'))
+    summary.appendChild(element('span', path, 'path'))
+    summary.appendChild(document.createTextNode(' — ' + operation.summary))
+    details.appendChild(summary)
+    if (operation.description) details.appendChild(element('p', operation.description))
+
+    var inputs = {}
+    ;(operation.parameters || []).forEach(function (param) {
+      var label = element('label', param.name + ' (' + param.in + (param.required ? ', required' : '') + ') ')
+      var input = element('input')
+      input.title = param.description || ''
+      inputs[param.name] = { param: param, input: input }
+      label.appendChild(input)
+      details.appendChild(label)
+    })
+
+    var content = operation.requestBody ? operation.requestBody.content : {}
+    var body = null
+    if (content['application/json']) {
+      details.appendChild(element('p', 'Request body (application/json):'))
+      details.appendChild(element('pre', JSON.stringify(resolve(spec, content['application/json'].schema), null, 2)))
+      body = element('textarea')
+      body.value = '{}'
+      details.appendChild(body)
+    } else if (content['multipart/form-data']) {
+      details.appendChild(element('p', 'Request body (multipart/form-data, send it with curl -F):'))
+      details.appendChild(element('pre', JSON.stringify(content['multipart/form-data'].schema, null, 2)))
+    }
+
+    var success = Object.keys(operation.responses)[0]
+    details.appendChild(element('p', 'Response ' + success + ':'))
+    details.appendChild(element('pre', JSON.stringify(resolve(spec, operation.responses[success].content['application/json'].schema), null, 2)))
+
+    if (content['multipart/form-data'] && !content['application/json']) return details
+
+    var button = element('button', 'Send')
+    var output = element('pre')
+    button.addEventListener('click', function () {
+      var url = spec.servers[0].url.replace(/^https?:\\/\\/[^/]+/, '') + path
+      var query = new URLSearchParams()
+      Object.keys(inputs).forEach(function (name) {
+        var value = inputs[name].input.value
+        if (!value) return
+        if (inputs[name].param.in === 'path') url = url.replace('{' + name + '}', encodeURIComponent(value))
+        else query.append(name, value)
+      })
+      if (query.toString()) url += '?' + query.toString()
+
+      var headers = { 'Zotero-Allowed-Request': '1' }
+      if (tokenInput.value) headers.Authorization = 'Bearer ' + tokenInput.value
+      var init = { method: method.toUpperCase(), headers: headers }
+      if (body) {
+        headers['Content-Type'] = 'application/json'
+        init.body = body.value
+      }
+
+      output.textContent = 'Sending…'
+      fetch(url, init)
+        .then(function (response) {
+          return response.text().then(function (text) {
+            try { text = JSON.stringify(JSON.parse(text), null, 2) } catch (e) {}
+            output.textContent = response.status + ' ' + response.statusText + '\\n\\n' + text
+          })
+        })
+        .catch(function (error) { output.textContent = String(error) })
+    })
+    details.appendChild(button)
+    details.appendChild(output)
+    return details
+  }
+
+  fetch('openapi.json')
+    .then(function (response) { return response.json() })
+    .then(function (spec) {
+      var container = document.getElementById('operations')
+      container.textContent = ''
+      spec.tags.forEach(function (tag) {
+        container.appendChild(element('h2', tag.name))
+        Object.keys(spec.paths).forEach(function (path) {
+          Object.keys(spec.paths[path]).forEach(function (method) {
+            var operation = spec.paths[path][method]
+            if (operation.tags[0] === tag.name) {
+              container.appendChild(renderOperation(spec, path, method, operation))
+            }
+          })
+        })
+      })
+    })
+    .catch(function (error) {
+      document.getElementById('operations').textContent = 'Could not load openapi.json: ' + error
+    })
+</script>
+</body>
+</html>
+`
+
+/**
+ * Endpoint serving a small HTML explorer for the OpenAPI description
+ */
+export class ApiExplorerEndpoint extends BaseEndpoint {
+  constructor(serviceManager: ServiceManager) {
+    super(API_ENDPOINTS.API_EXPLORER, serviceManager, ['GET'])
+  }
+
+  /**
+   * The explorer page is public; requests sent from it carry the token entered on the page
+   * @returns Required scopes
+   */
+  protected getRequiredScopes(): ApiScope[] {
+    return []
+  }
+
+  /**
+   * Handle explorer request
+   * @returns Explorer page as HTML
+   */
+  async handleRequest(): Promise<[number, string, string]> {
+    return ResponseBuilder.raw(EXPLORER_HTML, 'text/html; charset=utf-8')
+  }
+}
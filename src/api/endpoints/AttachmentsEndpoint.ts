@@ -0,0 +1,244 @@
+import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
+import { ServiceManager } from '../../core/ServiceManager'
+import { API_ENDPOINTS } from '../../config/constants'
+import { apiLogger as logger } from '../../core/Logger'
+import { EndpointMetadata } from '../../core/types'
+import { UploadUtils } from '../../utils/UploadUtils'
+import { UrlUtils } from '../../utils/UrlUtils'
+
+declare const IOUtils: any
+declare const PathUtils: any
+
+type LinkMode = 'stored' | 'linked'
+
+const TEMP_FILE_PREFIX = 'attachment'
+
+const METADATA: EndpointMetadata = {
+  tag: 'Items',
+  operations: {
+    POST: {
+      operationId: 'addAttachment',
+      summary: 'Attach an uploaded file, local file or URL to an item',
+      requestBody: OpenApiBuilder.object({
+        itemKey: { type: 'string' },
+        path: { type: 'string', description: 'Absolute path of a local file' },
+        url: { type: 'string', format: 'uri' },
+        linkMode: { type: 'string', enum: ['stored', 'linked'] },
+        title: { type: 'string' },
+        index: { type: 'boolean', description: 'Run full-text indexing right away' },
+        ...OpenApiBuilder.LIBRARY_PROPERTIES,
+      }, ['itemKey']),
+      multipartBody: OpenApiBuilder.object({
+        file: { type: 'string', format: 'binary' },
+        itemKey: { type: 'string' },
+        title: { type: 'string' },
+        index: { type: 'boolean' },
+      }, ['file', 'itemKey']),
+      response: OpenApiBuilder.success({
+        itemKey: { type: 'string' },
+        library: OpenApiBuilder.ref('Library'),
+        attachment: OpenApiBuilder.object({
+          key: { type: 'string' },
+          title: { type: 'string' },
+          contentType: { type: 'string' },
+          path: { type: 'string' },
+          linkMode: { type: 'integer' },
+          url: { type: 'string' },
+        }),
+        indexed: { type: 'boolean' },
+      }),
+    },
+  },
+}
+
+/**
+ * Endpoint for attaching files to existing items
+ *
+ * Accepts either multipart/form-data with an uploaded file (stored in Zotero),
+ * or JSON with a local path (linked or stored) or a URL (downloaded and stored, or linked).
+ * Uploads and stored local files are subject to the maxPdfUploadSize limit.
+ */
+export class AttachmentsEndpoint extends BaseEndpoint {
+  constructor(serviceManager: ServiceManager) {
+    super(API_ENDPOINTS.ATTACHMENTS, serviceManager, ['POST'])
+    this.supportedDataTypes = ['application/json', 'multipart/form-data']
+    this.metadata = METADATA
+  }
+
+  /**
+   * Handle attachment request
+   * @param requestData - Multipart form data (file, itemKey, title, index) or JSON
+   * ({ itemKey, path | url, linkMode, title, index })
+   * @returns Response with the created attachment
+   */
+  async handleRequest(requestData: any): Promise<[number, string, string]> {
+    let tempFilePath: string | null = null
+
+    try {
+      const isMultipart = Array.isArray(requestData.data)
+      const params = isMultipart ? UploadUtils.getFormFields(requestData.data) : requestData.data || {}
+      const { itemKey, path, url, title } = params
+
+      if (!itemKey || typeof itemKey !== 'string') {
+        return this.validationErrorResponse('itemKey is required and must be a string')
+      }
+      if (title !== undefined && typeof title !== 'string') {
+        return this.validationErrorResponse('title must be a string')
+      }
+
+      const sources = [isMultipart, path !== undefined, url !== undefined].filter(Boolean).length
+      if (sources !== 1) {
+        return this.validationErrorResponse('Provide exactly one of an uploaded file, path or url')
+      }
+      if (path !== undefined && (typeof path !== 'string' || path.trim().length === 0)) {
+        return this.validationErrorResponse('path must be a non-empty string')
+      }
+      if (url !== undefined && (typeof url !== 'string' || !UrlUtils.isValidUrl(url) || !UrlUtils.isSupportedScheme(url))) {
+        return this.validationErrorResponse('url must be a valid HTTP or HTTPS URL')
+      }
+
+      const linkMode: LinkMode = params.linkMode ?? (path !== undefined ? 'linked' : 'stored')
+      if (linkMode !== 'stored' && linkMode !== 'linked') {
+        return this.validationErrorResponse('linkMode must be stored or linked')
+      }
+      if (isMultipart && linkMode !== 'stored') {
+        return this.validationErrorResponse('Uploaded files are always stored')
+      }
+
+      const libraryParam = this.getLibraryParam({ data: params, searchParams: requestData.searchParams })
+      if (!libraryParam.valid) {
+        return this.validationErrorResponse(libraryParam.error!)
+      }
+
+      const parentItem = await this.findItem(itemKey, libraryParam.libraryID)
+      if (!parentItem) {
+        return this.errorResponse(`Item with key ${itemKey} not found`, 404)
+      }
+      if (!parentItem.isRegularItem()) {
+        return this.validationErrorResponse('Attachments can only be added to regular items')
+      }
+
+      const library = this.getLibraryInfo(parentItem.libraryID)
+      if (!library?.editable || (linkMode === 'stored' && !library.filesEditable)) {
+        return this.errorResponse('Target library is not editable', 403)
+      }
+      if (path !== undefined && linkMode === 'linked' && parentItem.libraryID !== Zotero.Libraries.userLibraryID) {
+        return this.validationErrorResponse('Linked files can only be added in the user library')
+      }
+
+      let attachment: any
+      if (isMultipart) {
+        const fileField = UploadUtils.findFileField(requestData.data)
+        if (!fileField.valid) {
+          return this.validationErrorResponse(fileField.error!)
+        }
+
+        const { filename, body, contentType } = fileField.file!
+        const sizeError = UploadUtils.checkUploadSize(body.length)
+        if (sizeError) {
+          return this.errorResponse(sizeError, 413)
+        }
+
+        tempFilePath = await UploadUtils.writeTempFile(body, UploadUtils.sanitizeFilename(filename), TEMP_FILE_PREFIX)
+        attachment = await Zotero.Attachments.importFromFile({
+          file: tempFilePath,
+          parentItemID: parentItem.id,
+          title: title || filename,
+          contentType: contentType === 'application/octet-stream' ? undefined : contentType,
+        })
+        await UploadUtils.restoreFilename(attachment, filename, TEMP_FILE_PREFIX)
+      } else if (path !== undefined) {
+        const filePath = path.trim()
+        if (!PathUtils.isAbsolute(filePath) || !(await IOUtils.exists(filePath))) {
+          return this.errorResponse(`File not found: ${filePath}`, 404)
+        }
+
+        if (linkMode === 'linked') {
+          attachment = await Zotero.Attachments.linkFromFile({
+            file: filePath,
+            parentItemID: parentItem.id,
+            title,
+          })
+        } else {
+          const { size } = await IOUtils.stat(filePath)
+          const sizeError = UploadUtils.checkUploadSize(size)
+          if (sizeError) {
+            return this.errorResponse(sizeError, 413)
+          }
+
+          attachment = await Zotero.Attachments.importFromFile({
+            file: filePath,
+            parentItemID: parentItem.id,
+            title,
+          })
+        }
+      } else if (linkMode === 'linked') {
+        attachment = await Zotero.Attachments.linkFromURL({
+          url,
+          parentItemID: parentItem.id,
+          title: title || url,
+        })
+      } else {
+        attachment = await Zotero.Attachments.importFromURL({
+          libraryID: parentItem.libraryID,
+          url,
+          parentItemID: parentItem.id,
+          title,
+        })
+      }
+
+      if (!attachment) {
+        return this.errorResponse('Failed to create attachment', 500)
+      }
+
+      logger.info(`Attached ${attachment.key} (${linkMode}) to item ${parentItem.key}`)
+
+      const indexed = this.parseBoolean(params.index) && attachment.isFileAttachment()
+        ? await this.indexAttachment(attachment)
+        : false
+
+      return this.successResponse(
+        {
+          itemKey: parentItem.key,
+          library,
+          attachment: {
+            key: attachment.key,
+            title: attachment.getField('title'),
+            contentType: attachment.attachmentContentType,
+            path: attachment.attachmentPath,
+            linkMode: attachment.attachmentLinkMode,
+            ...(url && { url }),
+          },
+          indexed,
+        },
+        {
+          message: 'Attachment added successfully',
+        },
+      )
+    } catch (error) {
+      logger.error(`Error in Attachments endpoint: ${error}`)
+      return this.errorResponse(`Internal server error: ${error}`, 500)
+    } finally {
+      if (tempFilePath) {
+        await UploadUtils.removeTempFile(tempFilePath)
+      }
+    }
+  }
+
+  /**
+   * Run full-text indexing for a file attachment
+   * @param attachment - Attachment item
+   * @returns True if indexing completed
+   */
+  private async indexAttachment(attachment: any): Promise<boolean> {
+    try {
+      await Zotero.Fulltext.indexItems([attachment.id], { complete: true })
+      logger.info(`Indexed attachment ${attachment.key}`)
+      return true
+    } catch (error) {
+      logger.warn(`Full-text indexing failed for ${attachment.key}: ${error}`)
+      return false
+    }
+  }
+}
@@ -0,0 +1,343 @@
+import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
+import { ServiceManager } from '../../core/ServiceManager'
+import { API_ENDPOINTS, BATCH_PROCESSING } from '../../config/constants'
+import { apiLogger as logger } from '../../core/Logger'
+import { EndpointMetadata } from '../../core/types'
+import { RequestValidator } from '../middleware/RequestValidator'
+import { ResponseBuilder } from '../../utils/ResponseBuilder'
+import { LibraryUtils } from '../../utils/LibraryUtils'
+
+interface BatchEntry {
+  index: number
+  input: string
+  type: 'url' | 'identifier'
+  explicit: boolean // Given as { url } or { identifier } rather than a plain string
+}
+
+interface BatchEntryResult {
+  index: number
+  input: string
+  type: 'url' | 'identifier'
+  success: boolean
+  method?: string
+  translator?: string
+  existingItem?: boolean
+  itemCount?: number
+  items?: Array<{ key: string; itemType: string; title: string; library: number }>
+  duplicateCount?: number
+  reason?: string
+}
+
+const METADATA: EndpointMetadata = {
+  tag: 'Import',
+  operations: {
+    POST: {
+      operationId: 'batchImport',
+      summary: 'Translate a mixed list of URLs and identifiers',
+      requestBody: OpenApiBuilder.object({
+        entries: {
+          type: 'array',
+          maxItems: BATCH_PROCESSING.MAX_ENTRIES,
+          items: {
+            oneOf: [
+              { type: 'string' },
+              OpenApiBuilder.object({ url: { type: 'string', format: 'uri' } }, ['url']),
+              OpenApiBuilder.object({ identifier: { type: 'string' } }, ['identifier']),
+            ],
+          },
+        },
+        concurrency: { type: 'integer', minimum: 1, maximum: BATCH_PROCESSING.MAX_CONCURRENCY },
+      }, ['entries']),
+      response: OpenApiBuilder.success({
+        operation: { type: 'string' },
+        partial: { type: 'boolean' },
+        summary: OpenApiBuilder.object({
+          total: { type: 'integer' },
+          successful: { type: 'integer' },
+          failed: { type: 'integer' },
+        }),
+        results: { type: 'array', items: { type: 'object' } },
+        successful: { type: 'array', items: { type: 'object' } },
+        failed: { type: 'array', items: { type: 'object' } },
+      }),
+    },
+  },
+}
+
+/**
+ * Endpoint for translating a mixed batch of URLs and identifiers into Zotero items
+ */
+export class BatchEndpoint extends BaseEndpoint {
+  constructor(serviceManager: ServiceManager) {
+    super(API_ENDPOINTS.BATCH, serviceManager, ['POST'])
+    this.rateLimitedMethods = ['POST']
+    this.metadata = METADATA
+  }
+
+  /**
+   * Admit the batch while the client is not throttled; entries that translate are charged
+   * and claim translation slots one by one while the batch runs
+   * @param requestData - Request data, authorized
+   * @param origin - Origin of the request, if sent by a web page
+   * @returns Always null, as no slot is held for the request itself
+   */
+  protected applyRateLimits(requestData: any, origin: string | null): (() => void) | null {
+    if (requestData?.method === 'POST') {
+      requestData.clientKey = this.getClientKey(requestData, origin)
+      this.serviceManager.rateLimiter.admit(requestData.clientKey)
+    }
+    return null
+  }
+
+  /**
+   * Handle batch processing request
+   * @param requestData - Request data containing entries and an optional concurrency limit
+   * @returns Batch response with per-entry results
+   */
+  async handleRequest(requestData: any): Promise<[number, string, string]> {
+    try {
+      const basicValidation = this.validateRequest(requestData)
+      if (!basicValidation.valid) {
+        return this.validationErrorResponse(basicValidation.error!)
+      }
+
+      const { entries, concurrency } = requestData.data
+
+      const entriesValidation = RequestValidator.validateBatchEntries(entries, BATCH_PROCESSING.MAX_ENTRIES)
+      if (!entriesValidation.valid) {
+        return this.validationErrorResponse(entriesValidation.error!)
+      }
+
+      if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1)) {
+        return this.validationErrorResponse('concurrency must be a positive integer')
+      }
+
+      // Check if library is editable
+      if (!this.checkLibraryEditable()) {
+        return this.errorResponse('Target library is not editable', 403)
+      }
+
+      // Items are saved to Zotero's save target, so only that library counts for existing items
+      const libraryID = LibraryUtils.getSaveTargetLibraryID()
+      const limit = this.getConcurrency(concurrency)
+      const batchEntries = entriesValidation.entries!.map((entry, index) => ({ ...entry, index }))
+      logger.info(`Processing batch of ${batchEntries.length} entries with concurrency ${limit}`)
+
+      const results = await this.runWithConcurrency(
+        batchEntries,
+        limit,
+        entry => this.processEntry(entry, libraryID, requestData.clientKey ?? 'local'),
+      )
+
+      const successful = results.filter(result => result.success)
+      const failed = results.filter(result => !result.success)
+      logger.info(`Batch completed: ${successful.length} succeeded, ${failed.length} failed`)
+
+      if (successful.length > 0 && failed.length > 0) {
+        return ResponseBuilder.partialSuccess(
+          successful,
+          failed.map(result => ({ item: result, reason: result.reason || 'Unknown error' })),
+          'batch_translation',
+        )
+      }
+
+      return ResponseBuilder.batchResponse(results, 'batch_translation')
+    } catch (error) {
+      logger.error(`Error in Batch endpoint: ${error}`)
+      return this.errorResponse(`Internal server error: ${error}`, 500)
+    }
+  }
+
+  /**
+   * Resolve the number of entries translated at the same time
+   * @param requested - Concurrency requested by the client
+   * @returns Concurrency limit capped at BATCH_PROCESSING.MAX_CONCURRENCY
+   */
+  private getConcurrency(requested?: number): number {
+    let concurrency = requested
+    if (concurrency === undefined) {
+      const preference = Number(Zotero.Prefs.get('batchConcurrency'))
+      concurrency = Number.isInteger(preference) && preference > 0 ? preference : BATCH_PROCESSING.DEFAULT_CONCURRENCY
+    }
+    return Math.min(concurrency, BATCH_PROCESSING.MAX_CONCURRENCY)
+  }
+
+  /**
+   * Run a task for every entry, with at most `limit` tasks in flight
+   * @param entries - Entries to process
+   * @param limit - Maximum number of concurrent tasks
+   * @param task - Task run for each entry
+   * @returns Results in entry order
+   */
+  private async runWithConcurrency<T, R>(entries: T[], limit: number, task: (entry: T) => Promise<R>): Promise<R[]> { // eslint-disable-line no-unused-vars
+    const results: R[] = new Array(entries.length)
+    let next = 0
+
+    const worker = async () => {
+      while (next < entries.length) {
+        const index = next++
+        results[index] = await task(entries[index])
+      }
+    }
+
+    await Promise.all(Array.from({ length: Math.min(limit, entries.length) }, () => worker()))
+    return results
+  }
+
+  /**
+   * Translate a single batch entry, reusing items that already exist in the library
+   * @param entry - Batch entry
+   * @param libraryID - Library the items are saved to
+   * @param clientKey - Client charged for the translation
+   * @returns Per-entry result
+   */
+  private async processEntry(entry: BatchEntry, libraryID: number, clientKey: string): Promise<BatchEntryResult> {
+    const base = { index: entry.index, input: entry.input, type: entry.type }
+
+    try {
+      const existingItem = await this.findExistingItem(entry, libraryID)
+      if (existingItem) {
+        logger.info(`Batch entry ${entry.index} already exists in library: ${existingItem.key}`)
+        return {
+          ...base,
+          success: true,
+          method: 'existing_item',
+          translator: 'Library lookup',
+          existingItem: true,
+          itemCount: 1,
+          items: [this.summarizeItem(existingItem)],
+        }
+      }
+
+      // Each translation counts against the client's limit and the global cap,
+      // however many entries run in parallel
+      this.serviceManager.rateLimiter.charge(clientKey)
+      const releaseSlot = await this.serviceManager.rateLimiter.waitForTranslationSlot()
+      let translationResult
+      let processed
+      try {
+        // Plain strings use auto mode, which falls back to the other method when the first one fails;
+        // entries given as { url } or { identifier } only use that method
+        translationResult = await this.serviceManager.translatorManager.attemptTranslation(entry.input, {
+          preferredMethod: entry.explicit ? (entry.type === 'url' ? 'web' : 'identifier') : 'auto',
+          extractMetadata: false,
+        })
+
+        if (!translationResult.success || translationResult.items.length === 0) {
+          return {
+            ...base,
+            success: false,
+            method: translationResult.method,
+            reason: translationResult.reason || 'No items could be created',
+          }
+        }
+
+        processed = await this.processTranslatedItems(translationResult.items)
+      } finally {
+        releaseSlot()
+      }
+
+      if (processed.validItems.length === 0) {
+        return {
+          ...base,
+          success: false,
+          method: translationResult.method,
+          reason: 'Translated items failed validation',
+        }
+      }
+
+      return {
+        ...base,
+        success: true,
+        method: translationResult.method,
+        translator: translationResult.translator || 'Unknown',
+        existingItem: false,
+        itemCount: processed.validItems.length,
+        items: processed.validItems.map(item => this.summarizeItem(item)),
+        duplicateCount: processed.duplicateCount,
+      }
+    } catch (error) {
+      logger.error(`Error processing batch entry ${entry.index} (${entry.input}): ${error}`)
+      return { ...base, success: false, reason: `${error}` }
+    }
+  }
+
+  /**
+   * Look up an item that already matches the entry's URL or identifier
+   * @param entry - Batch entry
+   * @param libraryID - Library to look in
+   * @returns Existing item or null
+   */
+  private async findExistingItem(entry: BatchEntry, libraryID: number): Promise<any | null> {
+    if (entry.type === 'url') {
+      return this.serviceManager.duplicateDetector.findItemByUrl(entry.input, libraryID)
+    }
+
+    const extractedIdentifiers = Zotero.Utilities.extractIdentifiers(entry.input)
+    if (extractedIdentifiers.length === 0) {
+      return null
+    }
+
+    const extractedId = extractedIdentifiers[0] as any
+    if (extractedId.DOI) {
+      return this.serviceManager.duplicateDetector.findItemByIdentifier('DOI', extractedId.DOI, libraryID)
+    } else if (extractedId.PMID) {
+      return this.serviceManager.duplicateDetector.findItemByIdentifier('PMID', extractedId.PMID, libraryID)
+    } else if (extractedId.arXiv) {
+      return this.serviceManager.duplicateDetector.findItemByIdentifier('ARXIV', extractedId.arXiv, libraryID)
+    }
+
+    return null
+  }
+
+  /**
+   * Validate translated items, delete invalid ones and run duplicate detection
+   * @param items - Translated items
+   * @returns Valid items and the number of flagged duplicates
+   */
+  private async processTranslatedItems(items: any[]): Promise<{ validItems: any[]; duplicateCount: number }> {
+    const validItems: any[] = []
+
+    for (const item of items) {
+      const validatedItem = this.serviceManager.itemValidator.validateItemData(item)
+      if (validatedItem) {
+        validItems.push(validatedItem)
+        continue
+      }
+
+      try {
+        await this.serviceManager.itemValidator.deleteItemByKey(item.key)
+        logger.info(`Deleted invalid item: ${item.key}`)
+      } catch (deleteError) {
+        logger.error(`Failed to delete invalid item ${item.key}: ${deleteError}`)
+      }
+    }
+
+    let duplicateCount = 0
+    try {
+      const duplicateResults = await Promise.all(
+        validItems.map(item => this.serviceManager.duplicateDetector.detectDuplicates(item)),
+      )
+      duplicateCount = duplicateResults.reduce((sum, result) => sum + result.duplicateCount, 0)
+    } catch (error) {
+      logger.error(`Error running duplicate detection for batch entry: ${error}`)
+    }
+
+    return { validItems, duplicateCount }
+  }
+
+  /**
+   * Build a compact summary of an item for batch results
+   * @param item - Zotero item
+   * @returns Item summary
+   */
+  private summarizeItem(item: any): { key: string; itemType: string; title: string; library: number } {
+    return {
+      key: item.key,
+      itemType: item.itemType,
+      title: item.getField ? item.getField('title') : item.title || '',
+      library: item.libraryID,
+    }
+  }
+}
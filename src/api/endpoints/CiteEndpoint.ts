@@ -0,0 +1,285 @@
+import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
+import { ServiceManager } from '../../core/ServiceManager'
+import { ApiScope, CitationFormat, EndpointMetadata, LinkTarget } from '../../core/types'
+import { CitationLinkOptions, PandocCitationOptions } from '../../services/CitationGenerator'
+import { API_ENDPOINTS, CITATION_FORMATS, LINK_TARGETS } from '../../config/constants'
+import { apiLogger as logger } from '../../core/Logger'
+import { RequestValidator } from '../middleware/RequestValidator'
+import { TemplateRenderer } from '../../utils/TemplateRenderer'
+
+const METADATA: EndpointMetadata = {
+  tag: 'Citations',
+  operations: {
+    POST: {
+      operationId: 'cite',
+      summary: 'Format citations for existing items',
+      description: 'Also accepted as GET with the same fields as query parameters (itemKeys comma-separated)',
+      requestBody: OpenApiBuilder.object({
+        itemKeys: { type: 'array', items: { type: 'string' } },
+        format: { type: 'string', enum: ['markdown', 'latex', 'org', 'wiki', 'html', 'plain', 'pandoc'] },
+        template: { type: 'string', description: 'Template preset name or inline template, replaces format' },
+        style: { type: 'string', description: 'CSL style ID or short name' },
+        linkTarget: { type: 'string', enum: ['api', 'select', 'pdf', 'web'] },
+        page: { type: 'string' },
+        prefix: { type: 'string' },
+        locator: { type: 'string' },
+        label: { type: 'string' },
+        suffix: { type: 'string' },
+        suppressAuthor: { type: 'boolean' },
+        itemOptions: { type: 'object', additionalProperties: { type: 'object' }, description: 'Pandoc options by item key' },
+        ensureCitationKey: {
+          type: 'boolean',
+          description: 'Store generated citation keys on items that have none (needs the write scope); '
+            + 'otherwise missing keys are computed without saving',
+        },
+        ...OpenApiBuilder.LIBRARY_PROPERTIES,
+      }, ['itemKeys']),
+      response: OpenApiBuilder.success({
+        format: { type: 'string' },
+        style: { type: 'string' },
+        output: { type: 'string' },
+        citations: { type: 'array', items: { type: 'object' } },
+      }),
+    },
+  },
+}
+
+/**
+ * Endpoint for generating formatted citations for existing items
+ * Returns the same output as the context menu without touching the clipboard
+ */
+export class CiteEndpoint extends BaseEndpoint {
+  constructor(serviceManager: ServiceManager) {
+    super(API_ENDPOINTS.CITE, serviceManager, ['GET', 'POST'])
+    this.metadata = METADATA
+  }
+
+  /**
+   * Citations only read, for GET and POST alike, unless generated citation keys are to be stored
+   * @param requestData - Request data
+   * @returns Required scopes
+   */
+  protected getRequiredScopes(requestData: any): ApiScope[] {
+    return this.shouldStoreCitationKeys(requestData) ? ['read', 'write'] : ['read']
+  }
+
+  /**
+   * Check whether the caller opted in to storing generated citation keys
+   * @param requestData - Request data
+   * @returns True when ensureCitationKey is set (body or query parameter)
+   */
+  private shouldStoreCitationKeys(requestData: any): boolean {
+    return this.parseBoolean(requestData?.data?.ensureCitationKey ?? requestData?.searchParams?.get('ensureCitationKey'))
+  }
+
+  /**
+   * Handle cite request
+   * @param requestData - Request data with itemKeys, format or template, style, link target and Pandoc options (body or query parameters)
+   * @returns Response with formatted citations
+   */
+  async handleRequest(requestData: any): Promise<[number, string, string]> {
+    try {
+      // Support both query parameters (GET) and JSON body (POST)
+      const searchParams = requestData.searchParams
+      const body = requestData.data || {}
+      const rawKeys = body.itemKeys ?? searchParams?.get('itemKeys') ?? searchParams?.get('keys')
+      const format = (body.format ?? searchParams?.get('format') ?? CITATION_FORMATS.MARKDOWN) as CitationFormat
+      const style = body.style ?? searchParams?.get('style') ?? undefined
+      const templateParam = body.template ?? searchParams?.get('template') ?? undefined
+      const linkTarget = body.linkTarget ?? searchParams?.get('linkTarget') ?? undefined
+      const page = body.page ?? searchParams?.get('page') ?? undefined
+
+      const keysValidation = RequestValidator.validateItemKeys(rawKeys)
+      if (!keysValidation.valid) {
+        return this.validationErrorResponse(keysValidation.error!)
+      }
+
+      const libraryParam = this.getLibraryParam(requestData)
+      if (!libraryParam.valid) {
+        return this.validationErrorResponse(libraryParam.error!)
+      }
+
+      if (!Object.values(CITATION_FORMATS).includes(format)) {
+        return this.validationErrorResponse(
+          `format must be one of: ${Object.values(CITATION_FORMATS).join(', ')}`,
+        )
+      }
+
+      if (style !== undefined && typeof style !== 'string') {
+        return this.validationErrorResponse('style must be a CSL style ID string')
+      }
+
+      if (linkTarget !== undefined && !Object.values(LINK_TARGETS).includes(linkTarget)) {
+        return this.validationErrorResponse(`linkTarget must be one of: ${Object.values(LINK_TARGETS).join(', ')}`)
+      }
+
+      const pageNumber = page !== undefined ? Number(page) : undefined
+      if (pageNumber !== undefined && (!Number.isInteger(pageNumber) || pageNumber < 1)) {
+        return this.validationErrorResponse('page must be a positive integer')
+      }
+
+      const linkOptions: CitationLinkOptions = {
+        target: linkTarget as LinkTarget | undefined,
+        page: pageNumber,
+      }
+
+      // A template is either the name of a stored preset or an inline template string
+      let template: string | null = null
+      if (templateParam !== undefined) {
+        if (typeof templateParam !== 'string' || !templateParam.trim()) {
+          return this.validationErrorResponse('template must be a preset name or a template string')
+        }
+        const preset = this.serviceManager.citationTemplateService.getPreset(templateParam)
+        if (preset) {
+          template = preset.template
+          // The preset's link target applies unless the request chose one explicitly
+          linkOptions.target = linkOptions.target || preset.linkTarget
+        } else {
+          if (!templateParam.includes('{{')) {
+            return this.validationErrorResponse(`Unknown citation template preset: ${templateParam}`)
+          }
+          template = templateParam
+        }
+        const templateError = TemplateRenderer.validate(template)
+        if (templateError) {
+          return this.validationErrorResponse(`Invalid template: ${templateError}`)
+        }
+      }
+
+      const itemKeys = keysValidation.itemKeys!
+
+      // Pandoc options: top-level values apply to every item, itemOptions override per item key
+      const sharedOptions = this.parsePandocOptions({
+        prefix: body.prefix ?? searchParams?.get('prefix'),
+        locator: body.locator ?? searchParams?.get('locator'),
+        label: body.label ?? searchParams?.get('label'),
+        suffix: body.suffix ?? searchParams?.get('suffix'),
+        suppressAuthor: body.suppressAuthor ?? searchParams?.get('suppressAuthor'),
+      })
+      if (typeof sharedOptions === 'string') {
+        return this.validationErrorResponse(sharedOptions)
+      }
+
+      if (body.itemOptions !== undefined && (typeof body.itemOptions !== 'object' || Array.isArray(body.itemOptions))) {
+        return this.validationErrorResponse('itemOptions must be an object keyed by item key')
+      }
+
+      const citationOptions: Record<string, PandocCitationOptions> = {}
+      for (const itemKey of itemKeys) {
+        const itemOptions = this.parsePandocOptions(body.itemOptions?.[itemKey] || {})
+        if (typeof itemOptions === 'string') {
+          return this.validationErrorResponse(`itemOptions.${itemKey}: ${itemOptions}`)
+        }
+        citationOptions[itemKey] = { ...sharedOptions, ...itemOptions }
+      }
+
+      logger.info(`Generating ${format} citations for ${itemKeys.length} item(s)`)
+
+      // Resolve all items before formatting
+      const items: any[] = []
+      for (const itemKey of itemKeys) {
+        const item = await this.findItem(itemKey, libraryParam.libraryID)
+        if (!item) {
+          logger.warn(`Item with key ${itemKey} does not exist`)
+          return this.errorResponse(`Item with key ${itemKey} not found`, 404)
+        }
+        if (!item.isRegularItem()) {
+          return this.validationErrorResponse(`Item ${itemKey} is not a regular item and cannot be cited`)
+        }
+        items.push(item)
+      }
+
+      // Pandoc output and bare {{citekey}} placeholders need keys; missing ones are only stored on request
+      const citationKeyService = this.serviceManager.citationKeyService
+      const saveCitationKeys = this.shouldStoreCitationKeys(requestData)
+      const needsCitationKeys = template
+        ? TemplateRenderer.getPlaceholders(template).includes('citekey')
+        : format === CITATION_FORMATS.PANDOC
+      if (saveCitationKeys && needsCitationKeys
+        && items.some(item => !citationKeyService.getCitationKey(item) && !this.isLibraryEditable(item.libraryID))) {
+        return this.errorResponse('Target library is not editable', 403)
+      }
+
+      if (template) {
+        const templated = await this.serviceManager.citationGenerator.generateTemplatedCitations(
+          items,
+          template,
+          style,
+          linkOptions,
+          saveCitationKeys,
+        )
+
+        return this.successResponse(
+          {
+            template,
+            style: templated.style,
+            locale: templated.locale,
+            itemCount: items.length,
+            output: templated.output,
+            citations: templated.entries,
+          },
+          {
+            message: 'Citations generated successfully',
+            ...(templated.warning && { warning: templated.warning }),
+          },
+        )
+      }
+
+      const result = await this.serviceManager.citationGenerator.generateFormattedCitations(
+        items,
+        format,
+        style,
+        citationOptions,
+        linkOptions,
+        saveCitationKeys,
+      )
+
+      return this.successResponse(
+        {
+          format: result.format,
+          style: result.style,
+          locale: result.locale,
+          itemCount: items.length,
+          output: result.output,
+          citations: result.entries,
+        },
+        {
+          message: 'Citations generated successfully',
+          ...(result.warning && { warning: result.warning }),
+        },
+      )
+    } catch (error) {
+      logger.error(`Error in Cite endpoint: ${error}`)
+      return this.errorResponse(`Internal server error: ${error}`, 500)
+    }
+  }
+
+  /**
+   * Validate and normalize Pandoc citation options
+   * @param raw - Raw options from the body or query parameters
+   * @returns Options without unset values, or an error message
+   */
+  private parsePandocOptions(raw: any): PandocCitationOptions | string {
+    if (typeof raw !== 'object' || raw === null) {
+      return 'citation options must be an object'
+    }
+
+    const options: PandocCitationOptions = {}
+    for (const field of ['prefix', 'locator', 'label', 'suffix'] as const) {
+      const value = raw[field]
+      if (value === undefined || value === null) continue
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        return `${field} must be a string`
+      }
+      options[field] = String(value)
+    }
+
+    const suppressAuthor = raw.suppressAuthor
+    if (suppressAuthor !== undefined && suppressAuthor !== null) {
+      options.suppressAuthor = suppressAuthor === true || suppressAuthor === 'true' || suppressAuthor === '1'
+    }
+
+    return options
+  }
+}
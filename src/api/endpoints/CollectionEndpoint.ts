@@ -0,0 +1,184 @@
+import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
+import { ServiceManager } from '../../core/ServiceManager'
+import { API_ENDPOINTS } from '../../config/constants'
+import { apiLogger as logger } from '../../core/Logger'
+import { EndpointMetadata, ValidationError } from '../../core/types'
+
+const METADATA: EndpointMetadata = {
+  tag: 'Collections',
+  operations: {
+    GET: {
+      operationId: 'getCollection',
+      summary: 'Get a collection with its subtree',
+      parameters: OpenApiBuilder.LIBRARY_PARAMETERS,
+      response: OpenApiBuilder.success({
+        library: OpenApiBuilder.ref('Library'),
+        collection: OpenApiBuilder.ref('Collection'),
+      }),
+    },
+    PATCH: {
+      operationId: 'updateCollection',
+      summary: 'Rename and/or move a collection',
+      requestBody: OpenApiBuilder.object({
+        name: { type: 'string' },
+        parent: { type: 'string', nullable: true, description: 'New parent key or path, null for the top level' },
+        ...OpenApiBuilder.LIBRARY_PROPERTIES,
+      }),
+      response: OpenApiBuilder.success({
+        library: OpenApiBuilder.ref('Library'),
+        collection: OpenApiBuilder.ref('Collection'),
+      }),
+    },
+    DELETE: {
+      operationId: 'deleteCollection',
+      summary: 'Delete a collection and its subcollections',
+      parameters: [
+        {
+          name: 'deleteItems',
+          in: 'query',
+          description: 'Also move the items to the trash',
+          schema: { type: 'boolean' },
+        },
+        ...OpenApiBuilder.LIBRARY_PARAMETERS,
+      ],
+      response: OpenApiBuilder.success({
+        deleted: { type: 'boolean' },
+        itemsDeleted: { type: 'boolean' },
+        library: OpenApiBuilder.ref('Library'),
+        collection: OpenApiBuilder.ref('Collection'),
+      }),
+    },
+  },
+}
+
+/**
+ * Endpoint for reading, renaming, moving and deleting a single collection
+ */
+export class CollectionEndpoint extends BaseEndpoint {
+  constructor(serviceManager: ServiceManager) {
+    super(API_ENDPOINTS.COLLECTION, serviceManager, ['GET', 'PATCH', 'DELETE'])
+    this.metadata = METADATA
+  }
+
+  /**
+   * Handle collection request
+   * GET returns the collection with its subtree; PATCH renames and/or moves it (name, parent);
+   * DELETE removes it with its subcollections, and trashes its items when deleteItems is true
+   * @param requestData - Request data with the collection key as path parameter
+   * @returns Response with collection data
+   */
+  async handleRequest(requestData: any): Promise<[number, string, string]> {
+    try {
+      const collectionKey = requestData.pathParams?.collectionKey
+
+      if (!collectionKey || typeof collectionKey !== 'string') {
+        return this.validationErrorResponse('Collection key is required in the path')
+      }
+
+      const libraryParam = this.getLibraryParam(requestData)
+      if (!libraryParam.valid) {
+        return this.validationErrorResponse(libraryParam.error!)
+      }
+
+      const collectionService = this.serviceManager.collectionService
+      const collection = await collectionService.findCollection(collectionKey, libraryParam.libraryID)
+      if (!collection) {
+        return this.errorResponse(`Collection with key ${collectionKey} not found`, 404)
+      }
+
+      if (requestData.method === 'GET') {
+        return this.successResponse({
+          library: this.getLibraryInfo(collection.libraryID),
+          collection: collectionService.describeCollection(collection),
+        })
+      }
+
+      if (!this.isLibraryEditable(collection.libraryID)) {
+        return this.errorResponse('Target library is not editable', 403)
+      }
+
+      if (requestData.method === 'DELETE') {
+        const deleteItems = this.parseBoolean(
+          requestData.data?.deleteItems ?? requestData.searchParams?.get('deleteItems'),
+        )
+        const deleted = collectionService.describeCollection(collection)
+        await collectionService.deleteCollection(collection, deleteItems)
+
+        return this.successResponse(
+          {
+            deleted: true,
+            itemsDeleted: deleteItems,
+            library: this.getLibraryInfo(collection.libraryID),
+            collection: deleted,
+          },
+          {
+            message: 'Collection deleted successfully',
+          },
+        )
+      }
+
+      return await this.updateCollection(requestData, collection)
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return this.errorResponse(error)
+      }
+      logger.error(`Error in Collection endpoint: ${error}`)
+      return this.errorResponse(`Internal server error: ${error}`, 500)
+    }
+  }
+
+  /**
+   * Rename and/or move a collection
+   * @param requestData - Request data with name and/or parent (key or path, null for top level)
+   * @param collection - Collection to update
+   * @returns Response with the updated collection
+   */
+  private async updateCollection(requestData: any, collection: any): Promise<[number, string, string]> {
+    const body = requestData.data || {}
+    const { name, parent } = body
+    const collectionService = this.serviceManager.collectionService
+
+    if (name === undefined && !('parent' in body)) {
+      return this.validationErrorResponse('At least one of name or parent must be provided')
+    }
+    if (name !== undefined && (typeof name !== 'string' || name.trim().length === 0)) {
+      return this.validationErrorResponse('name must be a non-empty string')
+    }
+    if (parent !== undefined && parent !== null && typeof parent !== 'string') {
+      return this.validationErrorResponse('parent must be a collection key or path, or null for the top level')
+    }
+
+    let parentCollection: any = undefined
+    if (typeof parent === 'string') {
+      parentCollection = await collectionService.resolveCollection(collection.libraryID, parent)
+      if (!parentCollection) {
+        return this.errorResponse(`Parent collection "${parent}" not found in library ${collection.libraryID}`, 404)
+      }
+    } else if (parent === null) {
+      parentCollection = null
+    }
+
+    const newName = name !== undefined ? name.trim() : collection.name
+    const newParentID = parentCollection !== undefined ? parentCollection?.id : collection.parentID || undefined
+    const sibling = collectionService.findChildByName(collection.libraryID, newName, newParentID)
+    if (sibling && sibling.id !== collection.id) {
+      return this.errorResponse(`A collection named "${newName}" already exists at this level`, 409)
+    }
+
+    await collectionService.updateCollection(collection, {
+      ...(name !== undefined && { name: newName }),
+      ...(parentCollection !== undefined && { parent: parentCollection }),
+    })
+
+    return this.successResponse(
+      {
+        library: this.getLibraryInfo(collection.libraryID),
+        collection: collectionService.describeCollection(collection),
+      },
+      {
+        message: 'Collection updated successfully',
+      },
+    )
+  }
+}
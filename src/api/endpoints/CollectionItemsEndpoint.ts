@@ -0,0 +1,110 @@
+import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
+import { ServiceManager } from '../../core/ServiceManager'
+import { API_ENDPOINTS, LIBRARY_SEARCH } from '../../config/constants'
+import { apiLogger as logger } from '../../core/Logger'
+import { EndpointMetadata } from '../../core/types'
+
+const METADATA: EndpointMetadata = {
+  tag: 'Collections',
+  operations: {
+    GET: {
+      operationId: 'listCollectionItems',
+      summary: 'List the items in a collection',
+      parameters: [
+        { name: 'recursive', in: 'query', description: 'Include subcollections', schema: { type: 'boolean' } },
+        ...OpenApiBuilder.PAGINATION_PARAMETERS,
+        ...OpenApiBuilder.LIBRARY_PARAMETERS,
+      ],
+      response: OpenApiBuilder.ref('SearchResults'),
+    },
+  },
+}
+
+/**
+ * Endpoint for listing the items in a collection
+ * Returns paginated items in the same shape as the search endpoint
+ */
+export class CollectionItemsEndpoint extends BaseEndpoint {
+  constructor(serviceManager: ServiceManager) {
+    super(API_ENDPOINTS.COLLECTION_ITEMS, serviceManager, ['GET'])
+    this.metadata = METADATA
+  }
+
+  /**
+   * Handle collection items request
+   * @param requestData - Request data with the collection key as path parameter, and optional
+   * recursive, sort, direction, limit and offset query parameters
+   * @returns Response with the requested page of items
+   */
+  async handleRequest(requestData: any): Promise<[number, string, string]> {
+    try {
+      const collectionKey = requestData.pathParams?.collectionKey
+      const searchParams = requestData.searchParams
+
+      if (!collectionKey || typeof collectionKey !== 'string') {
+        return this.validationErrorResponse('Collection key is required in the path')
+      }
+
+      const limit = Number(searchParams?.get('limit') || LIBRARY_SEARCH.DEFAULT_LIMIT)
+      const offset = Number(searchParams?.get('offset') || 0)
+      const sort = searchParams?.get('sort') || undefined
+      const direction = searchParams?.get('direction') || undefined
+
+      if (!Number.isInteger(limit) || limit < 1 || limit > LIBRARY_SEARCH.MAX_LIMIT) {
+        return this.validationErrorResponse(`limit must be an integer between 1 and ${LIBRARY_SEARCH.MAX_LIMIT}`)
+      }
+      if (!Number.isInteger(offset) || offset < 0) {
+        return this.validationErrorResponse('offset must be a non-negative integer')
+      }
+      if (sort && !LIBRARY_SEARCH.SORT_FIELDS.includes(sort)) {
+        return this.validationErrorResponse(`sort must be one of: ${LIBRARY_SEARCH.SORT_FIELDS.join(', ')}`)
+      }
+      if (direction && direction !== 'asc' && direction !== 'desc') {
+        return this.validationErrorResponse('direction must be asc or desc')
+      }
+
+      const libraryParam = this.getLibraryParam(requestData)
+      if (!libraryParam.valid) {
+        return this.validationErrorResponse(libraryParam.error!)
+      }
+
+      const collectionService = this.serviceManager.collectionService
+      const collection = await collectionService.findCollection(collectionKey, libraryParam.libraryID)
+      if (!collection) {
+        return this.errorResponse(`Collection with key ${collectionKey} not found`, 404)
+      }
+
+      const items = await this.serviceManager.librarySearchService.search({
+        libraryID: collection.libraryID,
+        collection: collection.key,
+        recursive: this.parseBoolean(searchParams?.get('recursive')),
+        sort,
+        direction,
+      })
+
+      const page = (items || []).slice(offset, offset + limit)
+      const pageData = await Promise.all(
+        page.map(item => this.serviceManager.itemDataService.extractItemData(item)),
+      )
+
+      return this.successResponse({
+        total: items?.length ?? 0,
+        offset,
+        limit,
+        count: pageData.length,
+        hasMore: offset + pageData.length < (items?.length ?? 0),
+        library: this.getLibraryInfo(collection.libraryID),
+        collection: {
+          key: collection.key,
+          name: collection.name,
+          path: collectionService.getCollectionPath(collection),
+        },
+        items: pageData,
+      })
+    } catch (error) {
+      logger.error(`Error in CollectionItems endpoint: ${error}`)
+      return this.errorResponse(`Internal server error: ${error}`, 500)
+    }
+  }
+}
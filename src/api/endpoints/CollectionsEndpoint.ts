@@ -0,0 +1,151 @@
+import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
+import { ServiceManager } from '../../core/ServiceManager'
+import { API_ENDPOINTS } from '../../config/constants'
+import { apiLogger as logger } from '../../core/Logger'
+import { EndpointMetadata, ValidationError } from '../../core/types'
+
+const METADATA: EndpointMetadata = {
+  tag: 'Collections',
+  operations: {
+    GET: {
+      operationId: 'listCollections',
+      summary: 'Get the collection tree of a library',
+      parameters: OpenApiBuilder.LIBRARY_PARAMETERS,
+      response: OpenApiBuilder.success({
+        library: OpenApiBuilder.ref('Library'),
+        collections: { type: 'array', items: OpenApiBuilder.ref('Collection') },
+      }),
+    },
+    POST: {
+      operationId: 'createCollection',
+      summary: 'Create a collection by name and parent, or every missing level of a path',
+      requestBody: OpenApiBuilder.object({
+        name: { type: 'string' },
+        parent: { type: 'string', description: 'Parent collection key or path' },
+        path: { type: 'string', description: 'Collection path such as Grants/2026/Data, instead of name' },
+        ...OpenApiBuilder.LIBRARY_PROPERTIES,
+      }),
+      response: OpenApiBuilder.success({
+        created: { type: 'boolean' },
+        library: OpenApiBuilder.ref('Library'),
+        collection: OpenApiBuilder.ref('Collection'),
+      }),
+    },
+  },
+}
+
+/**
+ * Endpoint for listing the collection tree of a library and creating collections
+ */
+export class CollectionsEndpoint extends BaseEndpoint {
+  constructor(serviceManager: ServiceManager) {
+    super(API_ENDPOINTS.COLLECTIONS, serviceManager, ['GET', 'POST'])
+    this.metadata = METADATA
+  }
+
+  /**
+   * Handle collections request
+   * GET returns the collection tree with item counts; POST creates a collection
+   * @param requestData - Request data with optional libraryID/groupID, and name/parent or path for POST
+   * @returns Response with the collection tree or the created collection
+   */
+  async handleRequest(requestData: any): Promise<[number, string, string]> {
+    try {
+      const libraryParam = this.getLibraryParam(requestData)
+      if (!libraryParam.valid) {
+        return this.validationErrorResponse(libraryParam.error!)
+      }
+      const libraryID = libraryParam.libraryID ?? Zotero.Libraries.userLibraryID
+
+      if (requestData.method === 'POST') {
+        return await this.createCollection(requestData, libraryID)
+      }
+
+      const collections = this.serviceManager.collectionService.getCollectionTree(libraryID)
+
+      return this.successResponse({
+        library: this.getLibraryInfo(libraryID),
+        collections,
+      })
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return this.errorResponse(error)
+      }
+      logger.error(`Error in Collections endpoint: ${error}`)
+      return this.errorResponse(`Internal server error: ${error}`, 500)
+    }
+  }
+
+  /**
+   * Create a collection from a name and optional parent, or from a full path
+   * A path creates every missing segment and returns the existing collection when it is already there,
+   * so setup scripts can be re-run safely
+   * @param requestData - Request data
+   * @param libraryID - Library to create the collection in
+   * @returns Response with the created collection
+   */
+  private async createCollection(requestData: any, libraryID: number): Promise<[number, string, string]> {
+    const { name, parent, path } = requestData.data || {}
+    const collectionService = this.serviceManager.collectionService
+
+    if ((name === undefined) === (path === undefined)) {
+      return this.validationErrorResponse('Provide either name (with optional parent) or path')
+    }
+    if (name !== undefined && (typeof name !== 'string' || name.trim().length === 0)) {
+      return this.validationErrorResponse('name must be a non-empty string')
+    }
+    if (path !== undefined && (typeof path !== 'string' || path.trim().length === 0)) {
+      return this.validationErrorResponse('path must be a non-empty string')
+    }
+    if (parent !== undefined && (typeof parent !== 'string' || path !== undefined)) {
+      return this.validationErrorResponse('parent must be a collection key or path and cannot be combined with path')
+    }
+
+    if (!this.isLibraryEditable(libraryID)) {
+      return this.errorResponse('Target library is not editable', 403)
+    }
+
+    if (path !== undefined) {
+      const existing = await collectionService.resolvePath(libraryID, path, false)
+      const collection = existing || await collectionService.resolvePath(libraryID, path, true)
+
+      return this.successResponse(
+        {
+          created: !existing,
+          library: this.getLibraryInfo(libraryID),
+          collection: collectionService.describeCollection(collection),
+        },
+        {
+          message: existing ? 'Collection already exists' : 'Collection created successfully',
+        },
+      )
+    }
+
+    let parentCollection: any = null
+    if (parent !== undefined) {
+      parentCollection = await collectionService.resolveCollection(libraryID, parent)
+      if (!parentCollection) {
+        return this.errorResponse(`Parent collection "${parent}" not found in library ${libraryID}`, 404)
+      }
+    }
+
+    const trimmedName = name.trim()
+    if (collectionService.findChildByName(libraryID, trimmedName, parentCollection?.id)) {
+      return this.errorResponse(`A collection named "${trimmedName}" already exists at this level`, 409)
+    }
+
+    const collection = await collectionService.createCollection(libraryID, trimmedName, parentCollection?.id)
+
+    return this.successResponse(
+      {
+        created: true,
+        library: this.getLibraryInfo(libraryID),
+        collection: collectionService.describeCollection(collection),
+      },
+      {
+        message: 'Collection created successfully',
+      },
+    )
+  }
+}
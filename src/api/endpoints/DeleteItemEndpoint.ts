@@ -1,7 +1,36 @@
 import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
 import { ServiceManager } from '../../core/ServiceManager'
 import { API_ENDPOINTS } from '../../config/constants'
 import { apiLogger as logger } from '../../core/Logger'
+import { ApiScope, EndpointMetadata } from '../../core/types'
+
+const METADATA: EndpointMetadata = {
+  tag: 'Items',
+  operations: {
+    POST: {
+      operationId: 'deleteItem',
+      summary: 'Delete an item permanently',
+      requestBody: OpenApiBuilder.object({
+        itemKey: { type: 'string' },
+        ...OpenApiBuilder.LIBRARY_PROPERTIES,
+        ...OpenApiBuilder.DRY_RUN_PROPERTIES,
+      }, ['itemKey']),
+      response: OpenApiBuilder.success({
+        deleted: { type: 'boolean' },
+        dryRun: { type: 'boolean' },
+        itemKey: { type: 'string' },
+        itemInfo: { type: 'object' },
+        childItems: {
+          type: 'array',
+          description: 'Dry runs only: notes and attachments that would be deleted with the item',
+          items: { type: 'object' },
+        },
+        library: OpenApiBuilder.ref('Library'),
+      }),
+    },
+  },
+}
 
 /**
  * Endpoint for deleting Zotero items by their key
@@ -9,6 +38,15 @@ import { apiLogger as logger } from '../../core/Logger'
 export class DeleteItemEndpoint extends BaseEndpoint {
   constructor(serviceManager: ServiceManager) {
     super(API_ENDPOINTS.DELETE_ITEM, serviceManager, ['POST'])
+    this.metadata = METADATA
+  }
+
+  /**
+   * Deleting items needs the delete scope, although it is sent as POST
+   * @returns Required scopes
+   */
+  protected getRequiredScopes(): ApiScope[] {
+    return ['delete']
   }
 
   /**
@@ -30,20 +68,17 @@ export class DeleteItemEndpoint extends BaseEndpoint {
         return this.validationErrorResponse('itemKey is required and must be a string')
       }
 
-      logger.info(`Attempting to delete item with key: ${itemKey}`)
-
-      // Check if library is editable
-      if (!this.checkLibraryEditable()) {
-        return this.errorResponse('Target library is not editable', 403)
+      const libraryParam = this.getLibraryParam(requestData)
+      if (!libraryParam.valid) {
+        return this.validationErrorResponse(libraryParam.error!)
       }
 
-      // Try to get the item
+      logger.info(`Attempting to delete item with key: ${itemKey}`)
+
+      // Look in the requested library, or resolve the key across all libraries
       let item
       try {
-        item = await Zotero.Items.getByLibraryAndKeyAsync(
-          Zotero.Libraries.userLibraryID,
-          itemKey,
-        )
+        item = await this.findItem(itemKey, libraryParam.libraryID)
       } catch (error) {
         logger.warn(`Item with key ${itemKey} not found: ${error}`)
         return this.errorResponse(`Item with key ${itemKey} not found`, 404)
@@ -54,6 +89,11 @@ export class DeleteItemEndpoint extends BaseEndpoint {
         return this.errorResponse(`Item with key ${itemKey} not found`, 404)
       }
 
+      // Check if the item's library is editable
+      if (!this.isLibraryEditable(item.libraryID)) {
+        return this.errorResponse('Target library is not editable', 403)
+      }
+
       // Store item info for response
       const itemInfo = {
         key: item.key,
@@ -61,6 +101,30 @@ export class DeleteItemEndpoint extends BaseEndpoint {
         itemType: item.itemType,
       }
 
+      // Erasing an item also erases its notes and attachments (with their files)
+      if (this.isDryRun(requestData)) {
+        const childIDs = item.isRegularItem() ? [...item.getNotes(), ...item.getAttachments()] : []
+        const childItems = Zotero.Items.get(childIDs).map((child: any) => ({
+          key: child.key,
+          title: child.getDisplayTitle(),
+          itemType: child.itemType,
+        }))
+
+        return this.successResponse(
+          {
+            deleted: false,
+            dryRun: true,
+            itemKey: itemKey,
+            itemInfo: itemInfo,
+            childItems: childItems,
+            library: this.getLibraryInfo(item.libraryID),
+          },
+          {
+            message: `Dry run: the item and ${childItems.length} child item(s) would be deleted`,
+          },
+        )
+      }
+
       // Delete the item
       try {
         await item.eraseTx()
@@ -71,6 +135,7 @@ export class DeleteItemEndpoint extends BaseEndpoint {
             deleted: true,
             itemKey: itemKey,
             itemInfo: itemInfo,
+            library: this.getLibraryInfo(item.libraryID),
           },
           {
             message: 'Item deleted successfully',
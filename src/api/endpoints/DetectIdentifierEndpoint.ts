@@ -1,7 +1,26 @@
 import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
 import { ServiceManager } from '../../core/ServiceManager'
 import { API_ENDPOINTS } from '../../config/constants'
 import { apiLogger as logger } from '../../core/Logger'
+import { ApiScope, EndpointMetadata } from '../../core/types'
+
+const METADATA: EndpointMetadata = {
+  tag: 'Preview',
+  operations: {
+    POST: {
+      operationId: 'detectIdentifier',
+      summary: 'Find identifiers in a string and check whether translators exist for them',
+      requestBody: OpenApiBuilder.object({ identifier: { type: 'string' } }, ['identifier']),
+      response: OpenApiBuilder.success({
+        hasTranslators: { type: 'boolean' },
+        identifier: { type: 'string' },
+        extractedIdentifiers: { type: 'array', items: { type: 'object' } },
+        results: { type: 'array', items: { type: 'object' } },
+      }),
+    },
+  },
+}
 
 /**
  * Endpoint for detecting if identifiers can be translated
@@ -9,6 +28,15 @@ import { apiLogger as logger } from '../../core/Logger'
 export class DetectIdentifierEndpoint extends BaseEndpoint {
   constructor(serviceManager: ServiceManager) {
     super(API_ENDPOINTS.DETECT_IDENTIFIER, serviceManager, ['POST'])
+    this.metadata = METADATA
+  }
+
+  /**
+   * Detection only reads, although it is sent as POST
+   * @returns Required scopes
+   */
+  protected getRequiredScopes(): ApiScope[] {
+    return ['read']
   }
 
   /**
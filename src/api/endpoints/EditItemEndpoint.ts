@@ -1,7 +1,51 @@
 import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
 import { ServiceManager } from '../../core/ServiceManager'
 import { API_ENDPOINTS } from '../../config/constants'
 import { apiLogger as logger } from '../../core/Logger'
+import { EndpointMetadata } from '../../core/types'
+
+const METADATA: EndpointMetadata = {
+  tag: 'Items',
+  operations: {
+    PATCH: {
+      operationId: 'editItem',
+      summary: 'Update the fields, creators, tags, collections or relations of an item',
+      description: 'Also accepted as POST',
+      requestBody: OpenApiBuilder.object({
+        itemKey: { type: 'string' },
+        fields: { type: 'object', additionalProperties: { type: 'string' } },
+        creators: { type: 'array', items: OpenApiBuilder.ref('Creator') },
+        tags: { type: 'array', items: { type: 'string' } },
+        collections: { type: 'array', items: { type: 'string' }, description: 'Collection keys' },
+        relations: { type: 'object' },
+        note: { type: 'string', description: 'Note content, for note items' },
+        ...OpenApiBuilder.LIBRARY_PROPERTIES,
+        ...OpenApiBuilder.DRY_RUN_PROPERTIES,
+      }, ['itemKey']),
+      response: OpenApiBuilder.success({
+        updated: { type: 'boolean' },
+        dryRun: { type: 'boolean' },
+        changes: {
+          type: 'object',
+          description: 'Dry runs only: the from and to value of each updated field',
+          additionalProperties: {
+            type: 'object',
+            properties: { from: {}, to: {} },
+          },
+        },
+        itemKey: { type: 'string' },
+        itemType: { type: 'string' },
+        title: { type: 'string' },
+        updatedFields: { type: 'array', items: { type: 'string' } },
+        version: { type: 'integer' },
+        dateModified: { type: 'string' },
+        library: OpenApiBuilder.ref('Library'),
+        warnings: { type: 'array', items: { type: 'string' } },
+      }),
+    },
+  },
+}
 
 /**
  * Endpoint for editing Zotero items by their key
@@ -10,6 +54,7 @@ import { apiLogger as logger } from '../../core/Logger'
 export class EditItemEndpoint extends BaseEndpoint {
   constructor(serviceManager: ServiceManager) {
     super(API_ENDPOINTS.EDIT_ITEM, serviceManager, ['POST', 'PATCH'])
+    this.metadata = METADATA
   }
 
   /**
@@ -39,20 +84,17 @@ export class EditItemEndpoint extends BaseEndpoint {
         )
       }
 
-      logger.info(`Attempting to edit item with key: ${itemKey}`)
-
-      // Check if library is editable
-      if (!this.checkLibraryEditable()) {
-        return this.errorResponse('Target library is not editable', 403)
+      const libraryParam = this.getLibraryParam(requestData)
+      if (!libraryParam.valid) {
+        return this.validationErrorResponse(libraryParam.error!)
       }
 
-      // Try to get the item
+      logger.info(`Attempting to edit item with key: ${itemKey}`)
+
+      // Look in the requested library, or resolve the key across all libraries
       let item
       try {
-        item = await Zotero.Items.getByLibraryAndKeyAsync(
-          Zotero.Libraries.userLibraryID,
-          itemKey,
-        )
+        item = await this.findItem(itemKey, libraryParam.libraryID)
       } catch (error) {
         logger.warn(`Item with key ${itemKey} not found: ${error}`)
         return this.errorResponse(`Item with key ${itemKey} not found`, 404)
@@ -63,11 +105,20 @@ export class EditItemEndpoint extends BaseEndpoint {
         return this.errorResponse(`Item with key ${itemKey} not found`, 404)
       }
 
+      // Check if the item's library is editable
+      if (!this.isLibraryEditable(item.libraryID)) {
+        return this.errorResponse('Target library is not editable', 403)
+      }
+
       // Store original item info for logging
       const originalTitle = item.getField('title') || 'Untitled'
       const itemType = item.itemType
 
-      logger.info(`Editing item: ${itemKey} (${originalTitle}, type: ${itemType})`)
+      const dryRun = this.isDryRun(requestData)
+      logger.info(`Editing item${dryRun ? ' (dry run)' : ''}: ${itemKey} (${originalTitle}, type: ${itemType})`)
+
+      // A dry run applies the changes to an unsaved copy, leaving the cached item untouched
+      const edited = dryRun ? item.clone(item.libraryID, { includeCollections: true }) : item
 
       // Track what was updated for response
       const updatedFields: string[] = []
@@ -75,29 +126,29 @@ export class EditItemEndpoint extends BaseEndpoint {
 
       // Update fields if provided
       if (fields && typeof fields === 'object') {
-        const fieldUpdateResult = await this.updateItemFields(item, fields, itemType)
+        const fieldUpdateResult = await this.updateItemFields(edited, fields, itemType)
         updatedFields.push(...fieldUpdateResult.updated)
         validationErrors.push(...fieldUpdateResult.errors)
       }
 
       // Update note content if provided (for note items)
-      if (note !== undefined && item.isNote()) {
+      if (note !== undefined && edited.isNote()) {
         try {
-          item.setNote(note)
+          edited.setNote(note)
           updatedFields.push('note')
           logger.debug('Updated note content')
         } catch (error) {
           validationErrors.push(`Failed to update note: ${error}`)
           logger.warn(`Failed to update note: ${error}`)
         }
-      } else if (note !== undefined && !item.isNote()) {
+      } else if (note !== undefined && !edited.isNote()) {
         validationErrors.push('note field can only be set on note items')
       }
 
       // Update creators if provided
       if (creators !== undefined) {
         if (Array.isArray(creators)) {
-          const creatorUpdateResult = this.updateItemCreators(item, creators, itemType)
+          const creatorUpdateResult = this.updateItemCreators(edited, creators, itemType)
           if (creatorUpdateResult.success) {
             updatedFields.push('creators')
           } else {
@@ -111,7 +162,7 @@ export class EditItemEndpoint extends BaseEndpoint {
       // Update tags if provided
       if (tags !== undefined) {
         if (Array.isArray(tags)) {
-          const tagUpdateResult = this.updateItemTags(item, tags)
+          const tagUpdateResult = this.updateItemTags(edited, tags)
           if (tagUpdateResult.success) {
             updatedFields.push('tags')
           } else {
@@ -125,7 +176,7 @@ export class EditItemEndpoint extends BaseEndpoint {
       // Update collections if provided
       if (collections !== undefined) {
         if (Array.isArray(collections)) {
-          const collectionUpdateResult = await this.updateItemCollections(item, collections)
+          const collectionUpdateResult = await this.updateItemCollections(edited, collections)
           if (collectionUpdateResult.success) {
             updatedFields.push('collections')
           } else {
@@ -139,7 +190,7 @@ export class EditItemEndpoint extends BaseEndpoint {
       // Update relations if provided
       if (relations !== undefined) {
         if (typeof relations === 'object') {
-          const relationUpdateResult = this.updateItemRelations(item, relations)
+          const relationUpdateResult = this.updateItemRelations(edited, relations)
           if (relationUpdateResult.success) {
             updatedFields.push('relations')
           } else {
@@ -159,6 +210,33 @@ export class EditItemEndpoint extends BaseEndpoint {
         )
       }
 
+      if (dryRun) {
+        const changes: Record<string, { from: any; to: any }> = {}
+        for (const field of updatedFields) {
+          changes[field] = {
+            from: this.getEditableValue(item, field),
+            to: this.getEditableValue(edited, field),
+          }
+        }
+
+        return this.successResponse(
+          {
+            updated: false,
+            dryRun: true,
+            itemKey: itemKey,
+            itemType: itemType,
+            title: edited.getField('title') || 'Untitled',
+            updatedFields: updatedFields,
+            changes: changes,
+            library: this.getLibraryInfo(item.libraryID),
+          },
+          {
+            message: 'Dry run: the item was not changed',
+            ...(validationErrors.length > 0 && { warnings: validationErrors }),
+          },
+        )
+      }
+
       // Save the item
       try {
         await item.saveTx()
@@ -180,6 +258,7 @@ export class EditItemEndpoint extends BaseEndpoint {
         updatedFields: updatedFields,
         version: item.version,
         dateModified: item.dateModified,
+        library: this.getLibraryInfo(item.libraryID),
       }
 
       const metadata: any = {
@@ -201,6 +280,32 @@ export class EditItemEndpoint extends BaseEndpoint {
     }
   }
 
+  /**
+   * Read the current value of something the endpoint can update, to report dry-run changes
+   * @param item - Zotero item, saved or an unsaved copy
+   * @param name - Field name, or creators, tags, collections, relations or note
+   * @returns Current value
+   */
+  private getEditableValue(item: any, name: string): any {
+    switch (name) {
+      case 'creators':
+        return item.getCreatorsJSON()
+      case 'tags':
+        return item.getTags()
+      case 'collections':
+        return item.getCollections()
+          .map((collectionID: number) => Zotero.Collections.get(collectionID))
+          .filter((collection: any) => collection)
+          .map((collection: any) => collection.key)
+      case 'relations':
+        return item.getRelations()
+      case 'note':
+        return item.getNote()
+      default:
+        return item.getField(name)
+    }
+  }
+
   /**
    * Update item fields with validation
    * @param item - Zotero item
@@ -406,7 +511,7 @@ export class EditItemEndpoint extends BaseEndpoint {
         // Try to get collection by key
         try {
           const collection = await Zotero.Collections.getByLibraryAndKeyAsync(
-            Zotero.Libraries.userLibraryID,
+            item.libraryID,
             collectionKey,
           )
 
@@ -0,0 +1,145 @@
+import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
+import { ServiceManager } from '../../core/ServiceManager'
+import { API_ENDPOINTS, EVENT_STREAM } from '../../config/constants'
+import { apiLogger as logger } from '../../core/Logger'
+import { ApiEventFilter, ApiEventType, ApiScope, EndpointMetadata } from '../../core/types'
+import { EventBatch } from '../../services/EventService'
+import { HeaderUtils } from '../../utils/HeaderUtils'
+import { ResponseBuilder } from '../../utils/ResponseBuilder'
+
+const METADATA: EndpointMetadata = {
+  tag: 'Events',
+  operations: {
+    GET: {
+      operationId: 'getEvents',
+      summary: 'Wait for library and import activity after an event id (long polling)',
+      description: 'Answers as soon as a matching event exists, or with no events when the timeout passes. '
+        + 'Send lastEventId back as since to resume. With Accept: text/event-stream the events are sent '
+        + 'as Server-Sent Events, so EventSource reconnects and resumes through Last-Event-ID.',
+      parameters: [
+        { name: 'since', in: 'query', description: 'Last event id seen; defaults to the latest event, so only new events are sent', schema: { type: 'integer', minimum: 0 } },
+        { name: 'timeout', in: 'query', description: 'Seconds to wait for events', schema: { type: 'integer', minimum: 0, maximum: EVENT_STREAM.MAX_TIMEOUT_SECONDS, default: EVENT_STREAM.DEFAULT_TIMEOUT_SECONDS } },
+        { name: 'types', in: 'query', description: 'Comma-separated event types', schema: { type: 'string' } },
+        { name: 'collection', in: 'query', description: 'Collection key', schema: { type: 'string' } },
+        ...OpenApiBuilder.LIBRARY_PARAMETERS,
+      ],
+      response: OpenApiBuilder.success({
+        events: { type: 'array', items: OpenApiBuilder.ref('Event') },
+        lastEventId: { type: 'integer' },
+        missed: { type: 'boolean', description: 'Events after since were dropped from the buffer; resynchronize' },
+      }),
+    },
+  },
+}
+
+/**
+ * Endpoint streaming library and import activity (item changes, translations, duplicates, AI calls)
+ * Zotero's server cannot hold a response open, so the stream is a long poll; event-stream
+ * clients get the same batches in SSE framing and reconnect after each one
+ */
+export class EventsEndpoint extends BaseEndpoint {
+  constructor(serviceManager: ServiceManager) {
+    super(API_ENDPOINTS.EVENTS, serviceManager, ['GET'])
+    this.metadata = METADATA
+  }
+
+  /**
+   * Events describe library contents, so reading them needs the read scope
+   * @returns Required scopes
+   */
+  protected getRequiredScopes(): ApiScope[] {
+    return ['read']
+  }
+
+  /**
+   * Handle events request
+   * @param requestData - Request data with cursor, timeout and filter query parameters
+   * @returns Matching events as JSON, or as Server-Sent Events when requested
+   */
+  async handleRequest(requestData: any): Promise<[number, string, string]> {
+    try {
+      const searchParams = requestData.searchParams
+      const eventService = this.serviceManager.eventService
+
+      const sinceValue = searchParams?.get('since') ?? HeaderUtils.getHeader(requestData.headers, 'Last-Event-ID')
+      const since = sinceValue ? Number(sinceValue) : eventService.getLastEventId()
+      if (!Number.isInteger(since) || since < 0) {
+        return this.validationErrorResponse('since must be a non-negative integer')
+      }
+
+      const timeoutValue = searchParams?.get('timeout')
+      const timeout = timeoutValue ? Number(timeoutValue) : EVENT_STREAM.DEFAULT_TIMEOUT_SECONDS
+      if (!Number.isInteger(timeout) || timeout < 0 || timeout > EVENT_STREAM.MAX_TIMEOUT_SECONDS) {
+        return this.validationErrorResponse(`timeout must be an integer between 0 and ${EVENT_STREAM.MAX_TIMEOUT_SECONDS}`)
+      }
+
+      const filter: ApiEventFilter = {}
+
+      const types = (searchParams?.get('types') || '')
+        .split(',')
+        .map((type: string) => type.trim())
+        .filter((type: string) => type.length > 0)
+      const unknownTypes = types.filter(type => !EVENT_STREAM.TYPES.includes(type))
+      if (unknownTypes.length > 0) {
+        return this.validationErrorResponse(
+          `Unknown event type(s): ${unknownTypes.join(', ')}. Valid types: ${EVENT_STREAM.TYPES.join(', ')}`,
+        )
+      }
+      if (types.length > 0) {
+        filter.types = types as ApiEventType[]
+      }
+
+      const libraryParam = this.getLibraryParam(requestData)
+      if (!libraryParam.valid) {
+        return this.validationErrorResponse(libraryParam.error!)
+      }
+      filter.libraryID = libraryParam.libraryID
+
+      const collectionKey = searchParams?.get('collection')
+      if (collectionKey) {
+        const collection = await this.serviceManager.collectionService.findCollection(collectionKey, libraryParam.libraryID)
+        if (!collection) {
+          return this.errorResponse(`Collection with key ${collectionKey} not found`, 404)
+        }
+        filter.collection = collection.key
+      }
+
+      const batch = await eventService.waitForEvents(since, filter, timeout * 1000)
+
+      const accept = HeaderUtils.getHeader(requestData.headers, 'Accept') || ''
+      if (accept.includes('text/event-stream')) {
+        return ResponseBuilder.raw(this.formatEventStream(batch), 'text/event-stream; charset=utf-8')
+      }
+
+      return this.successResponse({
+        events: batch.events,
+        lastEventId: batch.lastEventId,
+        missed: batch.missed,
+      })
+    } catch (error) {
+      logger.error(`Error in Events endpoint: ${error}`)
+      return this.errorResponse(`Internal server error: ${error}`, 500)
+    }
+  }
+
+  /**
+   * Format a batch as Server-Sent Events
+   * The closing id line moves the client's Last-Event-ID past events the filter skipped
+   * @param batch - Events to send
+   * @returns Event stream body
+   */
+  private formatEventStream(batch: EventBatch): string {
+    const frames = [`retry: ${EVENT_STREAM.RETRY_MS}\n`]
+
+    if (batch.missed) {
+      frames.push(`event: missed\ndata: ${JSON.stringify({ lastEventId: batch.lastEventId })}\n`)
+    }
+    for (const event of batch.events) {
+      frames.push(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n`)
+    }
+    frames.push(`id: ${batch.lastEventId}\n`)
+
+    return frames.join('\n') + '\n'
+  }
+}
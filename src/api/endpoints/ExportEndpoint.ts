@@ -0,0 +1,165 @@
+import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
+import { ServiceManager } from '../../core/ServiceManager'
+import { API_ENDPOINTS } from '../../config/constants'
+import { apiLogger as logger } from '../../core/Logger'
+import { ApiScope, EndpointMetadata } from '../../core/types'
+import { ResponseBuilder } from '../../utils/ResponseBuilder'
+import { RequestValidator } from '../middleware/RequestValidator'
+
+const METADATA: EndpointMetadata = {
+  tag: 'Citations',
+  operations: {
+    POST: {
+      operationId: 'exportItems',
+      summary: 'Export items as BibTeX, BibLaTeX, RIS or CSL JSON',
+      description: 'Select items with one of itemKeys, collection or tag. Also accepted as GET with query parameters. '
+        + 'raw=true returns the file itself instead of JSON.',
+      requestBody: OpenApiBuilder.object({
+        format: { type: 'string', enum: ['bibtex', 'biblatex', 'ris', 'csljson'] },
+        itemKeys: { type: 'array', items: { type: 'string' } },
+        collection: { type: 'string' },
+        recursive: { type: 'boolean' },
+        tag: { type: 'array', items: { type: 'string' } },
+        includeNotes: { type: 'boolean' },
+        raw: { type: 'boolean' },
+        ...OpenApiBuilder.LIBRARY_PROPERTIES,
+      }),
+      response: OpenApiBuilder.success({
+        format: { type: 'string' },
+        label: { type: 'string' },
+        contentType: { type: 'string' },
+        extension: { type: 'string' },
+        itemCount: { type: 'integer' },
+        itemKeys: { type: 'array', items: { type: 'string' } },
+        content: { type: 'string' },
+      }),
+    },
+  },
+}
+
+/**
+ * Endpoint for exporting items as BibTeX, BibLaTeX, RIS or CSL JSON
+ * Items are selected by key, by collection or by tag
+ */
+export class ExportEndpoint extends BaseEndpoint {
+  constructor(serviceManager: ServiceManager) {
+    super(API_ENDPOINTS.EXPORT, serviceManager, ['GET', 'POST'])
+    this.metadata = METADATA
+  }
+
+  /**
+   * Exports only read, for GET and POST alike
+   * @returns Required scopes
+   */
+  protected getRequiredScopes(): ApiScope[] {
+    return ['read']
+  }
+
+  /**
+   * Handle export request
+   * @param requestData - Request data with format and one of itemKeys, collection or tag (body or query parameters)
+   * @returns JSON response with the serialized bibliography, or the raw file when raw=true
+   */
+  async handleRequest(requestData: any): Promise<[number, string, string]> {
+    try {
+      // Support both query parameters (GET) and JSON body (POST)
+      const searchParams = requestData.searchParams
+      const body = requestData.data || {}
+      const exporter = this.serviceManager.bibliographyExporter
+
+      const rawFormat = body.format ?? searchParams?.get('format') ?? 'bibtex'
+      const format = exporter.resolveFormat(rawFormat)
+      if (!format) {
+        return this.validationErrorResponse(
+          `format must be one of: ${exporter.getSupportedFormats().join(', ')}`,
+        )
+      }
+
+      const rawKeys = body.itemKeys ?? searchParams?.get('itemKeys') ?? searchParams?.get('keys')
+      const collectionKey = body.collection ?? searchParams?.get('collection')
+      const tags = this.parseTags(body.tag ?? body.tags ?? searchParams?.getAll('tag'))
+
+      const selectorCount = [rawKeys, collectionKey, tags.length > 0 ? tags : undefined]
+        .filter(selector => selector !== undefined && selector !== null && selector !== '')
+        .length
+      if (selectorCount !== 1) {
+        return this.validationErrorResponse('Exactly one of itemKeys, collection or tag must be provided')
+      }
+
+      const libraryParam = this.getLibraryParam(requestData)
+      if (!libraryParam.valid) {
+        return this.validationErrorResponse(libraryParam.error!)
+      }
+
+      // Collections and tags are looked up in the requested library (user library by default)
+      const libraryID = libraryParam.libraryID ?? Zotero.Libraries.userLibraryID
+      let items: any[]
+
+      if (rawKeys !== undefined && rawKeys !== null && rawKeys !== '') {
+        const keysValidation = RequestValidator.validateItemKeys(rawKeys)
+        if (!keysValidation.valid) {
+          return this.validationErrorResponse(keysValidation.error!)
+        }
+
+        items = []
+        for (const itemKey of keysValidation.itemKeys!) {
+          const item = await this.findItem(itemKey, libraryParam.libraryID)
+          if (!item) {
+            logger.warn(`Item with key ${itemKey} does not exist`)
+            return this.errorResponse(`Item with key ${itemKey} not found`, 404)
+          }
+          if (!item.isRegularItem()) {
+            return this.validationErrorResponse(`Item ${itemKey} is not a regular item and cannot be exported`)
+          }
+          items.push(item)
+        }
+      } else if (collectionKey) {
+        if (typeof collectionKey !== 'string') {
+          return this.validationErrorResponse('collection must be a collection key string')
+        }
+
+        const recursive = this.parseBoolean(body.recursive ?? searchParams?.get('recursive'))
+        const collectionItems = await exporter.getCollectionItems(libraryID, collectionKey, recursive)
+        if (!collectionItems) {
+          return this.errorResponse(`Collection with key ${collectionKey} not found`, 404)
+        }
+        items = collectionItems
+      } else {
+        items = await exporter.getTaggedItems(libraryID, tags)
+      }
+
+      const includeNotesParam = body.includeNotes ?? searchParams?.get('includeNotes')
+      const result = await exporter.exportItems(items, format, {
+        includeNotes: includeNotesParam === undefined || includeNotesParam === null
+          ? undefined
+          : this.parseBoolean(includeNotesParam),
+      })
+
+      logger.info(`Exported ${result.itemCount} item(s) as ${result.label}`)
+
+      // Raw mode returns the file itself so build tools can pipe it straight to disk
+      if (this.parseBoolean(body.raw ?? searchParams?.get('raw'))) {
+        return ResponseBuilder.raw(result.content, result.contentType)
+      }
+
+      return this.successResponse(
+        {
+          format: result.format,
+          label: result.label,
+          contentType: result.contentType,
+          extension: result.extension,
+          itemCount: result.itemCount,
+          itemKeys: result.itemKeys,
+          content: result.content,
+        },
+        {
+          message: result.itemCount > 0 ? 'Export completed successfully' : 'No items matched the export selection',
+        },
+      )
+    } catch (error) {
+      logger.error(`Error in Export endpoint: ${error}`)
+      return this.errorResponse(`Internal server error: ${error}`, 500)
+    }
+  }
+}
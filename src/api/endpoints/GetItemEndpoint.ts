@@ -1,7 +1,30 @@
 import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
 import { ServiceManager } from '../../core/ServiceManager'
 import { API_ENDPOINTS } from '../../config/constants'
 import { apiLogger as logger } from '../../core/Logger'
+import { ApiScope, EndpointMetadata } from '../../core/types'
+
+const METADATA: EndpointMetadata = {
+  tag: 'Items',
+  operations: {
+    GET: {
+      operationId: 'getItem',
+      summary: 'Get an item with its fields, creators, attachments and citation',
+      parameters: [
+        { name: 'key', in: 'query', required: true, schema: { type: 'string' } },
+        {
+          name: 'ensureCitationKey',
+          in: 'query',
+          description: 'Generate and store a citation key when the item has none (needs the write scope)',
+          schema: { type: 'boolean' },
+        },
+        ...OpenApiBuilder.LIBRARY_PARAMETERS,
+      ],
+      response: { allOf: [OpenApiBuilder.ref('SuccessResponse'), OpenApiBuilder.ref('Item')] },
+    },
+  },
+}
 
 /**
  * Endpoint for retrieving Zotero items by their key
@@ -9,6 +32,16 @@ import { apiLogger as logger } from '../../core/Logger'
 export class GetItemEndpoint extends BaseEndpoint {
   constructor(serviceManager: ServiceManager) {
     super(API_ENDPOINTS.GET_ITEM, serviceManager, ['GET'])
+    this.metadata = METADATA
+  }
+
+  /**
+   * Reading an item needs the read scope; storing a generated citation key also needs write
+   * @param requestData - Request data
+   * @returns Required scopes
+   */
+  protected getRequiredScopes(requestData: any): ApiScope[] {
+    return this.parseBoolean(requestData?.searchParams?.get('ensureCitationKey')) ? ['read', 'write'] : ['read']
   }
 
   /**
@@ -26,15 +59,17 @@ export class GetItemEndpoint extends BaseEndpoint {
         return this.validationErrorResponse('key query parameter is required and must be a string')
       }
 
+      const libraryParam = this.getLibraryParam(requestData)
+      if (!libraryParam.valid) {
+        return this.validationErrorResponse(libraryParam.error!)
+      }
+
       logger.info(`Retrieving item with key: ${itemKey}`)
 
-      // Try to get the item
+      // Look in the requested library, or resolve the key across all libraries
       let item
       try {
-        item = await Zotero.Items.getByLibraryAndKeyAsync(
-          Zotero.Libraries.userLibraryID,
-          itemKey,
-        )
+        item = await this.findItem(itemKey, libraryParam.libraryID)
       } catch (error) {
         logger.warn(`Item with key ${itemKey} not found: ${error}`)
         return this.errorResponse(`Item with key ${itemKey} not found`, 404)
@@ -45,8 +80,17 @@ export class GetItemEndpoint extends BaseEndpoint {
         return this.errorResponse(`Item with key ${itemKey} not found`, 404)
       }
 
+      // Optionally generate and store a citation key for items that have none
+      const ensureCitationKey = this.parseBoolean(requestData.searchParams?.get('ensureCitationKey'))
+      if (ensureCitationKey && item.isRegularItem()) {
+        if (!this.isLibraryEditable(item.libraryID)) {
+          return this.errorResponse('Target library is not editable', 403)
+        }
+        await this.serviceManager.citationKeyService.ensureCitationKey(item)
+      }
+
       // Extract item data
-      const itemData = await this.extractItemData(item)
+      const itemData = await this.serviceManager.itemDataService.extractItemData(item)
 
       logger.info(`Successfully retrieved item: ${itemKey} (${itemData.title})`)
 
@@ -61,146 +105,4 @@ export class GetItemEndpoint extends BaseEndpoint {
       return this.errorResponse(`Internal server error: ${error}`, 500)
     }
   }
-
-  /**
-   * Extract comprehensive data from a Zotero item
-   * @param item - Zotero item object
-   * @returns Extracted item data
-   */
-  private async extractItemData(item: any): Promise<any> {
-    const itemData: any = {
-      key: item.key,
-      version: item.version,
-      itemType: item.itemType,
-      libraryID: item.libraryID,
-      dateAdded: item.dateAdded,
-      dateModified: item.dateModified,
-      fields: {},
-      creators: [],
-      tags: [],
-      collections: [],
-      relations: {},
-      attachments: [],
-      notes: [],
-      raw: item,
-    }
-
-    // Extract all fields
-    const fieldNames = item.getUsedFields()
-    for (const fieldName of fieldNames) {
-      try {
-        const value = item.getField(fieldName)
-        if (value) {
-          itemData.fields[fieldName] = value
-        }
-      } catch (error) {
-        logger.warn(`Could not get field ${fieldName}: ${error}`)
-      }
-    }
-
-    // For backwards compatibility, include title and date at top level
-    itemData.title = item.getField('title') || itemData.fields.title || 'Untitled'
-    itemData.date = item.getField('date') || itemData.fields.date || ''
-
-    // Extract creators
-    const creators = item.getCreators()
-    itemData.creators = creators.map((creator: any) => ({
-      creatorType: creator.creatorType,
-      firstName: creator.firstName || '',
-      lastName: creator.lastName || '',
-      name: creator.name || '',
-    }))
-
-    // Extract tags
-    const tags = item.getTags()
-    itemData.tags = tags.map((tag: any) => ({
-      tag: tag.tag,
-      type: tag.type || 0,
-    }))
-
-    // Extract collections
-    const collections = item.getCollections()
-    itemData.collections = collections
-
-    // Extract relations
-    itemData.relations = item.getRelations()
-
-    // Extract attachments if this is a regular item
-    if (item.isRegularItem()) {
-      const attachmentIDs = item.getAttachments()
-      itemData.attachments = await Promise.all(
-        attachmentIDs.map(async (attachmentID: number) => {
-          try {
-            const attachment = await Zotero.Items.getAsync(attachmentID)
-            return {
-              key: attachment.key,
-              title: attachment.getField('title'),
-              contentType: attachment.attachmentContentType,
-              path: attachment.attachmentPath,
-              linkMode: attachment.attachmentLinkMode,
-            }
-          } catch (error) {
-            logger.warn(`Could not get attachment ${attachmentID}: ${error}`)
-            return null
-          }
-        }),
-      )
-      itemData.attachments = itemData.attachments.filter(Boolean)
-
-      // Extract notes
-      const noteIDs = item.getNotes()
-      itemData.notes = await Promise.all(
-        noteIDs.map(async (noteID: number) => {
-          try {
-            const note = await Zotero.Items.getAsync(noteID)
-            return {
-              key: note.key,
-              note: note.getNote(),
-              dateAdded: note.dateAdded,
-              dateModified: note.dateModified,
-            }
-          } catch (error) {
-            logger.warn(`Could not get note ${noteID}: ${error}`)
-            return null
-          }
-        }),
-      )
-      itemData.notes = itemData.notes.filter(Boolean)
-    }
-
-    // Generate citation if citation service is available
-    try {
-      const citationResult = await this.serviceManager.citationGenerator.generateProfessionalCitations([item])
-      if (citationResult.success && citationResult.citations.length > 0) {
-        itemData.citation = citationResult.citations[0]
-        itemData.citationFormat = citationResult.format
-        itemData.citationStyle = citationResult.style
-      }
-    } catch (error) {
-      logger.warn(`Could not generate citation: ${error}`)
-    }
-
-    // Generate API URL
-    try {
-      const userID = Zotero.Users.getCurrentUserID()
-      if (userID) {
-        itemData.apiURL = `https://api.zotero.org/users/${userID}/items/${item.key}`
-      }
-    } catch (error) {
-      logger.warn(`Could not generate API URL: ${error}`)
-    }
-
-    // Generate web library URL
-    try {
-      const userID = Zotero.Users.getCurrentUserID()
-      if (userID) {
-        itemData.webURL = `https://www.zotero.org/users/${userID}/items/${item.key}`
-      }
-    } catch (error) {
-      logger.warn(`Could not generate web URL: ${error}`)
-    }
-
-    return itemData
-  }
 }
-
@@ -0,0 +1,298 @@
+import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
+import { ServiceManager } from '../../core/ServiceManager'
+import { API_ENDPOINTS, DEFAULT_PREFERENCES, PDF_PROCESSING } from '../../config/constants'
+import { apiLogger as logger } from '../../core/Logger'
+import { EndpointMetadata, ImportTarget } from '../../core/types'
+import { LibraryUtils } from '../../utils/LibraryUtils'
+import { ExtractedIdentifier, PdfMetadataExtractor } from '../../utils/PdfMetadataExtractor'
+import { UploadUtils } from '../../utils/UploadUtils'
+
+declare const Zotero: any
+
+const TEMP_FILE_PREFIX = 'import'
+const CONFIDENCE_ORDER = { high: 0, medium: 1, low: 2 }
+
+const METADATA: EndpointMetadata = {
+  tag: 'Import',
+  operations: {
+    POST: {
+      operationId: 'importPdf',
+      summary: 'Import an uploaded PDF and create its parent item',
+      description: 'Identifiers found in the PDF are looked up and translated; otherwise Zotero\'s metadata retrieval runs',
+      multipartBody: OpenApiBuilder.object({
+        file: { type: 'string', format: 'binary' },
+        ...OpenApiBuilder.IMPORT_TARGET_PROPERTIES,
+        tags: { type: 'string', description: 'Comma-separated tags' },
+      }, ['file']),
+      response: OpenApiBuilder.success({
+        method: {
+          type: 'string',
+          enum: ['identifier_translation', 'existing_item', 'retrieve_metadata', 'standalone_attachment'],
+        },
+        translator: { type: 'string' },
+        identifier: OpenApiBuilder.object({ type: { type: 'string' }, value: { type: 'string' } }),
+        identifiers: { type: 'array', items: { type: 'object' } },
+        library: OpenApiBuilder.ref('Library'),
+        item: { allOf: [OpenApiBuilder.ref('Item')], nullable: true },
+        attachment: { type: 'object', nullable: true },
+        attachmentSkipped: { type: 'string' },
+        duplicateInfo: OpenApiBuilder.ref('DuplicateInfo'),
+      }),
+    },
+  },
+}
+
+/**
+ * Endpoint for importing an uploaded PDF into the library
+ *
+ * The PDF is stored as an attachment, and the identifiers found in its text are
+ * translated to create the parent item. An existing item with the same identifier
+ * is reused instead of creating a duplicate. When no identifier leads to an item,
+ * Zotero's "Retrieve Metadata for PDF" is run, and the PDF is kept as a standalone
+ * attachment if that fails too.
+ */
+export class ImportPdfEndpoint extends BaseEndpoint {
+  constructor(serviceManager: ServiceManager) {
+    super(API_ENDPOINTS.IMPORT_PDF, serviceManager, ['POST'])
+    this.rateLimitedMethods = ['POST']
+    this.supportedDataTypes = ['multipart/form-data']
+    this.metadata = METADATA
+  }
+
+  /**
+   * Handle PDF import request
+   * @param requestData - Multipart form data with the PDF file and optional libraryID/groupID,
+   * collection, createCollection and tags (comma-separated) fields
+   * @returns Response with the parent item and attachment
+   */
+  async handleRequest(requestData: any): Promise<[number, string, string]> {
+    let tempFilePath: string | null = null
+
+    try {
+      if (!Array.isArray(requestData.data)) {
+        return this.errorResponse('Invalid request format. Expected multipart/form-data with PDF file.', 400)
+      }
+
+      const pdfField = UploadUtils.findFileField(
+        requestData.data,
+        (filename, contentType) => contentType === 'application/pdf' || filename.toLowerCase().endsWith('.pdf'),
+        'PDF file',
+      )
+      if (!pdfField.valid) {
+        return this.errorResponse(pdfField.error!, 400)
+      }
+
+      const { filename, body } = pdfField.file!
+      const sizeError = UploadUtils.checkUploadSize(body.length)
+      if (sizeError) {
+        return this.errorResponse(sizeError, 413)
+      }
+
+      // Form fields carry the same import target options as the JSON import endpoints
+      const formFields: Record<string, any> = UploadUtils.getFormFields(requestData.data)
+      if (formFields.tags !== undefined) {
+        formFields.tags = formFields.tags.split(',')
+      }
+      const targetResult = await this.resolveImportTarget({ data: formFields, searchParams: requestData.searchParams })
+      if (!targetResult.valid) {
+        return this.errorResponse(targetResult.error!, targetResult.statusCode)
+      }
+
+      const target: ImportTarget = targetResult.target ?? {
+        libraryID: LibraryUtils.getSaveTargetLibraryID(),
+        collectionIDs: [],
+        tags: [],
+      }
+      const library = this.getLibraryInfo(target.libraryID)
+      if (!library?.editable || !library.filesEditable) {
+        return this.errorResponse('Target library is not editable', 403)
+      }
+
+      logger.info(`Importing PDF: ${filename}, size: ${(body.length / 1024).toFixed(2)}KB`)
+
+      // Store the PDF first; identifier extraction and metadata retrieval both read the stored file
+      tempFilePath = await UploadUtils.writeTempFile(body, UploadUtils.sanitizeFilename(filename, '.pdf'), TEMP_FILE_PREFIX)
+      let attachment = await Zotero.Attachments.importFromFile({
+        file: tempFilePath,
+        libraryID: target.libraryID,
+        collections: target.collectionIDs,
+        title: filename,
+        contentType: 'application/pdf',
+      })
+      await UploadUtils.restoreFilename(attachment, filename, TEMP_FILE_PREFIX)
+
+      const identifiers = await this.extractIdentifiers(attachment)
+      const parentResult = await this.findOrCreateParent(identifiers, target)
+
+      let method: string
+      let parentItem: any = parentResult?.item ?? null
+      let duplicateProcessing: any = parentResult?.duplicateProcessing ?? { processed: false }
+      let attachmentSkipped: string | undefined
+
+      if (parentResult) {
+        method = parentResult.existing ? 'existing_item' : 'identifier_translation'
+
+        if (parentResult.existing && this.hasPdfAttachment(parentItem)) {
+          // Keep the library free of duplicate PDFs
+          await attachment.eraseTx()
+          attachment = null
+          attachmentSkipped = 'Existing item already has a PDF attachment'
+        } else {
+          attachment.parentID = parentItem.id
+          attachment.setCollections([])
+          await attachment.saveTx()
+        }
+      } else {
+        parentItem = await this.retrieveMetadata(attachment)
+        method = parentItem ? 'retrieve_metadata' : 'standalone_attachment'
+        if (parentItem) {
+          duplicateProcessing = await this.serviceManager.duplicateDetector.detectDuplicates(parentItem)
+        }
+      }
+
+      // Translated parents are tagged by the translator, and existing items are left as they are
+      const untagged = method === 'retrieve_metadata' ? parentItem : method === 'standalone_attachment' ? attachment : null
+      if (untagged && target.tags.length > 0) {
+        target.tags.forEach(tag => untagged.addTag(tag))
+        await untagged.saveTx()
+      }
+
+      logger.info(`PDF import finished with method ${method}${parentItem ? ` (parent ${parentItem.key})` : ''}`)
+
+      return this.successResponse(
+        {
+          method,
+          ...(parentResult && {
+            translator: parentResult.translator,
+            identifier: { type: parentResult.identifier.type, value: parentResult.identifier.value },
+          }),
+          identifiers,
+          library,
+          item: parentItem ? await this.serviceManager.itemDataService.extractItemData(parentItem) : null,
+          attachment: attachment
+            ? {
+              key: attachment.key,
+              title: attachment.getField('title'),
+              contentType: attachment.attachmentContentType,
+              parentItemKey: parentItem && attachment.parentID ? parentItem.key : null,
+            }
+            : null,
+          ...(attachmentSkipped && { attachmentSkipped }),
+          duplicateInfo: {
+            processed: !!duplicateProcessing.processed,
+            autoMerged: duplicateProcessing.autoMerged || [],
+            possibleDuplicates: duplicateProcessing.possibleDuplicates || [],
+          },
+        },
+        {
+          message: parentItem ? 'PDF imported with parent item' : 'PDF imported as standalone attachment',
+        },
+      )
+    } catch (error) {
+      logger.error(`Error in ImportPdf endpoint: ${error}`)
+      return this.errorResponse(`Internal server error: ${error}`, 500)
+    } finally {
+      if (tempFilePath) {
+        await UploadUtils.removeTempFile(tempFilePath)
+      }
+    }
+  }
+
+  /**
+   * Extract identifiers from the stored PDF, most confident first
+   * @param attachment - PDF attachment item
+   * @returns Identifiers (empty when the PDF has no text or cannot be read)
+   */
+  private async extractIdentifiers(attachment: any): Promise<ExtractedIdentifier[]> {
+    try {
+      const pdfData = await Zotero.PDFWorker.getRecognizerData(attachment.id, true)
+      const identifiers = PdfMetadataExtractor.extractAllIdentifiers(pdfData, DEFAULT_PREFERENCES.maxPdfPagesToAnalyze)
+      return identifiers.sort((a, b) => CONFIDENCE_ORDER[a.confidence] - CONFIDENCE_ORDER[b.confidence])
+    } catch (error) {
+      logger.warn(`Could not extract identifiers from PDF: ${error}`)
+      return []
+    }
+  }
+
+  /**
+   * Find an existing item or translate a new one from the extracted identifiers
+   * @param identifiers - Extracted identifiers, most confident first
+   * @param target - Import target
+   * @returns Parent item with how it was obtained, or null when no identifier worked
+   */
+  private async findOrCreateParent(identifiers: ExtractedIdentifier[], target: ImportTarget): Promise<{
+    item: any
+    existing: boolean
+    identifier: ExtractedIdentifier
+    translator: string
+    duplicateProcessing?: any
+  } | null> {
+    const candidates = identifiers.slice(0, PDF_PROCESSING.MAX_IMPORT_IDENTIFIERS)
+
+    for (const identifier of candidates) {
+      const existingItem = await this.serviceManager.duplicateDetector.findItemByIdentifier(
+        identifier.type,
+        identifier.value,
+        target.libraryID,
+      )
+      if (existingItem) {
+        logger.info(`Found existing item ${existingItem.key} with ${identifier.type}: ${identifier.value}`)
+        return { item: existingItem, existing: true, identifier, translator: `Library lookup (${identifier.type})` }
+      }
+    }
+
+    const identifierTranslator = this.serviceManager.translatorManager.identifierTranslator
+    for (const identifier of candidates) {
+      const query = identifier.type === 'ARXIV' ? `arXiv:${identifier.value}` : identifier.value
+      const result = await identifierTranslator.attemptIdentifierTranslation(query, target)
+
+      if (result.success && result.items.length > 0) {
+        const item = await Zotero.Items.getAsync(result.items[0].itemID)
+        if (item) {
+          return {
+            item,
+            existing: false,
+            identifier,
+            translator: result.translator || 'Unknown',
+            duplicateProcessing: result.duplicateProcessing,
+          }
+        }
+      }
+
+      logger.info(`Translation of ${identifier.type} ${identifier.value} failed: ${result.reason}`)
+    }
+
+    return null
+  }
+
+  /**
+   * Run Zotero's "Retrieve Metadata for PDF" on a standalone attachment
+   * @param attachment - PDF attachment item
+   * @returns Created parent item, or null if no metadata was found
+   */
+  private async retrieveMetadata(attachment: any): Promise<any | null> {
+    try {
+      if (!Zotero.RecognizeDocument.canRecognize(attachment)) {
+        return null
+      }
+
+      await Zotero.RecognizeDocument.recognizeItems([attachment])
+      const refreshed = await Zotero.Items.getAsync(attachment.id)
+      return refreshed?.parentItemID ? Zotero.Items.getAsync(refreshed.parentItemID) : null
+    } catch (error) {
+      logger.warn(`Retrieve metadata failed for ${attachment.key}: ${error}`)
+      return null
+    }
+  }
+
+  /**
+   * Check whether an item already has a PDF attachment
+   * @param item - Regular item
+   * @returns True if a PDF is attached
+   */
+  private hasPdfAttachment(item: any): boolean {
+    return Zotero.Items.get(item.getAttachments())
+      .some((attachment: any) => attachment.attachmentContentType === 'application/pdf')
+  }
+}
@@ -1,8 +1,36 @@
 import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
 import { ServiceManager } from '../../core/ServiceManager'
 import { UrlUtils } from '../../utils/UrlUtils'
 import { API_ENDPOINTS } from '../../config/constants'
 import { apiLogger as logger } from '../../core/Logger'
+import { ApiScope, EndpointMetadata } from '../../core/types'
+
+const METADATA: EndpointMetadata = {
+  tag: 'Items',
+  operations: {
+    POST: {
+      operationId: 'findItemsByUrl',
+      summary: 'Find library items with a URL',
+      requestBody: OpenApiBuilder.object({ url: { type: 'string', format: 'uri' } }, ['url']),
+      response: OpenApiBuilder.success({
+        url: { type: 'string' },
+        normalizedUrl: { type: 'string' },
+        itemCount: { type: 'integer' },
+        items: {
+          type: 'array',
+          items: OpenApiBuilder.object({
+            key: { type: 'string' },
+            title: { type: 'string' },
+            itemType: { type: 'string' },
+            dateAdded: { type: 'string' },
+            url: { type: 'string' },
+          }),
+        },
+      }),
+    },
+  },
+}
 
 /**
  * Endpoint for finding item keys by URL
@@ -10,6 +38,15 @@ import { apiLogger as logger } from '../../core/Logger'
 export class ItemKeyByUrlEndpoint extends BaseEndpoint {
   constructor(serviceManager: ServiceManager) {
     super(API_ENDPOINTS.ITEM_KEY_BY_URL, serviceManager, ['GET', 'POST'])
+    this.metadata = METADATA
+  }
+
+  /**
+   * Lookups only read, for GET and POST alike
+   * @returns Required scopes
+   */
+  protected getRequiredScopes(): ApiScope[] {
+    return ['read']
   }
 
   /**
@@ -0,0 +1,74 @@
+import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
+import { ServiceManager } from '../../core/ServiceManager'
+import { API_ENDPOINTS } from '../../config/constants'
+import { apiLogger as logger } from '../../core/Logger'
+import { ApiScope, EndpointMetadata } from '../../core/types'
+
+const METADATA: EndpointMetadata = {
+  tag: 'Jobs',
+  operations: {
+    GET: {
+      operationId: 'getJob',
+      summary: 'Poll a background job',
+      response: OpenApiBuilder.success({ job: OpenApiBuilder.ref('Job') }),
+    },
+    DELETE: {
+      operationId: 'cancelJob',
+      summary: 'Cancel a background job',
+      response: OpenApiBuilder.success({ job: OpenApiBuilder.ref('Job') }),
+    },
+  },
+}
+
+/**
+ * Endpoint for polling and cancelling a background import job
+ */
+export class JobStatusEndpoint extends BaseEndpoint {
+  constructor(serviceManager: ServiceManager) {
+    super(API_ENDPOINTS.JOB_STATUS, serviceManager, ['GET', 'DELETE'])
+    this.metadata = METADATA
+  }
+
+  /**
+   * Cancelling a job (DELETE) needs write rather than delete, as no library data is removed
+   * @param requestData - Request data
+   * @returns Required scopes
+   */
+  protected getRequiredScopes(requestData: any): ApiScope[] {
+    return requestData.method === 'DELETE' ? ['write'] : ['read']
+  }
+
+  /**
+   * Handle job status request
+   * GET returns the job's status, stage history and, once finished, its result; DELETE cancels it
+   * @param requestData - Request data with the job id as path parameter
+   * @returns Response with job data
+   */
+  async handleRequest(requestData: any): Promise<[number, string, string]> {
+    try {
+      const jobId = requestData.pathParams?.jobID
+
+      if (!jobId || typeof jobId !== 'string') {
+        return this.validationErrorResponse('Job id is required in the path')
+      }
+
+      const job = requestData.method === 'DELETE'
+        ? this.serviceManager.jobQueue.cancel(jobId)
+        : this.serviceManager.jobQueue.getJob(jobId)
+
+      if (!job) {
+        return this.errorResponse(`Job ${jobId} not found`, 404)
+      }
+
+      if (requestData.method === 'DELETE') {
+        logger.info(`Cancel requested for job ${jobId} (status: ${job.status})`)
+      }
+
+      return this.successResponse({ job: this.serviceManager.jobQueue.serializeJob(job) })
+    } catch (error) {
+      logger.error(`Error in JobStatus endpoint: ${error}`)
+      return this.errorResponse(`Internal server error: ${error}`, 500)
+    }
+  }
+}
@@ -0,0 +1,176 @@
+import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
+import { ServiceManager } from '../../core/ServiceManager'
+import { API_ENDPOINTS } from '../../config/constants'
+import { apiLogger as logger } from '../../core/Logger'
+import { ResponseBuilder } from '../../utils/ResponseBuilder'
+import { ApiScope, EndpointMetadata, JobStatus, JobType } from '../../core/types'
+
+const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'completed', 'failed', 'cancelled']
+
+const METADATA: EndpointMetadata = {
+  tag: 'Jobs',
+  operations: {
+    GET: {
+      operationId: 'listJobs',
+      summary: 'List retained background jobs, newest first',
+      parameters: [
+        {
+          name: 'status',
+          in: 'query',
+          schema: { type: 'string', enum: JOB_STATUSES },
+        },
+      ],
+      response: OpenApiBuilder.success({
+        count: { type: 'integer' },
+        jobs: { type: 'array', items: OpenApiBuilder.ref('Job') },
+      }),
+    },
+    POST: {
+      operationId: 'submitJob',
+      summary: 'Queue a URL or identifier import and return at once',
+      requestBody: {
+        oneOf: [
+          OpenApiBuilder.object({
+            url: { type: 'string', format: 'uri' },
+            ai: { type: 'boolean', description: 'Process with /processurlwithai' },
+            ...OpenApiBuilder.IMPORT_TARGET_PROPERTIES,
+            ...OpenApiBuilder.IDEMPOTENCY_PROPERTIES,
+          }, ['url']),
+          OpenApiBuilder.object({
+            identifier: { type: 'string' },
+            ...OpenApiBuilder.IMPORT_TARGET_PROPERTIES,
+            ...OpenApiBuilder.IDEMPOTENCY_PROPERTIES,
+          }, ['identifier']),
+        ],
+      },
+      successStatus: 202,
+      response: OpenApiBuilder.success({
+        job: OpenApiBuilder.ref('Job'),
+        statusUrl: { type: 'string' },
+      }),
+    },
+  },
+}
+
+/**
+ * Endpoint for submitting background import jobs and listing retained jobs
+ */
+export class JobsEndpoint extends BaseEndpoint {
+  constructor(serviceManager: ServiceManager) {
+    super(API_ENDPOINTS.JOBS, serviceManager, ['GET', 'POST'])
+    this.idempotentMethods = ['POST']
+    this.metadata = METADATA
+  }
+
+  /**
+   * Submitting a job needs write, and ai for AI-processed URLs
+   * @param requestData - Request data
+   * @returns Required scopes
+   */
+  protected getRequiredScopes(requestData: any): ApiScope[] {
+    if (requestData.method === 'GET' || !requestData.data) {
+      return ['read']
+    }
+    return this.parseBoolean(requestData.data.ai) ? ['write', 'ai'] : ['write']
+  }
+
+  /**
+   * Submitting a job only counts against the client's rate limit; queued jobs take a
+   * translation slot when they start running
+   * @param requestData - Request data, authorized
+   * @param origin - Origin of the request, if sent by a web page
+   * @returns Always null, as no slot is held for the request
+   */
+  protected applyRateLimits(requestData: any, origin: string | null): (() => void) | null {
+    if (requestData?.method === 'POST' && requestData.data) {
+      this.serviceManager.rateLimiter.consume(this.getClientKey(requestData, origin))
+    }
+    return null
+  }
+
+  /**
+   * Handle jobs request
+   * GET lists jobs (optional status query parameter); POST submits a URL or identifier
+   * @param requestData - Request data
+   * @returns Response with the queued job or the job list
+   */
+  async handleRequest(requestData: any): Promise<[number, string, string]> {
+    try {
+      if (requestData.method === 'GET' || !requestData.data) {
+        return this.listJobs(requestData)
+      }
+
+      return await this.submitJob(requestData)
+    } catch (error) {
+      logger.error(`Error in Jobs endpoint: ${error}`)
+      return this.errorResponse(`Internal server error: ${error}`, 500)
+    }
+  }
+
+  /**
+   * Queue a URL (optionally processed with AI) or an identifier
+   * @param requestData - Request data with url and optional ai flag, or identifier
+   * @returns Accepted response with the job id and status URL
+   */
+  private async submitJob(requestData: any): Promise<[number, string, string]> {
+    const { url, identifier, ai } = requestData.data
+
+    if (url !== undefined && identifier !== undefined) {
+      return this.validationErrorResponse('Provide either url or identifier, not both')
+    }
+
+    let type: JobType
+    if (identifier !== undefined) {
+      const validationResult = this.validateIdentifierRequest(requestData)
+      if (!validationResult.valid) {
+        return this.validationErrorResponse(validationResult.error!)
+      }
+      type = 'identifier'
+    } else {
+      const validationResult = this.validateUrlRequest(requestData)
+      if (!validationResult.valid) {
+        return this.validationErrorResponse(validationResult.error!)
+      }
+      type = this.parseBoolean(ai) ? 'url_ai' : 'url'
+    }
+
+    // Check the requested library and collection now, so a job that cannot be saved is not queued;
+    // collections the job should create are created when it runs
+    const targetResult = await this.resolveImportTarget(requestData, false)
+    if (!targetResult.valid) {
+      return this.errorResponse(targetResult.error!, targetResult.statusCode)
+    }
+
+    if (!targetResult.target && !this.checkLibraryEditable()) {
+      return this.errorResponse('Target library is not editable', 403)
+    }
+
+    const job = this.serviceManager.jobQueue.submit(type, requestData.data)
+
+    return ResponseBuilder.accepted({
+      job: this.serviceManager.jobQueue.serializeJob(job),
+      statusUrl: `${API_ENDPOINTS.JOBS}/${job.id}`,
+    })
+  }
+
+  /**
+   * List retained jobs
+   * @param requestData - Request data with optional status query parameter
+   * @returns Response with jobs, newest first
+   */
+  private listJobs(requestData: any): [number, string, string] {
+    const status = requestData.searchParams?.get('status') || undefined
+
+    if (status && !JOB_STATUSES.includes(status)) {
+      return this.validationErrorResponse(`status must be one of: ${JOB_STATUSES.join(', ')}`)
+    }
+
+    const jobs = this.serviceManager.jobQueue.listJobs(status)
+
+    return this.successResponse({
+      count: jobs.length,
+      jobs: jobs.map(job => this.serviceManager.jobQueue.serializeJob(job)),
+    })
+  }
+}
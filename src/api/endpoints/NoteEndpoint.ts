@@ -0,0 +1,144 @@
+import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
+import { ServiceManager } from '../../core/ServiceManager'
+import { API_ENDPOINTS } from '../../config/constants'
+import { apiLogger as logger } from '../../core/Logger'
+import { EndpointMetadata } from '../../core/types'
+import { RequestValidator } from '../middleware/RequestValidator'
+
+const METADATA: EndpointMetadata = {
+  tag: 'Notes',
+  operations: {
+    GET: {
+      operationId: 'getNote',
+      summary: 'Get a note as Markdown and HTML',
+      parameters: OpenApiBuilder.LIBRARY_PARAMETERS,
+      response: OpenApiBuilder.success({
+        library: OpenApiBuilder.ref('Library'),
+        note: OpenApiBuilder.ref('Note'),
+      }),
+    },
+    PATCH: {
+      operationId: 'updateNote',
+      summary: 'Replace the content and/or tags of a note',
+      requestBody: OpenApiBuilder.object({
+        markdown: { type: 'string' },
+        html: { type: 'string' },
+        tags: { type: 'array', items: { type: 'string' } },
+        ...OpenApiBuilder.LIBRARY_PROPERTIES,
+      }),
+      response: OpenApiBuilder.success({
+        library: OpenApiBuilder.ref('Library'),
+        note: OpenApiBuilder.ref('Note'),
+      }),
+    },
+    DELETE: {
+      operationId: 'deleteNote',
+      summary: 'Delete a note',
+      parameters: OpenApiBuilder.LIBRARY_PARAMETERS,
+      response: OpenApiBuilder.success({
+        deleted: { type: 'boolean' },
+        library: OpenApiBuilder.ref('Library'),
+        note: OpenApiBuilder.ref('Note'),
+      }),
+    },
+  },
+}
+
+/**
+ * Endpoint for reading, updating and deleting a single note
+ */
+export class NoteEndpoint extends BaseEndpoint {
+  constructor(serviceManager: ServiceManager) {
+    super(API_ENDPOINTS.NOTE, serviceManager, ['GET', 'PATCH', 'DELETE'])
+    this.metadata = METADATA
+  }
+
+  /**
+   * Handle note request
+   * GET returns the note as Markdown and HTML; PATCH replaces its content (markdown or html) and/or tags;
+   * DELETE removes it
+   * @param requestData - Request data with the note key as path parameter
+   * @returns Response with note data
+   */
+  async handleRequest(requestData: any): Promise<[number, string, string]> {
+    try {
+      const noteKey = requestData.pathParams?.noteKey
+
+      if (!noteKey || typeof noteKey !== 'string') {
+        return this.validationErrorResponse('Note key is required in the path')
+      }
+
+      const libraryParam = this.getLibraryParam(requestData)
+      if (!libraryParam.valid) {
+        return this.validationErrorResponse(libraryParam.error!)
+      }
+
+      const note = await this.findItem(noteKey, libraryParam.libraryID)
+      if (!note || !note.isNote()) {
+        return this.errorResponse(`Note with key ${noteKey} not found`, 404)
+      }
+
+      const noteService = this.serviceManager.noteService
+
+      if (requestData.method === 'GET') {
+        return this.successResponse({
+          library: this.getLibraryInfo(note.libraryID),
+          note: noteService.serializeNote(note),
+        })
+      }
+
+      if (!this.isLibraryEditable(note.libraryID)) {
+        return this.errorResponse('Target library is not editable', 403)
+      }
+
+      if (requestData.method === 'DELETE') {
+        const deleted = noteService.serializeNote(note)
+        await note.eraseTx()
+        logger.info(`Deleted note ${noteKey}`)
+
+        return this.successResponse(
+          {
+            deleted: true,
+            library: this.getLibraryInfo(note.libraryID),
+            note: deleted,
+          },
+          {
+            message: 'Note deleted successfully',
+          },
+        )
+      }
+
+      const body = requestData.data || {}
+      const contentResult = RequestValidator.validateNoteContent(body, false)
+      if (!contentResult.valid) {
+        return this.validationErrorResponse(contentResult.error!)
+      }
+      if (body.tags !== undefined && !(Array.isArray(body.tags) && body.tags.every((tag: any) => typeof tag === 'string'))) {
+        return this.validationErrorResponse('tags must be an array of strings')
+      }
+      if (!contentResult.content && body.tags === undefined) {
+        return this.validationErrorResponse('At least one of markdown, html or tags must be provided')
+      }
+
+      await noteService.updateNote(
+        note,
+        contentResult.content,
+        body.tags !== undefined ? this.parseTags(body.tags) : undefined,
+      )
+
+      return this.successResponse(
+        {
+          library: this.getLibraryInfo(note.libraryID),
+          note: noteService.serializeNote(note),
+        },
+        {
+          message: 'Note updated successfully',
+        },
+      )
+    } catch (error) {
+      logger.error(`Error in Note endpoint: ${error}`)
+      return this.errorResponse(`Internal server error: ${error}`, 500)
+    }
+  }
+}
@@ -0,0 +1,201 @@
+import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
+import { ServiceManager } from '../../core/ServiceManager'
+import { API_ENDPOINTS } from '../../config/constants'
+import { apiLogger as logger } from '../../core/Logger'
+import { EndpointMetadata, ValidationError } from '../../core/types'
+import { RequestValidator } from '../middleware/RequestValidator'
+
+const METADATA: EndpointMetadata = {
+  tag: 'Notes',
+  operations: {
+    GET: {
+      operationId: 'listNotes',
+      summary: 'List the child notes of an item, or the standalone notes of a collection',
+      parameters: [
+        { name: 'itemKey', in: 'query', schema: { type: 'string' } },
+        { name: 'collection', in: 'query', description: 'Collection key or path', schema: { type: 'string' } },
+        ...OpenApiBuilder.LIBRARY_PARAMETERS,
+      ],
+      response: OpenApiBuilder.success({
+        itemKey: { type: 'string' },
+        collection: { type: 'string' },
+        library: OpenApiBuilder.ref('Library'),
+        count: { type: 'integer' },
+        notes: { type: 'array', items: OpenApiBuilder.ref('Note') },
+      }),
+    },
+    POST: {
+      operationId: 'createNote',
+      summary: 'Create a child or standalone note from Markdown or HTML',
+      requestBody: OpenApiBuilder.object({
+        markdown: { type: 'string' },
+        html: { type: 'string' },
+        parentItemKey: { type: 'string' },
+        collection: { type: 'string', description: 'Collection key or path, for standalone notes' },
+        createCollection: { type: 'boolean' },
+        tags: { type: 'array', items: { type: 'string' } },
+        ...OpenApiBuilder.LIBRARY_PROPERTIES,
+      }),
+      response: OpenApiBuilder.success({
+        library: OpenApiBuilder.ref('Library'),
+        note: OpenApiBuilder.ref('Note'),
+      }),
+    },
+  },
+}
+
+/**
+ * Endpoint for listing and creating notes
+ * Content is accepted as Markdown (converted to Zotero's HTML note format) or HTML,
+ * and notes are returned with both representations
+ */
+export class NotesEndpoint extends BaseEndpoint {
+  constructor(serviceManager: ServiceManager) {
+    super(API_ENDPOINTS.NOTES, serviceManager, ['GET', 'POST'])
+    this.metadata = METADATA
+  }
+
+  /**
+   * Handle notes request
+   * GET lists the child notes of itemKey, or the standalone notes in collection;
+   * POST creates a child note (parentItemKey) or a standalone note (optionally in a collection)
+   * @param requestData - Request data
+   * @returns Response with notes or the created note
+   */
+  async handleRequest(requestData: any): Promise<[number, string, string]> {
+    try {
+      const libraryParam = this.getLibraryParam(requestData)
+      if (!libraryParam.valid) {
+        return this.validationErrorResponse(libraryParam.error!)
+      }
+
+      if (requestData.method === 'POST') {
+        return await this.createNote(requestData, libraryParam.libraryID)
+      }
+
+      const itemKey = requestData.searchParams?.get('itemKey')
+      const collectionParam = requestData.searchParams?.get('collection')
+      const noteService = this.serviceManager.noteService
+
+      if (!itemKey === !collectionParam) {
+        return this.validationErrorResponse('Provide either itemKey or collection')
+      }
+
+      if (itemKey) {
+        const item = await this.findItem(itemKey, libraryParam.libraryID)
+        if (!item) {
+          return this.errorResponse(`Item with key ${itemKey} not found`, 404)
+        }
+        if (!item.isRegularItem()) {
+          return this.validationErrorResponse('itemKey must refer to a regular item')
+        }
+
+        const notes = await noteService.getChildNotes(item)
+        return this.successResponse({
+          itemKey: item.key,
+          library: this.getLibraryInfo(item.libraryID),
+          count: notes.length,
+          notes: notes.map(note => noteService.serializeNote(note)),
+        })
+      }
+
+      const libraryID = libraryParam.libraryID ?? Zotero.Libraries.userLibraryID
+      const collection = await this.serviceManager.collectionService.resolveCollection(libraryID, collectionParam)
+      if (!collection) {
+        return this.errorResponse(`Collection "${collectionParam}" not found in library ${libraryID}`, 404)
+      }
+
+      const notes = noteService.getCollectionNotes(collection)
+      return this.successResponse({
+        collection: collection.key,
+        library: this.getLibraryInfo(libraryID),
+        count: notes.length,
+        notes: notes.map(note => noteService.serializeNote(note)),
+      })
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return this.errorResponse(error)
+      }
+      logger.error(`Error in Notes endpoint: ${error}`)
+      return this.errorResponse(`Internal server error: ${error}`, 500)
+    }
+  }
+
+  /**
+   * Create a child or standalone note
+   * @param requestData - Request data with markdown or html, and parentItemKey or collection
+   * @param requestedLibraryID - Library from libraryID/groupID, if given
+   * @returns Response with the created note
+   */
+  private async createNote(requestData: any, requestedLibraryID?: number): Promise<[number, string, string]> {
+    const validationResult = this.validateRequest(requestData)
+    if (!validationResult.valid) {
+      return this.validationErrorResponse(validationResult.error!)
+    }
+
+    const { parentItemKey, collection, createCollection, tags } = requestData.data
+    const contentResult = RequestValidator.validateNoteContent(requestData.data, true)
+    if (!contentResult.valid) {
+      return this.validationErrorResponse(contentResult.error!)
+    }
+
+    if (parentItemKey !== undefined && typeof parentItemKey !== 'string') {
+      return this.validationErrorResponse('parentItemKey must be a string')
+    }
+    if (collection !== undefined && (typeof collection !== 'string' || parentItemKey !== undefined)) {
+      return this.validationErrorResponse('collection must be a collection key or path and only applies to standalone notes')
+    }
+    if (tags !== undefined && typeof tags !== 'string'
+      && !(Array.isArray(tags) && tags.every(tag => typeof tag === 'string'))) {
+      return this.validationErrorResponse('tags must be a string or an array of strings')
+    }
+
+    let parentItem: any = null
+    if (parentItemKey) {
+      parentItem = await this.findItem(parentItemKey, requestedLibraryID)
+      if (!parentItem) {
+        return this.errorResponse(`Item with key ${parentItemKey} not found`, 404)
+      }
+      if (!parentItem.isRegularItem()) {
+        return this.validationErrorResponse('Notes can only be added to regular items')
+      }
+    }
+
+    const libraryID = parentItem?.libraryID ?? requestedLibraryID ?? Zotero.Libraries.userLibraryID
+    if (!this.isLibraryEditable(libraryID)) {
+      return this.errorResponse('Target library is not editable', 403)
+    }
+
+    const collectionIDs: number[] = []
+    if (collection) {
+      const target = await this.serviceManager.collectionService.resolveCollection(
+        libraryID,
+        collection,
+        this.parseBoolean(createCollection),
+      )
+      if (!target) {
+        return this.errorResponse(`Collection "${collection}" not found in library ${libraryID}`, 404)
+      }
+      collectionIDs.push(target.id)
+    }
+
+    const note = await this.serviceManager.noteService.createNote({
+      libraryID,
+      content: contentResult.content!,
+      parentItem,
+      collectionIDs,
+      tags: this.parseTags(tags),
+    })
+
+    return this.successResponse(
+      {
+        library: this.getLibraryInfo(libraryID),
+        note: this.serviceManager.noteService.serializeNote(note),
+      },
+      {
+        message: parentItem ? 'Child note created successfully' : 'Standalone note created successfully',
+      },
+    )
+  }
+}
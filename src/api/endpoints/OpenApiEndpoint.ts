@@ -0,0 +1,54 @@
+import { BaseEndpoint } from '../BaseEndpoint'
+import { ServiceManager } from '../../core/ServiceManager'
+import { API_BASE_PATH, API_ENDPOINTS } from '../../config/constants'
+import { apiLogger as logger } from '../../core/Logger'
+import { ApiScope, EndpointMetadata } from '../../core/types'
+import { OpenApiBuilder } from '../OpenApiBuilder'
+import { ResponseBuilder } from '../../utils/ResponseBuilder'
+
+const METADATA: EndpointMetadata = {
+  tag: 'Documentation',
+  operations: {
+    GET: {
+      operationId: 'getOpenApi',
+      summary: 'Get this OpenAPI description',
+      response: { type: 'object' },
+    },
+  },
+}
+
+/**
+ * Endpoint serving the OpenAPI 3 description of the API
+ * The document is generated from the metadata of the registered endpoints, so it follows them
+ */
+export class OpenApiEndpoint extends BaseEndpoint {
+  constructor(serviceManager: ServiceManager) {
+    super(API_ENDPOINTS.OPENAPI, serviceManager, ['GET'])
+    this.metadata = METADATA
+  }
+
+  /**
+   * The API description is public, also when API tokens are configured
+   * @returns Required scopes
+   */
+  protected getRequiredScopes(): ApiScope[] {
+    return []
+  }
+
+  /**
+   * Handle OpenAPI request
+   * @returns OpenAPI document as JSON
+   */
+  async handleRequest(): Promise<[number, string, string]> {
+    try {
+      const apiServer = this.serviceManager.apiServer
+      const serverUrl = `http://localhost:${apiServer.getServerPort()}${API_BASE_PATH}`
+      const document = OpenApiBuilder.build(apiServer.getEndpoints(), serverUrl)
+
+      return ResponseBuilder.raw(JSON.stringify(document, null, 2), 'application/json')
+    } catch (error) {
+      logger.error(`Error in OpenApi endpoint: ${error}`)
+      return this.errorResponse(`Internal server error: ${error}`, 500)
+    }
+  }
+}
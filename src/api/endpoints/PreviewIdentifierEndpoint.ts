@@ -1,8 +1,28 @@
 import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
 import { ServiceManager } from '../../core/ServiceManager'
 import { WebTranslator } from '../../translators/WebTranslator'
 import { API_ENDPOINTS } from '../../config/constants'
 import { apiLogger as logger } from '../../core/Logger'
+import { ApiScope, EndpointMetadata } from '../../core/types'
+
+const METADATA: EndpointMetadata = {
+  tag: 'Preview',
+  operations: {
+    POST: {
+      operationId: 'previewIdentifier',
+      summary: 'Translate an identifier without saving the item',
+      requestBody: OpenApiBuilder.object({ identifier: { type: 'string' } }, ['identifier']),
+      response: OpenApiBuilder.success({
+        mode: { type: 'string', enum: ['preview'] },
+        method: { type: 'string' },
+        translator: { type: 'string' },
+        itemCount: { type: 'integer' },
+        items: { type: 'array', items: { type: 'object' } },
+      }),
+    },
+  },
+}
 
 /**
  * Endpoint for previewing identifier translations without saving to library
@@ -15,7 +35,17 @@ export class PreviewIdentifierEndpoint extends BaseEndpoint {
 
   constructor(serviceManager: ServiceManager) {
     super(API_ENDPOINTS.PREVIEW_IDENTIFIER, serviceManager, ['POST'])
-    this.webTranslator = new WebTranslator()
+    this.rateLimitedMethods = ['POST']
+    this.metadata = METADATA
+    this.webTranslator = new WebTranslator(serviceManager.eventService, serviceManager.rateLimiter)
+  }
+
+  /**
+   * Previews only read, although they are sent as POST
+   * @returns Required scopes
+   */
+  protected getRequiredScopes(): ApiScope[] {
+    return ['read']
   }
 
   /**
@@ -1,23 +1,30 @@
 import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
 import { ServiceManager } from '../../core/ServiceManager'
 import { API_ENDPOINTS, DEFAULT_PREFERENCES } from '../../config/constants'
 import { apiLogger as logger } from '../../core/Logger'
+import { ApiScope, EndpointMetadata } from '../../core/types'
 import { PdfMetadataExtractor } from '../../utils/PdfMetadataExtractor'
+import { MultipartField, UploadUtils } from '../../utils/UploadUtils'
 
 declare const Zotero: any
 declare const IOUtils: any
-declare const PathUtils: any
 
-/**
- * Interface for multipart form field
- */
-interface MultipartField {
-  params: {
-    name?: string
-    filename?: string
-    contentType?: string
-  }
-  body: string
+const METADATA: EndpointMetadata = {
+  tag: 'Preview',
+  operations: {
+    POST: {
+      operationId: 'previewPdf',
+      summary: 'Extract metadata and identifiers from an uploaded PDF without saving it',
+      multipartBody: OpenApiBuilder.object({ file: { type: 'string', format: 'binary' } }, ['file']),
+      response: OpenApiBuilder.success({
+        fileInfo: OpenApiBuilder.object({ filename: { type: 'string' }, size: { type: 'integer' } }),
+        extraction: { type: 'object' },
+        identifiers: { type: 'array', items: { type: 'object' } },
+        rawData: { type: 'object' },
+      }),
+    },
+  },
 }
 
 /**
@@ -33,6 +40,15 @@ export class PreviewPdfEndpoint extends BaseEndpoint {
     super(API_ENDPOINTS.PREVIEW_PDF, serviceManager, ['POST'])
     // Override supportedDataTypes to accept multipart/form-data
     this.supportedDataTypes = ['multipart/form-data']
+    this.metadata = METADATA
+  }
+
+  /**
+   * Previews only read, although they are sent as POST
+   * @returns Required scopes
+   */
+  protected getRequiredScopes(): ApiScope[] {
+    return ['read']
   }
 
   /**
@@ -107,7 +123,7 @@ export class PreviewPdfEndpoint extends BaseEndpoint {
       }
 
       // Create temporary file
-      tempFilePath = await this.createTempFile(body!, filename!)
+      tempFilePath = await UploadUtils.writeTempFile(body!, filename!, 'preview')
       logger.info(`Created temporary file: ${tempFilePath}`)
 
       // Create temporary attachment item
@@ -189,102 +205,22 @@ export class PreviewPdfEndpoint extends BaseEndpoint {
     contentType?: string
   } {
     // Find the first field that looks like a PDF
-    for (const field of fields) {
-      const params = field.params || {}
-      const filename = params.filename || ''
-      const contentType = params.contentType || ''
-
-      // Check if this is a PDF file
-      if (
-        contentType === 'application/pdf' ||
-        filename.toLowerCase().endsWith('.pdf')
-      ) {
-        if (!field.body || field.body.length === 0) {
-          return {
-            valid: false,
-            error: 'PDF file is empty',
-          }
-        }
+    const fileField = UploadUtils.findFileField(
+      fields,
+      (filename, contentType) => contentType === 'application/pdf' || filename.toLowerCase().endsWith('.pdf'),
+      'PDF file',
+    )
 
-        return {
-          valid: true,
-          filename: this.sanitizeFilename(filename),
-          body: field.body,
-          contentType: contentType || 'application/pdf',
-        }
-      }
+    if (!fileField.valid) {
+      return { valid: false, error: fileField.error }
     }
 
+    const { filename, body, contentType } = fileField.file!
     return {
-      valid: false,
-      error: 'No PDF file found in request. Please upload a PDF file.',
-    }
-  }
-
-  /**
-   * Sanitize filename to prevent path traversal and invalid characters
-   * @param filename - Original filename
-   * @returns Sanitized filename
-   */
-  private sanitizeFilename(filename: string): string {
-    // Remove path components
-    let sanitized = filename.replace(/^.*[\\/]/, '')
-
-    // Remove invalid characters
-    sanitized = sanitized.replace(/[^a-zA-Z0-9._-]/g, '_')
-
-    // Ensure it has .pdf extension
-    if (!sanitized.toLowerCase().endsWith('.pdf')) {
-      sanitized += '.pdf'
-    }
-
-    // Default name if empty
-    if (!sanitized || sanitized === '.pdf') {
-      sanitized = 'upload.pdf'
-    }
-
-    return sanitized
-  }
-
-  /**
-   * Create temporary file from uploaded data
-   * @param data - File data
-   * @param filename - Original filename
-   * @returns Path to temporary file
-   */
-  private async createTempFile(data: string, filename: string): Promise<string> {
-    try {
-      // Get Zotero's temp directory
-      const tempDir = Zotero.getTempDirectory().path
-
-      // Generate unique filename with timestamp
-      const timestamp = Date.now()
-      const sanitized = this.sanitizeFilename(filename)
-      const tempFilename = `preview-${timestamp}-${sanitized}`
-      const tempPath = PathUtils.join(tempDir, tempFilename)
-
-      // Write file atomically
-      // Convert string to Uint8Array if needed
-      let fileData: Uint8Array
-      if (typeof data === 'string') {
-        // If data is a string, convert to bytes (assuming Latin-1 encoding for binary data)
-        const bytes = new Uint8Array(data.length)
-        for (let i = 0; i < data.length; i++) {
-          bytes[i] = data.charCodeAt(i) & 0xff
-        }
-        fileData = bytes
-      } else {
-        fileData = new Uint8Array(data)
-      }
-
-      // Use IOUtils.write for modern Zotero/Firefox
-      await IOUtils.write(tempPath, fileData, { tmpPath: tempPath + '.tmp' })
-
-      logger.info(`Temporary file created: ${tempPath} (${fileData.length} bytes)`)
-      return tempPath
-    } catch (error) {
-      logger.error(`Failed to create temporary file: ${error}`)
-      throw new Error(`Failed to create temporary file: ${error.message}`)
+      valid: true,
+      filename: UploadUtils.sanitizeFilename(filename, '.pdf'),
+      body,
+      contentType: contentType === 'application/octet-stream' ? 'application/pdf' : contentType,
     }
   }
 
@@ -1,11 +1,36 @@
 import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
 import { ServiceManager } from '../../core/ServiceManager'
 import { WebTranslator } from '../../translators/WebTranslator'
 import { PdfProcessor } from '../../services/PdfProcessor'
 import { API_ENDPOINTS } from '../../config/constants'
 import { apiLogger as logger } from '../../core/Logger'
+import { ApiScope, EndpointMetadata } from '../../core/types'
 import { UrlUtils } from '../../utils/UrlUtils'
 
+const METADATA: EndpointMetadata = {
+  tag: 'Preview',
+  operations: {
+    POST: {
+      operationId: 'previewUrl',
+      summary: 'Translate a URL without saving the items',
+      requestBody: OpenApiBuilder.object({ url: { type: 'string', format: 'uri' } }, ['url']),
+      response: OpenApiBuilder.success({
+        mode: { type: 'string', enum: ['preview'] },
+        method: { type: 'string' },
+        translator: { type: 'string' },
+        itemCount: { type: 'integer' },
+        url: OpenApiBuilder.object({
+          original: { type: 'string' },
+          normalized: { type: 'string' },
+          isPdf: { type: 'boolean' },
+        }),
+        items: { type: 'array', items: { type: 'object' } },
+      }),
+    },
+  },
+}
+
 /**
  * Endpoint for previewing URL translations without saving to library
  *
@@ -18,10 +43,20 @@ export class PreviewUrlEndpoint extends BaseEndpoint {
 
   constructor(serviceManager: ServiceManager) {
     super(API_ENDPOINTS.PREVIEW_URL, serviceManager, ['POST'])
-    this.webTranslator = new WebTranslator()
+    this.rateLimitedMethods = ['POST']
+    this.metadata = METADATA
+    this.webTranslator = new WebTranslator(serviceManager.eventService, serviceManager.rateLimiter)
     this.pdfProcessor = new PdfProcessor()
   }
 
+  /**
+   * Previews only read, although they are sent as POST
+   * @returns Required scopes
+   */
+  protected getRequiredScopes(): ApiScope[] {
+    return ['read']
+  }
+
   /**
    * Initialize the endpoint and its dependencies
    */
@@ -1,8 +1,27 @@
 import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
 import { ServiceManager } from '../../core/ServiceManager'
 import { WebTranslator } from '../../translators/WebTranslator'
 import { API_ENDPOINTS } from '../../config/constants'
 import { apiLogger as logger } from '../../core/Logger'
+import { EndpointMetadata } from '../../core/types'
+
+const METADATA: EndpointMetadata = {
+  tag: 'Import',
+  operations: {
+    POST: {
+      operationId: 'processIdentifier',
+      summary: 'Import an item from a DOI, ISBN, PMID or arXiv ID',
+      requestBody: OpenApiBuilder.object({
+        identifier: { type: 'string' },
+        ...OpenApiBuilder.IMPORT_TARGET_PROPERTIES,
+        ...OpenApiBuilder.IDEMPOTENCY_PROPERTIES,
+        ...OpenApiBuilder.DRY_RUN_PROPERTIES,
+      }, ['identifier']),
+      response: OpenApiBuilder.ref('TranslationResult'),
+    },
+  },
+}
 
 /**
  * Endpoint for processing identifiers (DOI, PMID, ArXiv, etc.) and translating them to Zotero items
@@ -12,7 +31,10 @@ export class ProcessIdentifierEndpoint extends BaseEndpoint {
 
   constructor(serviceManager: ServiceManager) {
     super(API_ENDPOINTS.PROCESS_IDENTIFIER, serviceManager, ['POST'])
-    this.webTranslator = new WebTranslator()
+    this.rateLimitedMethods = ['POST']
+    this.idempotentMethods = ['POST']
+    this.metadata = METADATA
+    this.webTranslator = new WebTranslator(serviceManager.eventService, serviceManager.rateLimiter)
   }
 
   /**
@@ -43,14 +65,23 @@ export class ProcessIdentifierEndpoint extends BaseEndpoint {
       }
 
       const { identifier } = validationResult
-      logger.info(`Processing identifier: ${identifier}`)
+      const dryRun = this.isDryRun(requestData)
+      logger.info(`Processing identifier${dryRun ? ' (dry run)' : ''}: ${identifier}`)
+
+      // Resolve the requested library, collection and tags (defaults to Zotero's save target)
+      const targetResult = await this.resolveImportTarget(requestData)
+      if (!targetResult.valid) {
+        return this.errorResponse(targetResult.error!, targetResult.statusCode)
+      }
+      const { target, collectionToCreate } = targetResult
 
       // Check if library is editable
-      if (!this.checkLibraryEditable()) {
+      if (!target && !this.checkLibraryEditable()) {
         return this.errorResponse('Target library is not editable', 500)
       }
 
       // First, extract the identifier to determine its type
+      this.reportStage(requestData, 'deduplicating')
       const extractedIdentifiers = Zotero.Utilities.extractIdentifiers(identifier!.trim())
       if (extractedIdentifiers.length > 0) {
         const extractedId = extractedIdentifiers[0] as any
@@ -76,20 +107,23 @@ export class ProcessIdentifierEndpoint extends BaseEndpoint {
           const existingItem = await this.serviceManager.duplicateDetector.findItemByIdentifier(
             identifierType,
             identifierValue,
+            target?.libraryID,
           )
 
           if (existingItem) {
             logger.info(`Found existing item with ${identifierType}: ${identifierValue}`)
 
             // Return the existing item using the standard translation success response
-            return this.translationSuccessResponse(
-              [existingItem],
+            // (a dry run reports that nothing would be created)
+            return this.importResponse(
+              { validItems: dryRun ? [] : [existingItem], invalidItems: [] },
               'existing_item',
               `Library lookup (${identifierType})`,
               {
                 processed: true,
                 duplicateCount: 0,
                 existingItem: true,
+                existingItemKey: existingItem.key,
                 message: `Item already exists in library with ${identifierType}: ${identifierValue}`,
                 identifierInfo: {
                   identifier: identifier,
@@ -97,25 +131,31 @@ export class ProcessIdentifierEndpoint extends BaseEndpoint {
                   identifierValue: identifierValue,
                 },
               },
+              dryRun,
             )
           }
         }
       }
 
       // No existing item found, attempt to translate the identifier
-      const translationResult = await this.webTranslator.attemptIdentifierTranslation(identifier!)
+      this.reportStage(requestData, 'translating')
+      const translationResult = await this.webTranslator.attemptIdentifierTranslation(identifier!, target, dryRun)
 
       if (translationResult.success) {
         // Process items through validation and duplicate detection
-        const processedItems = await this.processTranslatedItems(translationResult.items)
+        // Translation already saved the items, so a cancellation can no longer stop the import
+        this.reportStage(requestData, 'validating', false)
+        const processedItems = await this.processTranslatedItems(translationResult.items, dryRun)
 
         logger.info(`Identifier translation successful - processed ${processedItems.validItems.length} items`)
 
-        return this.translationSuccessResponse(
-          processedItems.validItems,
+        return this.importResponse(
+          processedItems,
           'identifier_translation',
           translationResult.translator || 'Unknown',
           processedItems.duplicateProcessing,
+          dryRun,
+          collectionToCreate,
         )
       } else {
         // Translation failed
@@ -131,9 +171,10 @@ export class ProcessIdentifierEndpoint extends BaseEndpoint {
   /**
    * Process translated items through validation and duplicate detection
    * @param items - Raw translated items
+   * @param dryRun - Items are unsaved, so invalid ones are only reported
    * @returns Processed items with validation and duplicate results
    */
-  private async processTranslatedItems(items: any[]): Promise<{
+  private async processTranslatedItems(items: any[], dryRun = false): Promise<{
     validItems: any[]
     invalidItems: any[]
     duplicateProcessing: any
@@ -150,6 +191,8 @@ export class ProcessIdentifierEndpoint extends BaseEndpoint {
           validItems.push(validatedItem)
         } else {
           invalidItems.push(item)
+          if (dryRun) continue
+
           // Delete invalid items
           try {
             await this.serviceManager.itemValidator.deleteItemByKey(item.key)
@@ -1,11 +1,31 @@
 import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
 import { ServiceManager } from '../../core/ServiceManager'
 import { WebTranslator } from '../../translators/WebTranslator'
 import { API_ENDPOINTS } from '../../config/constants'
 import { apiLogger as logger } from '../../core/Logger'
+import { EndpointMetadata } from '../../core/types'
 import { UrlUtils } from '../../utils/UrlUtils'
 import { PdfProcessor } from '../../services/PdfProcessor'
 
+const METADATA: EndpointMetadata = {
+  tag: 'Import',
+  operations: {
+    POST: {
+      operationId: 'processUrl',
+      summary: 'Import a webpage or article URL into the library',
+      description: 'Tries identifiers found in the URL, web translators and PDF processing; existing items are returned instead of duplicates',
+      requestBody: OpenApiBuilder.object({
+        url: { type: 'string', format: 'uri' },
+        ...OpenApiBuilder.IMPORT_TARGET_PROPERTIES,
+        ...OpenApiBuilder.IDEMPOTENCY_PROPERTIES,
+        ...OpenApiBuilder.DRY_RUN_PROPERTIES,
+      }, ['url']),
+      response: OpenApiBuilder.ref('TranslationResult'),
+    },
+  },
+}
+
 /**
  * Endpoint for processing URLs and translating them to Zotero items
  */
@@ -15,7 +35,10 @@ export class ProcessUrlEndpoint extends BaseEndpoint {
 
   constructor(serviceManager: ServiceManager) {
     super(API_ENDPOINTS.PROCESS_URL, serviceManager, ['POST'])
-    this.webTranslator = new WebTranslator()
+    this.rateLimitedMethods = ['POST']
+    this.idempotentMethods = ['POST']
+    this.metadata = METADATA
+    this.webTranslator = new WebTranslator(serviceManager.eventService, serviceManager.rateLimiter)
     this.pdfProcessor = new PdfProcessor()
   }
 
@@ -49,56 +72,73 @@ export class ProcessUrlEndpoint extends BaseEndpoint {
       }
 
       const { url } = validationResult
-      logger.info(`Processing URL: ${url}`)
+      const dryRun = this.isDryRun(requestData)
+      logger.info(`Processing URL${dryRun ? ' (dry run)' : ''}: ${url}`)
+
+      // Resolve the requested library, collection and tags (defaults to Zotero's save target)
+      const targetResult = await this.resolveImportTarget(requestData)
+      if (!targetResult.valid) {
+        return this.errorResponse(targetResult.error!, targetResult.statusCode)
+      }
+      const { target, collectionToCreate } = targetResult
 
       // Check if library is editable
-      if (!this.checkLibraryEditable()) {
+      if (!target && !this.checkLibraryEditable()) {
         return this.errorResponse('Target library is not editable', 500)
       }
 
       // First, check if an item with this URL already exists in the library
+      this.reportStage(requestData, 'deduplicating')
       logger.info(`Checking for existing item with URL: ${url}`)
-      const existingItem = await this.serviceManager.duplicateDetector.findItemByUrl(url!)
+      const existingItem = await this.serviceManager.duplicateDetector.findItemByUrl(url!, target?.libraryID)
 
       if (existingItem) {
         logger.info(`Found existing item with URL: ${url}`)
 
         // Return the existing item using the standard translation success response
-        return this.translationSuccessResponse(
-          [existingItem],
+        // (a dry run reports that nothing would be created)
+        return this.importResponse(
+          { validItems: dryRun ? [] : [existingItem], invalidItems: [] },
           'existing_item',
           'Library lookup (URL)',
           {
             processed: true,
             duplicateCount: 0,
             existingItem: true,
+            existingItemKey: existingItem.key,
             message: `Item already exists in library with URL: ${url}`,
             urlInfo: {
               url: url,
               normalizedUrl: UrlUtils.normalizeUrl(url!),
             },
           },
+          dryRun,
         )
       }
 
       // Check if URL is a PDF
       if (UrlUtils.isPdfUrl(url!)) {
         logger.info(`Detected PDF URL, attempting PDF processing: ${url}`)
+        this.reportStage(requestData, 'fetching')
 
         // Process PDF to extract identifiers and metadata
         const pdfResult = await this.pdfProcessor.processPdfFromUrl(url!)
 
         if (pdfResult.success && pdfResult.identifiers) {
+          this.reportStage(requestData, 'translating')
+
           // Try to translate using extracted identifiers
           if (pdfResult.identifiers.doi) {
             logger.info(`Found DOI in PDF: ${pdfResult.identifiers.doi}`)
-            const doiTranslationResult = await this.webTranslator.attemptIdentifierTranslation(pdfResult.identifiers.doi)
+            const doiTranslationResult = await this.webTranslator.attemptIdentifierTranslation(pdfResult.identifiers.doi, target, dryRun)
 
             if (doiTranslationResult.success) {
-              const processedItems = await this.processTranslatedItems(doiTranslationResult.items)
+              // Translation already saved the items, so a cancellation can no longer stop the import
+              this.reportStage(requestData, 'validating', false)
+              const processedItems = await this.processTranslatedItems(doiTranslationResult.items, dryRun)
 
-              return this.translationSuccessResponse(
-                processedItems.validItems,
+              return this.importResponse(
+                processedItems,
                 'pdf_doi_translation',
                 doiTranslationResult.translator || 'DOI',
                 {
@@ -107,6 +147,8 @@ export class ProcessUrlEndpoint extends BaseEndpoint {
                   extractedIdentifier: pdfResult.identifiers.doi,
                   pdfMetadata: pdfResult.metadata,
                 },
+                dryRun,
+                collectionToCreate,
               )
             }
           }
@@ -114,13 +156,15 @@ export class ProcessUrlEndpoint extends BaseEndpoint {
           // Try other identifiers if DOI failed
           if (pdfResult.identifiers.arxiv) {
             logger.info(`Found arXiv ID in PDF: ${pdfResult.identifiers.arxiv}`)
-            const arxivTranslationResult = await this.webTranslator.attemptIdentifierTranslation(`arXiv:${pdfResult.identifiers.arxiv}`)
+            const arxivTranslationResult = await this.webTranslator.attemptIdentifierTranslation(`arXiv:${pdfResult.identifiers.arxiv}`, target, dryRun)
 
             if (arxivTranslationResult.success) {
-              const processedItems = await this.processTranslatedItems(arxivTranslationResult.items)
+              // Translation already saved the items, so a cancellation can no longer stop the import
+              this.reportStage(requestData, 'validating', false)
+              const processedItems = await this.processTranslatedItems(arxivTranslationResult.items, dryRun)
 
-              return this.translationSuccessResponse(
-                processedItems.validItems,
+              return this.importResponse(
+                processedItems,
                 'pdf_arxiv_translation',
                 arxivTranslationResult.translator || 'arXiv',
                 {
@@ -129,6 +173,8 @@ export class ProcessUrlEndpoint extends BaseEndpoint {
                   extractedIdentifier: pdfResult.identifiers.arxiv,
                   pdfMetadata: pdfResult.metadata,
                 },
+                dryRun,
+                collectionToCreate,
               )
             }
           }
@@ -147,19 +193,24 @@ export class ProcessUrlEndpoint extends BaseEndpoint {
       }
 
       // No existing item found, attempt regular web translation
-      const translationResult = await this.webTranslator.attemptWebTranslation(url!)
+      this.reportStage(requestData, 'translating')
+      const translationResult = await this.webTranslator.attemptWebTranslation(url!, target, dryRun)
 
       if (translationResult.success) {
         // Process items through validation and duplicate detection
-        const processedItems = await this.processTranslatedItems(translationResult.items)
+        // Translation already saved the items, so a cancellation can no longer stop the import
+        this.reportStage(requestData, 'validating', false)
+        const processedItems = await this.processTranslatedItems(translationResult.items, dryRun)
 
         logger.info(`Translation successful - processed ${processedItems.validItems.length} items`)
 
-        return this.translationSuccessResponse(
-          processedItems.validItems,
+        return this.importResponse(
+          processedItems,
           'web_translation',
           translationResult.translator || 'Unknown',
           processedItems.duplicateProcessing,
+          dryRun,
+          collectionToCreate,
         )
       } else {
         // Translation failed
@@ -175,9 +226,10 @@ export class ProcessUrlEndpoint extends BaseEndpoint {
   /**
    * Process translated items through validation and duplicate detection
    * @param items - Raw translated items
+   * @param dryRun - Items are unsaved, so invalid ones are only reported
    * @returns Processed items with validation and duplicate results
    */
-  private async processTranslatedItems(items: any[]): Promise<{
+  private async processTranslatedItems(items: any[], dryRun = false): Promise<{
     validItems: any[]
     invalidItems: any[]
     duplicateProcessing: any
@@ -194,6 +246,8 @@ export class ProcessUrlEndpoint extends BaseEndpoint {
           validItems.push(validatedItem)
         } else {
           invalidItems.push(item)
+          if (dryRun) continue
+
           // Delete invalid items
           try {
             await this.serviceManager.itemValidator.deleteItemByKey(item.key)
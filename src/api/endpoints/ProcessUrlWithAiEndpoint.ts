@@ -1,16 +1,44 @@
 import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
 import { ServiceManager } from '../../core/ServiceManager'
 import { API_ENDPOINTS } from '../../config/constants'
 import { apiLogger as logger } from '../../core/Logger'
+import { ApiScope, EndpointMetadata } from '../../core/types'
 import { UrlUtils } from '../../utils/UrlUtils'
 import { IdentifierExtractor } from '../../utils/IdentifierExtractor'
 
+const METADATA: EndpointMetadata = {
+  tag: 'Import',
+  operations: {
+    POST: {
+      operationId: 'processUrlWithAi',
+      summary: 'Import a URL using the AI provider to extract citation data',
+      requestBody: OpenApiBuilder.object({
+        url: { type: 'string', format: 'uri' },
+        ...OpenApiBuilder.IDEMPOTENCY_PROPERTIES,
+      }, ['url']),
+      response: OpenApiBuilder.ref('TranslationResult'),
+    },
+  },
+}
+
 /**
  * Endpoint for processing URLs using AI to extract citation data and create Zotero items
  */
 export class ProcessUrlWithAiEndpoint extends BaseEndpoint {
   constructor(serviceManager: ServiceManager) {
     super(API_ENDPOINTS.PROCESS_URL_WITH_AI, serviceManager, ['POST'])
+    this.rateLimitedMethods = ['POST']
+    this.idempotentMethods = ['POST']
+    this.metadata = METADATA
+  }
+
+  /**
+   * AI processing saves items and calls the AI provider
+   * @returns Required scopes
+   */
+  protected getRequiredScopes(): ApiScope[] {
+    return ['write', 'ai']
   }
 
   /**
@@ -54,6 +82,7 @@ export class ProcessUrlWithAiEndpoint extends BaseEndpoint {
       }
 
       // First, check if an item with this URL already exists in the library
+      this.reportStage(requestData, 'deduplicating')
       logger.info(`Checking for existing item with URL: ${url}`)
       const existingItem = await this.serviceManager.duplicateDetector.findItemByUrl(url!)
 
@@ -78,9 +107,11 @@ export class ProcessUrlWithAiEndpoint extends BaseEndpoint {
       }
 
       // Fetch content and extract title for AI processing
+      this.reportStage(requestData, 'fetching')
       let pageTitle = ''
       try {
         logger.info('Fetching content for AI processing')
+        await this.serviceManager.rateLimiter.waitForDomain(url!)
         const httpResponse = await Zotero.HTTP.request('GET', url!, {
           headers: {
             'User-Agent': 'Mozilla/5.0 (compatible; Zotero Citation Linker)',
@@ -102,6 +133,7 @@ export class ProcessUrlWithAiEndpoint extends BaseEndpoint {
       }
 
       // Use AI to extract citation data
+      this.reportStage(requestData, 'translating')
       logger.info('Starting AI citation data extraction')
       let aiCitationData: any
 
@@ -119,6 +151,7 @@ export class ProcessUrlWithAiEndpoint extends BaseEndpoint {
       }
 
       // Create Zotero item from AI-extracted data
+      this.reportStage(requestData, 'validating')
       logger.info(`Creating Zotero item with type: ${aiCitationData.type}`)
 
       try {
@@ -1,7 +1,27 @@
 import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
 import { ServiceManager } from '../../core/ServiceManager'
 import { API_ENDPOINTS } from '../../config/constants'
 import { apiLogger as logger } from '../../core/Logger'
+import { EndpointMetadata, ImportTarget } from '../../core/types'
+
+const METADATA: EndpointMetadata = {
+  tag: 'Import',
+  operations: {
+    POST: {
+      operationId: 'saveWebpage',
+      summary: 'Save a URL as a webpage item',
+      requestBody: OpenApiBuilder.object({
+        url: { type: 'string', format: 'uri' },
+        title: { type: 'string' },
+        ...OpenApiBuilder.IMPORT_TARGET_PROPERTIES,
+        ...OpenApiBuilder.IDEMPOTENCY_PROPERTIES,
+        ...OpenApiBuilder.DRY_RUN_PROPERTIES,
+      }, ['url']),
+      response: OpenApiBuilder.ref('TranslationResult'),
+    },
+  },
+}
 
 /**
  * Endpoint for saving webpages as Zotero items
@@ -9,6 +29,9 @@ import { apiLogger as logger } from '../../core/Logger'
 export class SaveWebpageEndpoint extends BaseEndpoint {
   constructor(serviceManager: ServiceManager) {
     super(API_ENDPOINTS.SAVE_WEBPAGE, serviceManager, ['POST'])
+    this.rateLimitedMethods = ['POST']
+    this.idempotentMethods = ['POST']
+    this.metadata = METADATA
   }
 
   /**
@@ -25,24 +48,36 @@ export class SaveWebpageEndpoint extends BaseEndpoint {
       }
 
       const { url, title } = validationResult
-      logger.info(`Saving webpage: ${url}`)
+      const dryRun = this.isDryRun(requestData)
+      logger.info(`Saving webpage${dryRun ? ' (dry run)' : ''}: ${url}`)
+
+      // Resolve the requested library, collection and tags (defaults to Zotero's save target)
+      const targetResult = await this.resolveImportTarget(requestData)
+      if (!targetResult.valid) {
+        return this.errorResponse(targetResult.error!, targetResult.statusCode)
+      }
+      const { target, collectionToCreate } = targetResult
 
       // Check if library is editable
-      if (!this.checkLibraryEditable()) {
+      if (!target && !this.checkLibraryEditable()) {
         return this.errorResponse('Target library is not editable', 500)
       }
 
       // Create webpage item
-      const webpageResult = await this.createWebpageItem(url!, title)
+      const webpageResult = await this.createWebpageItem(url!, title, target, dryRun)
 
       if (webpageResult.success) {
-        logger.info(`Webpage saved successfully: ${webpageResult.item.key}`)
+        if (!dryRun) {
+          logger.info(`Webpage saved successfully: ${webpageResult.item.key}`)
+        }
 
-        return this.translationSuccessResponse(
-          [webpageResult.item],
+        return this.importResponse(
+          { validItems: [webpageResult.item], invalidItems: [] },
           'webpage_save',
           'Built-in webpage creator',
           undefined,
+          dryRun,
+          collectionToCreate,
         )
       } else {
         return this.errorResponse(`Failed to save as webpage: ${webpageResult.error}`, 500)
@@ -57,9 +92,16 @@ export class SaveWebpageEndpoint extends BaseEndpoint {
    * Create a webpage item in Zotero
    * @param url - URL of the webpage
    * @param title - Optional title for the webpage
+   * @param target - Library, collections and tags for the item (Zotero's save target when omitted)
+   * @param dryRun - Build the item without saving it
    * @returns Result with created item or error
    */
-  private async createWebpageItem(url: string, title?: string): Promise<{
+  private async createWebpageItem(
+    url: string,
+    title?: string,
+    target?: ImportTarget,
+    dryRun = false,
+  ): Promise<{
     success: boolean
     item?: any
     error?: string
@@ -70,7 +112,11 @@ export class SaveWebpageEndpoint extends BaseEndpoint {
 
       // Create new webpage item
       const item = new Zotero.Item('webpage')
-      item.libraryID = library.libraryID
+      item.libraryID = target ? target.libraryID : library.libraryID
+      if (target) {
+        item.setCollections(target.collectionIDs)
+        target.tags.forEach(tag => item.addTag(tag))
+      }
 
       // Set basic fields
       item.setField('url', url)
@@ -90,9 +136,10 @@ export class SaveWebpageEndpoint extends BaseEndpoint {
       }
 
       // Save the item
-      await item.saveTx()
-
-      logger.info(`Webpage item created with key: ${item.key}`)
+      if (!dryRun) {
+        await item.saveTx()
+        logger.info(`Webpage item created with key: ${item.key}`)
+      }
 
       return {
         success: true,
@@ -114,6 +161,7 @@ export class SaveWebpageEndpoint extends BaseEndpoint {
    */
   private async extractTitleFromUrl(url: string): Promise<string | null> {
     try {
+      await this.serviceManager.rateLimiter.waitForDomain(url)
       const response = await Zotero.HTTP.request('GET', url, {
         headers: {
           'User-Agent': 'Mozilla/5.0 (compatible; Zotero Citation Linker)',
@@ -0,0 +1,190 @@
+import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
+import { ServiceManager } from '../../core/ServiceManager'
+import { API_ENDPOINTS, LIBRARY_SEARCH } from '../../config/constants'
+import { apiLogger as logger } from '../../core/Logger'
+import { ApiScope, EndpointMetadata } from '../../core/types'
+import { LibrarySearchCriteria } from '../../services/LibrarySearchService'
+
+const METADATA: EndpointMetadata = {
+  tag: 'Search',
+  operations: {
+    GET: {
+      operationId: 'searchLibrary',
+      summary: 'Search regular items; all given conditions must match',
+      parameters: [
+        { name: 'q', in: 'query', description: 'Quick search over title, creators and year', schema: { type: 'string' } },
+        { name: 'title', in: 'query', schema: { type: 'string' } },
+        { name: 'creator', in: 'query', schema: { type: 'string' } },
+        { name: 'doi', in: 'query', schema: { type: 'string' } },
+        { name: 'yearFrom', in: 'query', schema: { type: 'integer' } },
+        { name: 'yearTo', in: 'query', schema: { type: 'integer' } },
+        { name: 'itemType', in: 'query', schema: { type: 'string' } },
+        { name: 'tag', in: 'query', description: 'Repeatable', schema: { type: 'string' } },
+        { name: 'collection', in: 'query', schema: { type: 'string' } },
+        { name: 'recursive', in: 'query', schema: { type: 'boolean' } },
+        { name: 'fulltext', in: 'query', schema: { type: 'string' } },
+        ...OpenApiBuilder.PAGINATION_PARAMETERS,
+        ...OpenApiBuilder.LIBRARY_PARAMETERS,
+      ],
+      response: OpenApiBuilder.ref('SearchResults'),
+    },
+    POST: {
+      operationId: 'searchLibraryPost',
+      summary: 'Search regular items with a JSON body',
+      requestBody: OpenApiBuilder.object({
+        q: { type: 'string' },
+        title: { type: 'string' },
+        creator: { type: 'string' },
+        doi: { type: 'string' },
+        yearFrom: { type: 'integer' },
+        yearTo: { type: 'integer' },
+        itemType: { type: 'string' },
+        tag: { type: 'array', items: { type: 'string' } },
+        collection: { type: 'string' },
+        recursive: { type: 'boolean' },
+        fulltext: { type: 'string' },
+        sort: { type: 'string', enum: LIBRARY_SEARCH.SORT_FIELDS },
+        direction: { type: 'string', enum: ['asc', 'desc'] },
+        limit: { type: 'integer', minimum: 1, maximum: LIBRARY_SEARCH.MAX_LIMIT },
+        offset: { type: 'integer', minimum: 0 },
+        ...OpenApiBuilder.LIBRARY_PROPERTIES,
+      }),
+      response: OpenApiBuilder.ref('SearchResults'),
+    },
+  },
+}
+
+/**
+ * Endpoint for searching the library with structured conditions
+ * Returns paginated items in the same shape as the item endpoint
+ */
+export class SearchEndpoint extends BaseEndpoint {
+  constructor(serviceManager: ServiceManager) {
+    super(API_ENDPOINTS.SEARCH, serviceManager, ['GET', 'POST'])
+    this.metadata = METADATA
+  }
+
+  /**
+   * Searches only read, for GET and POST alike
+   * @returns Required scopes
+   */
+  protected getRequiredScopes(): ApiScope[] {
+    return ['read']
+  }
+
+  /**
+   * Handle search request
+   * @param requestData - Request data with search conditions and pagination (body or query parameters)
+   * @returns Response with the matching page of items
+   */
+  async handleRequest(requestData: any): Promise<[number, string, string]> {
+    try {
+      // Support both query parameters (GET) and JSON body (POST)
+      const searchParams = requestData.searchParams
+      const body = requestData.data || {}
+      const param = (name: string) => body[name] ?? searchParams?.get(name) ?? undefined
+
+      const stringParams: Record<string, string | undefined> = {}
+      for (const name of ['q', 'title', 'creator', 'itemType', 'collection', 'doi', 'fulltext', 'sort', 'direction']) {
+        const value = param(name)
+        if (value !== undefined && typeof value !== 'string') {
+          return this.validationErrorResponse(`${name} must be a string`)
+        }
+        stringParams[name] = value?.trim() || undefined
+      }
+
+      const yearFrom = this.parseInteger(param('yearFrom'))
+      const yearTo = this.parseInteger(param('yearTo'))
+      const limit = this.parseInteger(param('limit')) ?? LIBRARY_SEARCH.DEFAULT_LIMIT
+      const offset = this.parseInteger(param('offset')) ?? 0
+
+      if (Number.isNaN(yearFrom) || Number.isNaN(yearTo)) {
+        return this.validationErrorResponse('yearFrom and yearTo must be integers')
+      }
+      if (yearFrom !== undefined && yearTo !== undefined && yearFrom > yearTo) {
+        return this.validationErrorResponse('yearFrom must not be greater than yearTo')
+      }
+      if (Number.isNaN(limit) || limit < 1 || limit > LIBRARY_SEARCH.MAX_LIMIT) {
+        return this.validationErrorResponse(`limit must be an integer between 1 and ${LIBRARY_SEARCH.MAX_LIMIT}`)
+      }
+      if (Number.isNaN(offset) || offset < 0) {
+        return this.validationErrorResponse('offset must be a non-negative integer')
+      }
+      if (stringParams.sort && !LIBRARY_SEARCH.SORT_FIELDS.includes(stringParams.sort)) {
+        return this.validationErrorResponse(`sort must be one of: ${LIBRARY_SEARCH.SORT_FIELDS.join(', ')}`)
+      }
+      if (stringParams.direction && stringParams.direction !== 'asc' && stringParams.direction !== 'desc') {
+        return this.validationErrorResponse('direction must be asc or desc')
+      }
+
+      const libraryParam = this.getLibraryParam(requestData)
+      if (!libraryParam.valid) {
+        return this.validationErrorResponse(libraryParam.error!)
+      }
+
+      const searchService = this.serviceManager.librarySearchService
+      if (stringParams.itemType && !searchService.isValidItemType(stringParams.itemType)) {
+        return this.validationErrorResponse(`Unknown item type: ${stringParams.itemType}`)
+      }
+
+      const criteria: LibrarySearchCriteria = {
+        libraryID: libraryParam.libraryID ?? Zotero.Libraries.userLibraryID,
+        query: stringParams.q,
+        title: stringParams.title,
+        creator: stringParams.creator,
+        yearFrom,
+        yearTo,
+        itemType: stringParams.itemType,
+        tags: this.parseTags(body.tag ?? body.tags ?? searchParams?.getAll('tag')),
+        collection: stringParams.collection,
+        recursive: this.parseBoolean(param('recursive')),
+        doi: stringParams.doi,
+        fulltext: stringParams.fulltext,
+        sort: stringParams.sort,
+        direction: stringParams.direction as 'asc' | 'desc' | undefined,
+      }
+
+      logger.info(`Searching library with conditions: ${JSON.stringify(criteria)}`)
+
+      const items = await searchService.search(criteria)
+      if (!items) {
+        return this.errorResponse(`Collection with key ${criteria.collection} not found`, 404)
+      }
+
+      const page = items.slice(offset, offset + limit)
+      const pageData = await Promise.all(
+        page.map(item => this.serviceManager.itemDataService.extractItemData(item)),
+      )
+
+      return this.successResponse(
+        {
+          total: items.length,
+          offset,
+          limit,
+          count: pageData.length,
+          hasMore: offset + pageData.length < items.length,
+          library: this.getLibraryInfo(criteria.libraryID),
+          items: pageData,
+        },
+        {
+          message: `Found ${items.length} matching item(s)`,
+        },
+      )
+    } catch (error) {
+      logger.error(`Error in Search endpoint: ${error}`)
+      return this.errorResponse(`Internal server error: ${error}`, 500)
+    }
+  }
+
+  /**
+   * Parse an integer from JSON or a query string value
+   * @param value - Raw value
+   * @returns Integer, undefined when absent, or NaN when invalid
+   */
+  private parseInteger(value: any): number | undefined {
+    if (value === undefined || value === null || value === '') return undefined
+    const parsed = Number(value)
+    return Number.isInteger(parsed) ? parsed : NaN
+  }
+}
@@ -0,0 +1,68 @@
+import { BaseEndpoint } from '../BaseEndpoint'
+import { OpenApiBuilder } from '../OpenApiBuilder'
+import { ServiceManager } from '../../core/ServiceManager'
+import { API_ENDPOINTS, WEBHOOKS } from '../../config/constants'
+import { apiLogger as logger } from '../../core/Logger'
+import { EndpointMetadata } from '../../core/types'
+
+const METADATA: EndpointMetadata = {
+  tag: 'Events',
+  operations: {
+    GET: {
+      operationId: 'getWebhookDeliveries',
+      summary: 'List the configured webhooks and the delivery log',
+      description: 'Webhooks are configured in the webhooks preference. The log keeps the last '
+        + `${WEBHOOKS.MAX_LOGGED_DELIVERIES} deliveries, newest first.`,
+      parameters: [
+        { name: 'webhook', in: 'query', description: 'Only deliveries of this webhook (name)', schema: { type: 'string' } },
+        { name: 'status', in: 'query', schema: { type: 'string', enum: ['pending', 'retrying', 'delivered', 'failed'] } },
+      ],
+      response: OpenApiBuilder.success({
+        webhooks: { type: 'array', items: OpenApiBuilder.ref('Webhook') },
+        count: { type: 'integer' },
+        deliveries: { type: 'array', items: OpenApiBuilder.ref('WebhookDelivery') },
+      }),
+    },
+  },
+}
+
+/**
+ * Endpoint for inspecting outgoing webhooks and their delivery log
+ */
+export class WebhooksEndpoint extends BaseEndpoint {
+  constructor(serviceManager: ServiceManager) {
+    super(API_ENDPOINTS.WEBHOOKS, serviceManager, ['GET'])
+    this.metadata = METADATA
+  }
+
+  /**
+   * Handle webhooks request
+   * @param requestData - Request data with optional webhook and status query parameters
+   * @returns Response with the configured webhooks and logged deliveries
+   */
+  async handleRequest(requestData: any): Promise<[number, string, string]> {
+    try {
+      const searchParams = requestData.searchParams
+      const webhookName = searchParams?.get('webhook') || undefined
+      const status = searchParams?.get('status') || undefined
+
+      if (status && !['pending', 'retrying', 'delivered', 'failed'].includes(status)) {
+        return this.validationErrorResponse('status must be pending, retrying, delivered or failed')
+      }
+
+      const webhookService = this.serviceManager.webhookService
+      const deliveries = webhookService
+        .getDeliveries(webhookName)
+        .filter(delivery => !status || delivery.status === status)
+
+      return this.successResponse({
+        webhooks: webhookService.getWebhooks(),
+        count: deliveries.length,
+        deliveries,
+      })
+    } catch (error) {
+      logger.error(`Error in Webhooks endpoint: ${error}`)
+      return this.errorResponse(`Internal server error: ${error}`, 500)
+    }
+  }
+}
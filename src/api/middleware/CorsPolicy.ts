@@ -0,0 +1,114 @@
+import { CORS, DEFAULT_API_PORT, HTTP_STATUS } from '../../config/constants'
+import { utilLogger as logger } from '../../core/Logger'
+import { HeaderUtils } from '../../utils/HeaderUtils'
+
+const ALLOWED_ORIGINS_PREF = 'corsAllowedOrigins'
+
+/**
+ * CORS middleware for API endpoints
+ *
+ * Requests without an Origin header (curl, scripts, editor plugins) pass through unchanged.
+ * Requests sent by web pages are only accepted from origins listed in the corsAllowedOrigins
+ * preference, so arbitrary websites cannot drive the API from a user's browser.
+ */
+export class CorsPolicy {
+  /**
+   * Get the origin a request was sent from
+   * @param requestData - Request data from Zotero server
+   * @returns Normalized origin, or null for requests not sent by a web page
+   */
+  static getOrigin(requestData: any): string | null {
+    const origin = HeaderUtils.getHeader(requestData?.headers, 'Origin')
+    return origin ? CorsPolicy.normalizeOrigin(origin) : null
+  }
+
+  /**
+   * Get the configured origin allow-list
+   * @returns Normalized allowed origins
+   */
+  static getAllowedOrigins(): string[] {
+    try {
+      const value = Zotero.Prefs.get(ALLOWED_ORIGINS_PREF) as string
+      return (value || '')
+        .split(/[\s,]+/)
+        .filter(origin => origin.length > 0)
+        .map(origin => CorsPolicy.normalizeOrigin(origin))
+    } catch (error) {
+      logger.error(`Error reading allowed CORS origins: ${error}`)
+      return []
+    }
+  }
+
+  /**
+   * Check whether a web page origin may call the API
+   * Pages served by the API itself (the explorer) are always allowed
+   * @param origin - Normalized origin
+   * @returns True if the origin is the API's own or on the allow-list
+   */
+  static isOriginAllowed(origin: string): boolean {
+    const port = (Zotero.Server as any).port || DEFAULT_API_PORT
+    if (origin === `http://localhost:${port}` || origin === `http://127.0.0.1:${port}`) {
+      return true
+    }
+    return CorsPolicy.getAllowedOrigins().includes(origin)
+  }
+
+  /**
+   * Build the CORS headers for an allowed origin
+   * @param origin - Allowed origin
+   * @param methods - Methods supported by the endpoint
+   * @returns Response headers
+   */
+  static getCorsHeaders(origin: string, methods: string[]): Record<string, string> {
+    return {
+      'Access-Control-Allow-Origin': origin,
+      'Access-Control-Allow-Methods': [...methods, 'OPTIONS'].join(', '),
+      'Access-Control-Allow-Headers': CORS.ALLOWED_HEADERS.join(', '),
+      'Access-Control-Max-Age': String(CORS.MAX_AGE),
+      'Vary': 'Origin',
+    }
+  }
+
+  /**
+   * Build the response to a preflight (OPTIONS) request
+   * @param origin - Allowed origin
+   * @param methods - Methods supported by the endpoint
+   * @returns Response array [statusCode, headers, body]
+   */
+  static preflightResponse(origin: string, methods: string[]): [number, Record<string, string>, string] {
+    return [HTTP_STATUS.NO_CONTENT, CorsPolicy.getCorsHeaders(origin, methods), '']
+  }
+
+  /**
+   * Add CORS headers to an endpoint response
+   * Zotero's server accepts a headers object in place of the content type
+   * @param response - Response array [statusCode, contentType or headers, body]
+   * @param origin - Allowed origin
+   * @param methods - Methods supported by the endpoint
+   * @returns Response array [statusCode, headers, body]
+   */
+  static withCorsHeaders(
+    response: [number, string | Record<string, string>, string],
+    origin: string,
+    methods: string[],
+  ): [number, Record<string, string>, string] {
+    const [statusCode, contentType, body] = response
+    return [
+      statusCode,
+      {
+        ...(typeof contentType === 'string' ? { 'Content-Type': contentType } : contentType),
+        ...CorsPolicy.getCorsHeaders(origin, methods),
+      },
+      body,
+    ]
+  }
+
+  /**
+   * Normalize an origin for comparison (lowercase, no trailing slash)
+   * @param origin - Origin as sent or configured
+   * @returns Normalized origin
+   */
+  private static normalizeOrigin(origin: string): string {
+    return origin.trim().toLowerCase().replace(/\/+$/, '')
+  }
+}
@@ -105,6 +105,105 @@ export class RequestValidator {
     }
   }
 
+  /**
+   * Validate a list of item keys
+   * Accepts an array of keys or a comma-separated string (as sent in query parameters)
+   * @param itemKeys - Raw item keys value
+   * @returns Validation result with normalized item keys
+   */
+  static validateItemKeys(itemKeys: any): { valid: boolean; error?: string; itemKeys?: string[] } {
+    const keys = typeof itemKeys === 'string' ? itemKeys.split(',') : itemKeys
+
+    if (!Array.isArray(keys) || keys.length === 0) {
+      return { valid: false, error: 'itemKeys is required and must be a non-empty array of item keys' }
+    }
+
+    const normalized: string[] = []
+    for (let i = 0; i < keys.length; i++) {
+      if (typeof keys[i] !== 'string' || keys[i].trim().length === 0) {
+        return { valid: false, error: `Item key at index ${i} must be a non-empty string` }
+      }
+      normalized.push(keys[i].trim())
+    }
+
+    return { valid: true, itemKeys: normalized }
+  }
+
+  /**
+   * Validate a batch of URLs and identifiers
+   * Entries may be plain strings (URL or identifier, detected automatically)
+   * or objects of the form { url } or { identifier }
+   * @param entries - Raw batch entries
+   * @param maxEntries - Maximum number of entries accepted
+   * @returns Validation result with normalized entries; explicit is set for object entries
+   */
+  static validateBatchEntries(entries: any, maxEntries: number): {
+    valid: boolean
+    error?: string
+    entries?: Array<{ input: string; type: 'url' | 'identifier'; explicit: boolean }>
+  } {
+    if (!Array.isArray(entries) || entries.length === 0) {
+      return { valid: false, error: 'entries is required and must be a non-empty array' }
+    }
+
+    if (entries.length > maxEntries) {
+      return { valid: false, error: `A batch may contain at most ${maxEntries} entries` }
+    }
+
+    const normalized: Array<{ input: string; type: 'url' | 'identifier'; explicit: boolean }> = []
+    for (let i = 0; i < entries.length; i++) {
+      const entry = entries[i]
+      const value = typeof entry === 'string' ? entry : entry?.url ?? entry?.identifier
+
+      if (typeof value !== 'string' || value.trim().length === 0) {
+        return { valid: false, error: `Entry at index ${i} must be a non-empty string or an object with url or identifier` }
+      }
+
+      const input = value.trim()
+      const isUrl = typeof entry === 'string' ? UrlUtils.isValidUrl(input) : typeof entry.url === 'string'
+
+      if (isUrl && !UrlUtils.isValidUrl(input)) {
+        return { valid: false, error: `Entry at index ${i} has an invalid URL format` }
+      }
+
+      if (isUrl && !UrlUtils.isSupportedScheme(input)) {
+        return { valid: false, error: `Entry at index ${i}: only HTTP and HTTPS URLs are supported` }
+      }
+
+      normalized.push({ input, type: isUrl ? 'url' : 'identifier', explicit: typeof entry !== 'string' })
+    }
+
+    return { valid: true, entries: normalized }
+  }
+
+  /**
+   * Validate note content given as Markdown or HTML
+   * @param data - Request body
+   * @param required - Whether content must be present
+   * @returns Validation result with the content (undefined when optional and absent)
+   */
+  static validateNoteContent(data: any, required: boolean): {
+    valid: boolean
+    error?: string
+    content?: { markdown?: string; html?: string }
+  } {
+    const { markdown, html } = data || {}
+
+    if (markdown !== undefined && html !== undefined) {
+      return { valid: false, error: 'Provide either markdown or html, not both' }
+    }
+    if (markdown === undefined && html === undefined) {
+      return required ? { valid: false, error: 'markdown or html is required' } : { valid: true }
+    }
+
+    const value = markdown ?? html
+    if (typeof value !== 'string' || value.trim().length === 0) {
+      return { valid: false, error: `${markdown !== undefined ? 'markdown' : 'html'} must be a non-empty string` }
+    }
+
+    return { valid: true, content: markdown !== undefined ? { markdown } : { html } }
+  }
+
   /**
    * Check if library is editable
    * @returns True if library can be written to
@@ -12,6 +12,16 @@ export const DEFAULT_API_PORT = 23119
 export const API_BASE_PATH = '/citationlinker'
 export const API_TIMEOUT = 30000 // 30 seconds
 
+// Built-in citation template presets (name -> template, or { template, linkTarget })
+export const DEFAULT_CITATION_TEMPLATES: Record<string, string | { template: string, linkTarget?: string }> = {
+  'Markdown Link': '[{{citation}}]({{apiUrl}})',
+  'Obsidian': {
+    template: '[{{citation}}]({{link}}){{#citekey}} [@{{citekey}}]{{/citekey}}',
+    linkTarget: 'select',
+  },
+  'Reference with DOI': '{{bibliography}}{{^bibliography}}{{title}}{{#year}} ({{year}}){{/year}}{{/bibliography}}{{#doi}} https://doi.org/{{doi}}{{/doi}}',
+}
+
 // Default Preferences
 export const DEFAULT_PREFERENCES = {
   apiPort: DEFAULT_API_PORT,
@@ -36,6 +46,33 @@ export const DEFAULT_PREFERENCES = {
   enablePdfProcessing: true, // Enable/disable PDF content extraction
   maxPdfUploadSize: 50 * 1024 * 1024, // 50MB max upload size for preview endpoint
   maxPdfPagesToAnalyze: 10, // Limit pages to scan for identifiers in preview
+  // Citation Key Configuration
+  citationKeyPattern: '[auth:lower][year][title:lower]',
+  // Citation templates, stored as a JSON object of named presets
+  citationTemplates: JSON.stringify(DEFAULT_CITATION_TEMPLATES),
+  // Link target for citations: api, select, pdf or web
+  citationLinkTarget: 'api',
+  // Per-format link target overrides, stored as a JSON object (e.g. {"markdown":"select"})
+  citationLinkTargets: '{}',
+  // Number of batch entries translated at the same time
+  batchConcurrency: 3,
+  // Minutes finished import jobs are kept for status polling
+  jobRetentionMinutes: 60,
+  // API tokens, stored as a JSON array of { name, token, scopes }; the API is open while none are configured
+  apiTokens: '[]',
+  // Comma-separated origins allowed to call the API from web pages (e.g. http://localhost:5173); others are rejected
+  corsAllowedOrigins: '',
+  // Webhooks, stored as a JSON array of { name, url, events, libraryID, collection, tag, itemType }
+  webhooks: '[]',
+  // Translation requests each client may send per minute, with bursts up to rateLimitBurst (0 disables)
+  rateLimitRequestsPerMinute: 30,
+  rateLimitBurst: 10,
+  // Translations running at the same time; further requests get 429 (0 disables)
+  maxConcurrentTranslations: 3,
+  // Minimum milliseconds between outgoing requests to the same site (0 disables)
+  domainRequestSpacingMs: 2000,
+  // Minutes the response to a request with an idempotency key is remembered
+  idempotencyWindowMinutes: 60,
 }
 
 // API Endpoints
@@ -54,6 +91,82 @@ export const API_ENDPOINTS = {
   DELETE_ITEM: `${API_BASE_PATH}/deleteitem`,
   GET_ITEM: `${API_BASE_PATH}/item`,
   EDIT_ITEM: `${API_BASE_PATH}/edititem`,
+  CITE: `${API_BASE_PATH}/cite`,
+  EXPORT: `${API_BASE_PATH}/export`,
+  ANNOTATIONS: `${API_BASE_PATH}/annotations`,
+  BATCH: `${API_BASE_PATH}/batch`,
+  JOBS: `${API_BASE_PATH}/jobs`,
+  JOB_STATUS: `${API_BASE_PATH}/jobs/:jobID`,
+  SEARCH: `${API_BASE_PATH}/search`,
+  COLLECTIONS: `${API_BASE_PATH}/collections`,
+  COLLECTION: `${API_BASE_PATH}/collections/:collectionKey`,
+  COLLECTION_ITEMS: `${API_BASE_PATH}/collections/:collectionKey/items`,
+  NOTES: `${API_BASE_PATH}/notes`,
+  NOTE: `${API_BASE_PATH}/notes/:noteKey`,
+  ATTACHMENTS: `${API_BASE_PATH}/attachments`,
+  IMPORT_PDF: `${API_BASE_PATH}/importpdf`,
+  OPENAPI: `${API_BASE_PATH}/openapi.json`,
+  API_EXPLORER: `${API_BASE_PATH}/explorer`,
+  EVENTS: `${API_BASE_PATH}/events`,
+  WEBHOOKS: `${API_BASE_PATH}/webhooks`,
+}
+
+// API Authentication Configuration
+export const API_AUTH = {
+  SCOPES: ['read', 'write', 'delete', 'ai'],
+  TOKEN_HEADER: 'X-Citation-Linker-Token', // Alternative to Authorization: Bearer <token>
+}
+
+// CORS Configuration for browser-based clients
+export const CORS = {
+  ALLOWED_HEADERS: ['Content-Type', 'Authorization', 'X-Citation-Linker-Token', 'Zotero-Allowed-Request', 'Last-Event-ID', 'Idempotency-Key'],
+  MAX_AGE: 600, // Seconds browsers may cache a preflight response
+}
+
+// Event Stream Configuration
+export const EVENT_STREAM = {
+  TYPES: [
+    'item.add',
+    'item.modify',
+    'item.delete',
+    'item.trash',
+    'translation.started',
+    'translation.finished',
+    'duplicate.flagged',
+    'ai.call',
+  ],
+  MAX_BUFFERED_EVENTS: 500, // Older events are dropped; clients further behind are told they missed some
+  DEFAULT_TIMEOUT_SECONDS: 25, // How long a request waits for new events
+  MAX_TIMEOUT_SECONDS: 60,
+  RETRY_MS: 1000, // Reconnect delay suggested to EventSource clients
+}
+
+// Rate Limiting Configuration (limits themselves are preferences)
+export const RATE_LIMIT = {
+  BUSY_RETRY_AFTER_SECONDS: 5, // Suggested wait when all translation slots are taken
+  MAX_TRACKED_DOMAINS: 200, // Spacing entries of idle sites are dropped beyond this count
+}
+
+// Idempotency Key Configuration
+export const IDEMPOTENCY = {
+  HEADER: 'Idempotency-Key', // Alternative to the idempotencyKey body field
+  REPLAYED_HEADER: 'Idempotent-Replayed', // Set on responses returned from memory
+  MAX_KEY_LENGTH: 255,
+  MAX_REMEMBERED_KEYS: 1000,
+  DEFAULT_WINDOW_MINUTES: 60,
+}
+
+// Outgoing Webhook Configuration
+export const WEBHOOKS = {
+  EVENTS: ['item.add', 'item.modify', 'item.trash'], // Events whose item can be sent
+  DEFAULT_EVENTS: ['item.add', 'item.modify'],
+  MAX_ATTEMPTS: 5,
+  INITIAL_BACKOFF_MS: 2000, // Doubled after every failed attempt
+  MAX_BACKOFF_MS: 60000,
+  REQUEST_TIMEOUT_MS: 10000,
+  MAX_LOGGED_DELIVERIES: 200, // Oldest log entries are dropped beyond this count
+  EVENT_HEADER: 'X-Citation-Linker-Event',
+  DELIVERY_HEADER: 'X-Citation-Linker-Delivery',
 }
 
 // Identifier Patterns - Context-aware patterns to avoid false positives
@@ -192,11 +305,15 @@ export const VALIDATION = {
 // HTTP Status Codes
 export const HTTP_STATUS = {
   OK: 200,
+  ACCEPTED: 202,
+  NO_CONTENT: 204,
   BAD_REQUEST: 400,
   UNAUTHORIZED: 401,
   FORBIDDEN: 403,
   NOT_FOUND: 404,
+  CONFLICT: 409,
   UNPROCESSABLE_ENTITY: 422,
+  TOO_MANY_REQUESTS: 429,
   INTERNAL_SERVER_ERROR: 500,
 }
 
@@ -208,6 +325,114 @@ export const CITATION_FORMATS = {
   WIKI: 'wiki',
   HTML: 'html',
   PLAIN: 'plain',
+  PANDOC: 'pandoc',
+}
+
+// CSL Citation Processing
+export const CSL_CONFIG = {
+  STYLE_ID_PREFIX: 'http://www.zotero.org/styles/',
+  DEFAULT_STYLE_ID: 'http://www.zotero.org/styles/chicago-author-date',
+  DEFAULT_LOCALE: 'en-US',
+  // Zotero's own preferences holding the Quick Copy configuration
+  QUICK_COPY_SETTING_PREF: 'export.quickCopy.setting',
+  QUICK_COPY_LOCALE_PREF: 'export.quickCopy.locale',
+  // citationStyle values that mean "use the Quick Copy style"
+  QUICK_COPY_ALIASES: ['', 'default', 'quickcopy', 'markdown'],
+}
+
+// Bibliography Export Formats (Zotero's bundled export translators)
+export const EXPORT_FORMATS = {
+  bibtex: {
+    label: 'BibTeX',
+    translatorID: '9cb70025-a888-4a29-a210-93ec52da40d4',
+    contentType: 'application/x-bibtex',
+    extension: 'bib',
+  },
+  biblatex: {
+    label: 'BibLaTeX',
+    translatorID: 'b6e39b57-8942-4d11-8259-342c46ce395f',
+    contentType: 'application/x-bibtex',
+    extension: 'bib',
+  },
+  ris: {
+    label: 'RIS',
+    translatorID: '32d59d2d-b65a-4da4-b0a3-bdd3cfb979e7',
+    contentType: 'application/x-research-info-systems',
+    extension: 'ris',
+  },
+  csljson: {
+    label: 'CSL JSON',
+    translatorID: 'bc03b4fe-436d-4a1f-ba59-de4d2d7a63f7',
+    contentType: 'application/vnd.citationstyles.csl+json',
+    extension: 'json',
+  },
+}
+
+// Citation Key Configuration
+export const CITATION_KEY_CONFIG = {
+  // Keys are stored as a "Citation Key: <key>" line in the item's Extra field
+  EXTRA_FIELD_LABEL: 'Citation Key',
+  DEFAULT_PATTERN: '[auth:lower][year][title:lower]',
+  // Pattern tokens: [auth], [authors], [year], [title], [shorttitle], [suffix]
+  // Modifiers: :lower, :upper (e.g. [auth:lower])
+  TOKEN_PATTERN: /\[([a-z]+)((?::[a-z]+)*)\]/gi,
+  MAX_AUTHORS: 3,
+  SHORT_TITLE_WORDS: 3,
+  // Words skipped when picking significant title words
+  STOP_WORDS: [
+    'a', 'an', 'the', 'and', 'or', 'but', 'nor', 'of', 'on', 'in', 'at', 'to', 'for', 'from',
+    'by', 'with', 'without', 'about', 'into', 'onto', 'over', 'under', 'as', 'is', 'are', 'be',
+    'its', 'their', 'this', 'that', 'these', 'those', 'via', 'vs', 'versus', 'toward', 'towards',
+  ],
+}
+
+// Citation Link Targets
+export const LINK_TARGETS = {
+  API: 'api', // https://api.zotero.org/... item URL
+  SELECT: 'select', // zotero://select deep link into the desktop client
+  PDF: 'pdf', // zotero://open-pdf link to the item's best PDF attachment
+  WEB: 'web', // https://www.zotero.org/... web library URL
+}
+
+// Annotation Export Configuration
+export const ANNOTATION_EXPORT = {
+  // Annotation types copied as Markdown (ink and text annotations are skipped)
+  TYPES: ['highlight', 'underline', 'note', 'image'],
+  // Attachment reader types that can carry annotations
+  READER_TYPES: ['pdf', 'epub'],
+  // Names for Zotero's default annotation colours
+  COLOR_NAMES: {
+    '#ffd400': 'yellow',
+    '#ff6666': 'red',
+    '#5fb236': 'green',
+    '#2ea8e5': 'blue',
+    '#a28ae5': 'purple',
+    '#e56eee': 'magenta',
+    '#f19837': 'orange',
+    '#aaaaaa': 'gray',
+  } as Record<string, string>,
+}
+
+// Batch Processing Configuration
+export const BATCH_PROCESSING = {
+  MAX_ENTRIES: 200, // Entries accepted per batch request
+  DEFAULT_CONCURRENCY: 3,
+  MAX_CONCURRENCY: 10,
+}
+
+// Import Job Queue Configuration
+export const JOB_QUEUE = {
+  MAX_RUNNING_JOBS: 2, // Jobs processed at the same time, the rest wait in the queue
+  MAX_RETAINED_JOBS: 500, // Oldest finished jobs are dropped beyond this count
+  DEFAULT_RETENTION_MINUTES: 60,
+}
+
+// Library Search Configuration
+export const LIBRARY_SEARCH = {
+  DEFAULT_LIMIT: 25,
+  MAX_LIMIT: 100,
+  SORT_FIELDS: ['title', 'creator', 'date', 'dateAdded', 'dateModified'],
+  DEFAULT_SORT: 'dateModified',
 }
 
 // Logging Levels
@@ -224,6 +449,7 @@ export const PDF_PROCESSING = {
   MAX_EXTRACTION_PAGES: 10, // Pages to extract for initial analysis
   EXTRACTION_TIMEOUT: 30000, // 30 seconds
   TEMP_FILE_PREFIX: 'citationlinker_',
+  MAX_IMPORT_IDENTIFIERS: 3, // Identifiers tried, most confident first, when importing an uploaded PDF
   // Patterns for extracting identifiers from PDF text
   IDENTIFIER_PATTERNS: {
     DOI: /10\.\d{4,}(?:\.\d+)*\/[-._;()/:a-zA-Z0-9]+/gi,
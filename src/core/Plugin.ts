@@ -143,16 +143,14 @@ export class Plugin {
    * @param ids - Array of object IDs
    * @param extraData - Additional event data
    */
-  notify(event: string, type: string, ids: number[]): void {
+  notify(event: string, type: string, ids: number[], extraData: Record<string, any> = {}): void {
     try {
       // Log notifications for debugging
       logger.debug(`Notification received: ${event} ${type} [${ids.join(', ')}]`)
 
-      // Handle item notifications if needed
+      // Forward item changes to event stream clients
       if (type === 'item') {
-        // Future: Could trigger duplicate detection, metadata validation, etc.
-        // For now, just log
-        logger.debug(`Item notification: ${event} for ${ids.length} items`)
+        this.serviceManager.eventService.publishItemEvents(event, ids, extraData)
       }
     } catch (error) {
       logger.error(`Error handling notification: ${error}`)
@@ -1,12 +1,26 @@
 import { ItemValidator } from '../services/ItemValidator'
 import { DuplicateDetector } from '../services/DuplicateDetector'
 import { CitationGenerator } from '../services/CitationGenerator'
+import { BibliographyExporter } from '../services/BibliographyExporter'
+import { CitationKeyService } from '../services/CitationKeyService'
+import { CitationTemplateService } from '../services/CitationTemplateService'
+import { AnnotationExporter } from '../services/AnnotationExporter'
+import { ItemDataService } from '../services/ItemDataService'
+import { LibrarySearchService } from '../services/LibrarySearchService'
+import { CollectionService } from '../services/CollectionService'
+import { NoteService } from '../services/NoteService'
 import { CrossRefService } from '../services/CrossRefService'
 import { PerplexityService } from '../services/PerplexityService'
 import { ApiServer } from '../services/ApiServer'
 import { UIManager } from '../ui/UIManager'
 import { TranslatorManager } from '../translators/TranslatorManager'
 import { PdfProcessor } from '../services/PdfProcessor'
+import { JobQueue } from '../services/JobQueue'
+import { AuthService } from '../services/AuthService'
+import { EventService } from '../services/EventService'
+import { WebhookService } from '../services/WebhookService'
+import { RateLimiter } from '../services/RateLimiter'
+import { IdempotencyService } from '../services/IdempotencyService'
 import { logger } from './Logger'
 import { IService } from './types'
 
@@ -18,38 +32,80 @@ export class ServiceManager {
   private initialized = false
 
   // Service instances
+  public eventService: EventService
+  public rateLimiter: RateLimiter
   public itemValidator: ItemValidator
   public duplicateDetector: DuplicateDetector
+  public citationKeyService: CitationKeyService
   public citationGenerator: CitationGenerator
+  public citationTemplateService: CitationTemplateService
+  public annotationExporter: AnnotationExporter
+  public itemDataService: ItemDataService
+  public librarySearchService: LibrarySearchService
+  public collectionService: CollectionService
+  public noteService: NoteService
+  public bibliographyExporter: BibliographyExporter
   public crossRefService: CrossRefService
   public perplexityService: PerplexityService
   public apiServer: ApiServer
   public uiManager: UIManager
   public translatorManager: TranslatorManager
   public pdfProcessor: PdfProcessor
+  public jobQueue: JobQueue
+  public authService: AuthService
+  public webhookService: WebhookService
+  public idempotencyService: IdempotencyService
 
   constructor() {
     // Initialize service instances
+    this.eventService = new EventService()
+    this.rateLimiter = new RateLimiter()
     this.itemValidator = new ItemValidator()
-    this.duplicateDetector = new DuplicateDetector()
-    this.citationGenerator = new CitationGenerator()
+    this.duplicateDetector = new DuplicateDetector(this.eventService)
+    this.citationKeyService = new CitationKeyService()
+    this.citationGenerator = new CitationGenerator(this.citationKeyService)
+    this.citationTemplateService = new CitationTemplateService()
+    this.annotationExporter = new AnnotationExporter(this.citationGenerator)
+    this.itemDataService = new ItemDataService(this.citationKeyService, this.citationGenerator)
+    this.librarySearchService = new LibrarySearchService()
+    this.collectionService = new CollectionService()
+    this.noteService = new NoteService()
+    this.bibliographyExporter = new BibliographyExporter()
     this.crossRefService = new CrossRefService()
-    this.perplexityService = new PerplexityService()
+    this.perplexityService = new PerplexityService(this.eventService, this.rateLimiter)
     this.apiServer = new ApiServer(this)
     this.uiManager = new UIManager(this)
     this.translatorManager = new TranslatorManager(this)
     this.pdfProcessor = new PdfProcessor()
+    this.jobQueue = new JobQueue(this)
+    this.authService = new AuthService()
+    this.webhookService = new WebhookService(this.eventService, this.itemDataService)
+    this.idempotencyService = new IdempotencyService()
 
     // Register services
+    this.services.set('eventService', this.eventService)
+    this.services.set('rateLimiter', this.rateLimiter)
     this.services.set('itemValidator', this.itemValidator)
     this.services.set('duplicateDetector', this.duplicateDetector)
+    this.services.set('citationKeyService', this.citationKeyService)
     this.services.set('citationGenerator', this.citationGenerator)
+    this.services.set('citationTemplateService', this.citationTemplateService)
+    this.services.set('annotationExporter', this.annotationExporter)
+    this.services.set('itemDataService', this.itemDataService)
+    this.services.set('librarySearchService', this.librarySearchService)
+    this.services.set('collectionService', this.collectionService)
+    this.services.set('noteService', this.noteService)
+    this.services.set('bibliographyExporter', this.bibliographyExporter)
     this.services.set('crossRefService', this.crossRefService)
     this.services.set('perplexityService', this.perplexityService)
     this.services.set('apiServer', this.apiServer)
     this.services.set('uiManager', this.uiManager)
     this.services.set('translatorManager', this.translatorManager)
     this.services.set('pdfProcessor', this.pdfProcessor)
+    this.services.set('jobQueue', this.jobQueue)
+    this.services.set('authService', this.authService)
+    this.services.set('webhookService', this.webhookService)
+    this.services.set('idempotencyService', this.idempotencyService)
   }
 
   /**
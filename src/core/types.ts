@@ -38,6 +38,13 @@ export interface TranslationResult {
   duplicateProcessing?: DuplicateProcessingResult
 }
 
+// Where imported items are saved
+export interface ImportTarget {
+  libraryID: number
+  collectionIDs: number[]
+  tags: string[]
+}
+
 export interface DuplicateProcessingResult {
   hasDuplicates: boolean
   duplicateCount: number
@@ -131,8 +138,102 @@ export interface PluginEvent {
   data?: any
 }
 
+// Activity Event Types (event stream)
+export type ApiEventType =
+  | 'item.add'
+  | 'item.modify'
+  | 'item.delete'
+  | 'item.trash'
+  | 'translation.started'
+  | 'translation.finished'
+  | 'duplicate.flagged'
+  | 'ai.call'
+
+export interface ApiEvent {
+  id: number
+  type: ApiEventType
+  timestamp: string
+  libraryID: number | null // null when the event is not tied to a library
+  collections: string[] | null // Collection keys, null when unknown
+  data: Record<string, any>
+}
+
+export interface ApiEventFilter {
+  libraryID?: number
+  collection?: string
+  types?: ApiEventType[]
+}
+
+// Webhook Types
+export interface WebhookConfig {
+  name: string
+  url: string
+  events: ApiEventType[]
+  libraryID?: number
+  collection?: string // Collection key
+  tag?: string
+  itemType?: string
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'retrying' | 'delivered' | 'failed'
+
 // Citation Format Types
-export type CitationFormat = 'markdown' | 'latex' | 'org' | 'wiki' | 'html' | 'plain'
+export type CitationFormat = 'markdown' | 'latex' | 'org' | 'wiki' | 'html' | 'plain' | 'pandoc'
+
+export type ExportFormat = 'bibtex' | 'biblatex' | 'ris' | 'csljson'
+
+export type LinkTarget = 'api' | 'select' | 'pdf' | 'web'
+
+// Job Types
+export type JobType = 'url' | 'url_ai' | 'identifier'
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+
+export type JobStage = 'queued' | 'fetching' | 'translating' | 'deduplicating' | 'validating' | 'done'
+
+/* eslint-disable no-unused-vars */
+export interface JobContext {
+  jobId: string
+  setStage(stage: JobStage): void
+  isCancelled(): boolean
+}
+/* eslint-enable no-unused-vars */
+
+// API Authentication Types
+export type ApiScope = 'read' | 'write' | 'delete' | 'ai'
+
+export interface ApiToken {
+  name: string
+  token: string
+  scopes: ApiScope[]
+}
+
+// API Description Types (OpenAPI 3)
+export type JsonSchema = Record<string, any>
+
+export interface EndpointParameter {
+  name: string
+  in: 'query' | 'path'
+  description?: string
+  required?: boolean
+  schema: JsonSchema
+}
+
+export interface EndpointOperation {
+  operationId: string
+  summary: string
+  description?: string
+  parameters?: EndpointParameter[]
+  requestBody?: JsonSchema // application/json body
+  multipartBody?: JsonSchema // multipart/form-data body
+  successStatus?: number // Defaults to 200
+  response: JsonSchema
+}
+
+export interface EndpointMetadata {
+  tag: string
+  operations: Partial<Record<'GET' | 'POST' | 'PATCH' | 'DELETE', EndpointOperation>>
+}
 
 // Error Types
 export class PluginError extends Error {
@@ -159,6 +260,37 @@ export class TranslationError extends PluginError {
   }
 }
 
+export class AuthenticationError extends PluginError {
+  constructor(message: string) {
+    super(message, 401)
+    this.name = 'AuthenticationError'
+  }
+}
+
+export class AuthorizationError extends PluginError {
+  constructor(message: string) {
+    super(message, 403)
+    this.name = 'AuthorizationError'
+  }
+}
+
+export class RateLimitError extends PluginError {
+  retryAfter: number // Seconds
+
+  constructor(message: string, retryAfter: number) {
+    super(message, 429)
+    this.name = 'RateLimitError'
+    this.retryAfter = retryAfter
+  }
+}
+
+export class JobCancelledError extends PluginError {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`, 409)
+    this.name = 'JobCancelledError'
+  }
+}
+
 // CrossRef API Types
 export interface CrossRefWork {
   DOI: string
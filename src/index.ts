@@ -78,7 +78,14 @@ export class ModularPlugin {
    * Example: Generate citation using CitationGenerator service
    */
   async generateCitationForItems(items: any[], format: 'markdown' | 'html' | 'plain' = 'markdown'): Promise<boolean> {
-    return await this.serviceManager.citationGenerator.generateAndCopyMarkdownLink(items, format)
+    return await this.serviceManager.citationGenerator.generateAndCopyMarkdownLink(
+      items,
+      format,
+      undefined,
+      undefined,
+      undefined,
+      this.serviceManager.citationKeyService.canStoreCitationKeys(items),
+    )
   }
 
   /**
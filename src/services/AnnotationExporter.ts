@@ -0,0 +1,256 @@
+import { IService } from '../core/types'
+import { serviceLogger as logger } from '../core/Logger'
+import { ANNOTATION_EXPORT } from '../config/constants'
+import { CitationGenerator } from './CitationGenerator'
+
+export interface AnnotationData {
+  key: string
+  type: string
+  text: string
+  comment: string
+  color: string
+  colorName: string
+  pageLabel: string
+  pageIndex: number | null
+  attachmentKey: string
+  attachmentTitle: string
+  tags: string[]
+  citation: string
+  link: string
+  markdown: string
+}
+
+export interface AnnotationExportResult {
+  itemKey: string
+  title: string
+  attachmentCount: number
+  annotationCount: number
+  annotations: AnnotationData[]
+  markdown: string
+}
+
+/**
+ * Service for turning PDF/EPUB annotations into cited Markdown blockquotes
+ */
+export class AnnotationExporter implements IService {
+  private initialized = false
+  private citationGenerator: CitationGenerator
+
+  constructor(citationGenerator: CitationGenerator) {
+    this.citationGenerator = citationGenerator
+  }
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return
+
+    logger.info('Initializing AnnotationExporter service')
+    this.initialized = true
+  }
+
+  async cleanup(): Promise<void> {
+    logger.info('Cleaning up AnnotationExporter service')
+    this.initialized = false
+  }
+
+  isInitialized(): boolean {
+    return this.initialized
+  }
+
+  /**
+   * Collect the annotations of an item's PDF/EPUB attachments
+   * @param item - Regular item, or a PDF/EPUB attachment
+   * @param citationStyle - CSL style for the citations (defaults to the Quick Copy style)
+   * @returns Annotations with Markdown blocks
+   */
+  async exportItemAnnotations(item: any, citationStyle?: string): Promise<AnnotationExportResult> {
+    // Attachments are cited through their parent item when they have one
+    const citedItem = item.isAttachment() && item.parentItem ? item.parentItem : item
+    const attachments = await this.getReaderAttachments(item)
+
+    const annotations: AnnotationData[] = []
+    for (const attachment of attachments) {
+      const attachmentAnnotations = attachment.getAnnotations()
+        .filter((annotation: any) => ANNOTATION_EXPORT.TYPES.includes(annotation.annotationType))
+        .sort((a: any, b: any) => (a.annotationSortIndex || '').localeCompare(b.annotationSortIndex || ''))
+
+      if (attachmentAnnotations.length === 0) continue
+
+      const pageCitations = citedItem.isRegularItem()
+        ? await this.citationGenerator.generatePageCitations(
+          citedItem,
+          attachmentAnnotations.map((annotation: any) => annotation.annotationPageLabel),
+          citationStyle,
+        )
+        : {}
+      const baseCitation = await this.getBaseCitation(citedItem, citationStyle)
+
+      for (const annotation of attachmentAnnotations) {
+        annotations.push(this.buildAnnotationData(annotation, attachment, pageCitations, baseCitation))
+      }
+    }
+
+    logger.info(`Collected ${annotations.length} annotation(s) from ${attachments.length} attachment(s) of item ${item.key}`)
+
+    return {
+      itemKey: citedItem.key,
+      title: citedItem.getField('title') || '',
+      attachmentCount: attachments.length,
+      annotationCount: annotations.length,
+      annotations,
+      markdown: annotations.map(annotation => annotation.markdown).join('\n\n'),
+    }
+  }
+
+  /**
+   * Export the annotations of several selected items as one Markdown string
+   * @param items - Selected items (regular items and attachments)
+   * @param citationStyle - CSL style for the citations
+   * @returns Markdown blocks, empty when no annotations were found
+   */
+  async exportSelectionMarkdown(items: any[], citationStyle?: string): Promise<string> {
+    // A parent and one of its attachments may both be selected
+    const seen = new Set<number>()
+    const blocks: string[] = []
+
+    for (const item of items) {
+      if (!item.isRegularItem() && !item.isAttachment()) continue
+
+      const attachments = await this.getReaderAttachments(item)
+      if (attachments.every(attachment => seen.has(attachment.id))) continue
+      attachments.forEach(attachment => seen.add(attachment.id))
+
+      const result = await this.exportItemAnnotations(item, citationStyle)
+      if (result.markdown) {
+        blocks.push(result.markdown)
+      }
+    }
+
+    return blocks.join('\n\n')
+  }
+
+  /**
+   * Get the PDF and EPUB attachments of an item
+   * @param item - Regular item, or an attachment
+   * @returns Attachment items that can carry annotations
+   */
+  async getReaderAttachments(item: any): Promise<any[]> {
+    const isReaderAttachment = (attachment: any) =>
+      attachment.isAttachment() && ANNOTATION_EXPORT.READER_TYPES.includes(attachment.attachmentReaderType)
+
+    if (item.isAttachment()) {
+      return isReaderAttachment(item) ? [item] : []
+    }
+
+    if (!item.isRegularItem()) {
+      return []
+    }
+
+    const attachments = await Zotero.Items.getAsync(item.getAttachments())
+    return attachments.filter(isReaderAttachment)
+  }
+
+  /**
+   * Build the API/Markdown representation of one annotation
+   * @param annotation - Annotation item
+   * @param attachment - Parent attachment
+   * @param pageCitations - Citations keyed by page label
+   * @param baseCitation - Citation without a locator
+   * @returns Annotation data
+   */
+  private buildAnnotationData(
+    annotation: any,
+    attachment: any,
+    pageCitations: Record<string, string>,
+    baseCitation: string,
+  ): AnnotationData {
+    const pageLabel = annotation.annotationPageLabel || ''
+    const pageIndex = this.getPageIndex(annotation)
+    const color = (annotation.annotationColor || '').toLowerCase()
+    const colorName = ANNOTATION_EXPORT.COLOR_NAMES[color] || color
+
+    const citation = pageCitations[pageLabel] || baseCitation
+    const link = this.citationGenerator.generateOpenReaderUrl(
+      attachment,
+      pageIndex !== null ? pageIndex + 1 : undefined,
+      annotation.key,
+    )
+
+    const data: AnnotationData = {
+      key: annotation.key,
+      type: annotation.annotationType,
+      text: annotation.annotationText || '',
+      comment: annotation.annotationComment || '',
+      color,
+      colorName,
+      pageLabel,
+      pageIndex,
+      attachmentKey: attachment.key,
+      attachmentTitle: attachment.getField('title') || '',
+      tags: annotation.getTags().map((tag: any) => tag.tag),
+      citation,
+      link,
+      markdown: '',
+    }
+    data.markdown = this.formatMarkdown(data)
+
+    return data
+  }
+
+  /**
+   * Format an annotation as a Markdown blockquote
+   * @param annotation - Annotation data
+   * @returns Markdown blockquote
+   */
+  private formatMarkdown(annotation: AnnotationData): string {
+    const lines: string[] = []
+
+    if (annotation.type === 'image') {
+      lines.push('*[Image annotation]*')
+    } else if (annotation.text) {
+      lines.push(...annotation.text.split(/\r?\n/))
+    }
+
+    if (annotation.comment) {
+      // Standalone notes have no text, so their comment is the quote body
+      if (lines.length > 0) lines.push('')
+      const commentLines = annotation.comment.split(/\r?\n/)
+      lines.push(...(annotation.type === 'note' ? commentLines : [`**Comment:** ${commentLines[0]}`, ...commentLines.slice(1)]))
+    }
+
+    const details = [annotation.type, annotation.colorName].filter(Boolean).join(', ')
+    if (lines.length > 0) lines.push('')
+    lines.push(`— [${annotation.citation}](${annotation.link})${details ? ` · ${details}` : ''}`)
+
+    return lines.map(line => (line ? `> ${line}` : '>')).join('\n')
+  }
+
+  /**
+   * Read the zero-based page index from an annotation position
+   * @param annotation - Annotation item
+   * @returns Page index or null (e.g. EPUB annotations)
+   */
+  private getPageIndex(annotation: any): number | null {
+    try {
+      const position = JSON.parse(annotation.annotationPosition || '{}')
+      return typeof position.pageIndex === 'number' ? position.pageIndex : null
+    } catch (error) {
+      logger.debug(`Could not parse position of annotation ${annotation.key}: ${error}`)
+      return null
+    }
+  }
+
+  /**
+   * Citation used when an annotation has no page label
+   * @param item - Cited item
+   * @param citationStyle - CSL style
+   * @returns Citation text
+   */
+  private async getBaseCitation(item: any, citationStyle?: string): Promise<string> {
+    if (!item.isRegularItem()) {
+      return item.getField('title') || item.key
+    }
+
+    const result = await this.citationGenerator.generateProfessionalCitations([item], citationStyle)
+    return result.citations[0] || this.citationGenerator.generateFallbackCitation(item)
+  }
+}
@@ -3,6 +3,7 @@ import { ServiceManager } from '../core/ServiceManager'
 import { serviceLogger as logger } from '../core/Logger'
 import { DEFAULT_API_PORT } from '../config/constants'
 // Import all endpoints
+import { BaseEndpoint } from '../api/BaseEndpoint'
 import { ProcessUrlEndpoint } from '../api/endpoints/ProcessUrlEndpoint'
 import { PreviewUrlEndpoint } from '../api/endpoints/PreviewUrlEndpoint'
 import { ProcessUrlWithAiEndpoint } from '../api/endpoints/ProcessUrlWithAiEndpoint'
@@ -10,12 +11,30 @@ import { AnalyzeUrlEndpoint } from '../api/endpoints/AnalyzeUrlEndpoint'
 import { ProcessIdentifierEndpoint } from '../api/endpoints/ProcessIdentifierEndpoint'
 import { PreviewIdentifierEndpoint } from '../api/endpoints/PreviewIdentifierEndpoint'
 import { PreviewPdfEndpoint } from '../api/endpoints/PreviewPdfEndpoint'
+import { ImportPdfEndpoint } from '../api/endpoints/ImportPdfEndpoint'
 import { DetectIdentifierEndpoint } from '../api/endpoints/DetectIdentifierEndpoint'
 import { SaveWebpageEndpoint } from '../api/endpoints/SaveWebpageEndpoint'
 import { ItemKeyByUrlEndpoint } from '../api/endpoints/ItemKeyByUrlEndpoint'
 import { DeleteItemEndpoint } from '../api/endpoints/DeleteItemEndpoint'
 import { GetItemEndpoint } from '../api/endpoints/GetItemEndpoint'
 import { EditItemEndpoint } from '../api/endpoints/EditItemEndpoint'
+import { CiteEndpoint } from '../api/endpoints/CiteEndpoint'
+import { ExportEndpoint } from '../api/endpoints/ExportEndpoint'
+import { AnnotationsEndpoint } from '../api/endpoints/AnnotationsEndpoint'
+import { BatchEndpoint } from '../api/endpoints/BatchEndpoint'
+import { JobsEndpoint } from '../api/endpoints/JobsEndpoint'
+import { JobStatusEndpoint } from '../api/endpoints/JobStatusEndpoint'
+import { SearchEndpoint } from '../api/endpoints/SearchEndpoint'
+import { CollectionsEndpoint } from '../api/endpoints/CollectionsEndpoint'
+import { CollectionEndpoint } from '../api/endpoints/CollectionEndpoint'
+import { CollectionItemsEndpoint } from '../api/endpoints/CollectionItemsEndpoint'
+import { NotesEndpoint } from '../api/endpoints/NotesEndpoint'
+import { NoteEndpoint } from '../api/endpoints/NoteEndpoint'
+import { AttachmentsEndpoint } from '../api/endpoints/AttachmentsEndpoint'
+import { OpenApiEndpoint } from '../api/endpoints/OpenApiEndpoint'
+import { ApiExplorerEndpoint } from '../api/endpoints/ApiExplorerEndpoint'
+import { EventsEndpoint } from '../api/endpoints/EventsEndpoint'
+import { WebhooksEndpoint } from '../api/endpoints/WebhooksEndpoint'
 
 /**
  * API Server service for managing HTTP endpoints
@@ -107,12 +126,30 @@ export class ApiServer implements IService {
       ProcessIdentifierEndpoint,
       PreviewIdentifierEndpoint,
       PreviewPdfEndpoint,
+      ImportPdfEndpoint,
       DetectIdentifierEndpoint,
       SaveWebpageEndpoint,
       ItemKeyByUrlEndpoint,
       DeleteItemEndpoint,
       GetItemEndpoint,
       EditItemEndpoint,
+      CiteEndpoint,
+      ExportEndpoint,
+      AnnotationsEndpoint,
+      BatchEndpoint,
+      JobsEndpoint,
+      JobStatusEndpoint,
+      SearchEndpoint,
+      CollectionsEndpoint,
+      CollectionEndpoint,
+      CollectionItemsEndpoint,
+      NotesEndpoint,
+      NoteEndpoint,
+      AttachmentsEndpoint,
+      OpenApiEndpoint,
+      ApiExplorerEndpoint,
+      EventsEndpoint,
+      WebhooksEndpoint,
     ]
 
     logger.info(`Initializing ${endpointClasses.length} API endpoints`)
@@ -197,6 +234,14 @@ export class ApiServer implements IService {
     return endpoint?.instance
   }
 
+  /**
+   * Get all registered endpoint instances
+   * @returns Endpoint instances in registration order
+   */
+  getEndpoints(): BaseEndpoint[] {
+    return this.endpoints.map(({ instance }) => instance)
+  }
+
   /**
    * List all registered endpoints
    * @returns Array of endpoint information
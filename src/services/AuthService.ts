@@ -0,0 +1,140 @@
+import { ApiScope, ApiToken, AuthenticationError, AuthorizationError, IService } from '../core/types'
+import { serviceLogger as logger } from '../core/Logger'
+import { API_AUTH } from '../config/constants'
+import { HeaderUtils } from '../utils/HeaderUtils'
+
+const TOKENS_PREF = 'apiTokens'
+
+/**
+ * Service for API token authentication
+ * Tokens are kept in the apiTokens preference as a JSON array of { name, token, scopes },
+ * with scopes from read, write, delete and ai. While no tokens are configured the API stays open.
+ */
+export class AuthService implements IService {
+  private initialized = false
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return
+
+    logger.info('Initializing AuthService')
+    if (!this.isEnabled()) {
+      logger.warn('No API tokens configured, the HTTP API accepts requests from any local client')
+    }
+    this.initialized = true
+  }
+
+  async cleanup(): Promise<void> {
+    logger.info('Cleaning up AuthService')
+    this.initialized = false
+  }
+
+  isInitialized(): boolean {
+    return this.initialized
+  }
+
+  /**
+   * Get the configured tokens, skipping malformed entries
+   * @returns Valid tokens
+   */
+  getTokens(): ApiToken[] {
+    let stored: any[] = []
+    try {
+      const value = Zotero.Prefs.get(TOKENS_PREF) as string
+      if (value) {
+        stored = JSON.parse(value)
+      }
+    } catch (error) {
+      logger.error(`Error reading API tokens: ${error}`)
+      // Fail closed: a broken token list must not open the API
+      return [{ name: 'invalid-configuration', token: '', scopes: [] }]
+    }
+
+    if (!Array.isArray(stored)) {
+      logger.error('API tokens preference must be a JSON array')
+      return [{ name: 'invalid-configuration', token: '', scopes: [] }]
+    }
+
+    return stored
+      .filter(entry => entry && typeof entry.token === 'string' && entry.token.length > 0)
+      .map(entry => ({
+        name: typeof entry.name === 'string' && entry.name ? entry.name : 'unnamed',
+        token: entry.token,
+        scopes: Array.isArray(entry.scopes)
+          ? entry.scopes.filter((scope: any) => API_AUTH.SCOPES.includes(scope))
+          : [],
+      }))
+  }
+
+  /**
+   * Check whether token authentication is enforced
+   * @returns True when at least one token is configured
+   */
+  isEnabled(): boolean {
+    try {
+      const value = Zotero.Prefs.get(TOKENS_PREF) as string
+      return !!value && value.trim() !== '' && value.trim() !== '[]'
+    } catch (error) {
+      logger.error(`Error reading API tokens: ${error}`)
+      return true
+    }
+  }
+
+  /**
+   * Authenticate a request and check that its token grants the required scopes
+   * @param headers - Request headers
+   * @param requiredScopes - Scopes the endpoint needs for this request
+   * @returns The matching token, or null when authentication is disabled or no scope is required
+   * @throws AuthenticationError when the token is missing or unknown
+   * @throws AuthorizationError when the token lacks a required scope
+   */
+  authorize(headers: any, requiredScopes: ApiScope[]): ApiToken | null {
+    if (!this.isEnabled() || requiredScopes.length === 0) return null
+
+    const provided = this.getRequestToken(headers)
+    if (!provided) {
+      throw new AuthenticationError(`API token required (Authorization: Bearer <token> or ${API_AUTH.TOKEN_HEADER} header)`)
+    }
+
+    const token = this.getTokens().find(candidate => this.tokensEqual(candidate.token, provided))
+    if (!token) {
+      throw new AuthenticationError('Invalid API token')
+    }
+
+    const missing = requiredScopes.filter(scope => !token.scopes.includes(scope))
+    if (missing.length > 0) {
+      throw new AuthorizationError(`Token "${token.name}" lacks the required scope(s): ${missing.join(', ')}`)
+    }
+
+    return token
+  }
+
+  /**
+   * Read the token from the Authorization or X-Citation-Linker-Token header
+   * @param headers - Request headers (Headers object or plain object)
+   * @returns Token or null
+   */
+  private getRequestToken(headers: any): string | null {
+    const authorization = HeaderUtils.getHeader(headers, 'Authorization')
+    const bearer = authorization?.match(/^Bearer\s+(\S+)\s*$/i)
+    if (bearer) {
+      return bearer[1]
+    }
+    return HeaderUtils.getHeader(headers, API_AUTH.TOKEN_HEADER)?.trim() || null
+  }
+
+  /**
+   * Compare tokens in constant time
+   * @param expected - Configured token
+   * @param provided - Token from the request
+   * @returns True if equal
+   */
+  private tokensEqual(expected: string, provided: string): boolean {
+    if (!expected || expected.length !== provided.length) return false
+
+    let difference = 0
+    for (let i = 0; i < expected.length; i++) {
+      difference |= expected.charCodeAt(i) ^ provided.charCodeAt(i)
+    }
+    return difference === 0
+  }
+}
@@ -0,0 +1,152 @@
+import { IService, ExportFormat, PluginError } from '../core/types'
+import { serviceLogger as logger } from '../core/Logger'
+import { EXPORT_FORMATS } from '../config/constants'
+
+export interface ExportResult {
+  format: ExportFormat
+  label: string
+  contentType: string
+  extension: string
+  itemCount: number
+  itemKeys: string[]
+  content: string
+}
+
+export interface ExportOptions {
+  includeNotes?: boolean
+}
+
+/**
+ * Service for serializing items with Zotero's built-in export translators
+ */
+export class BibliographyExporter implements IService {
+  private initialized = false
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return
+
+    logger.info('Initializing BibliographyExporter service')
+    this.initialized = true
+  }
+
+  async cleanup(): Promise<void> {
+    logger.info('Cleaning up BibliographyExporter service')
+    this.initialized = false
+  }
+
+  isInitialized(): boolean {
+    return this.initialized
+  }
+
+  /**
+   * Normalize a user supplied format name (e.g. "CSL-JSON", "BibLaTeX")
+   * @param format - Format name
+   * @returns Export format key or null if unsupported
+   */
+  resolveFormat(format: string): ExportFormat | null {
+    const normalized = String(format || '').toLowerCase().replace(/[^a-z]/g, '')
+    return normalized in EXPORT_FORMATS ? normalized as ExportFormat : null
+  }
+
+  /**
+   * Get the list of supported export format keys
+   * @returns Supported format keys
+   */
+  getSupportedFormats(): ExportFormat[] {
+    return Object.keys(EXPORT_FORMATS) as ExportFormat[]
+  }
+
+  /**
+   * Collect the top-level regular items of a collection
+   * @param libraryID - Library containing the collection
+   * @param collectionKey - Collection key
+   * @param recursive - Include items from subcollections
+   * @returns Array of Zotero items, or null if the collection does not exist
+   */
+  async getCollectionItems(libraryID: number, collectionKey: string, recursive: boolean = false): Promise<any[] | null> {
+    const collection = await Zotero.Collections.getByLibraryAndKeyAsync(libraryID, collectionKey)
+    if (!collection) {
+      return null
+    }
+
+    const items: any[] = collection.getChildItems(false, false)
+    if (recursive) {
+      for (const subcollection of collection.getChildCollections(false, false)) {
+        const childItems = await this.getCollectionItems(libraryID, subcollection.key, true)
+        items.push(...(childItems || []))
+      }
+    }
+
+    // Items can live in several subcollections - keep the first occurrence only
+    const seen = new Set<number>()
+    return items.filter(item => {
+      if (!item.isRegularItem() || seen.has(item.id)) return false
+      seen.add(item.id)
+      return true
+    })
+  }
+
+  /**
+   * Find regular items carrying all of the given tags
+   * @param libraryID - Library to search
+   * @param tags - Tag names (all must match)
+   * @returns Array of Zotero items
+   */
+  async getTaggedItems(libraryID: number, tags: string[]): Promise<any[]> {
+    const search = new Zotero.Search()
+    search.libraryID = libraryID
+    for (const tag of tags) {
+      search.addCondition('tag', 'is', tag)
+    }
+    search.addCondition('itemType', 'isNot', 'attachment')
+    search.addCondition('itemType', 'isNot', 'note')
+
+    const itemIDs = await search.search()
+    const items = await Zotero.Items.getAsync(itemIDs)
+    return items.filter((item: any) => item.isRegularItem())
+  }
+
+  /**
+   * Serialize items with the export translator for the given format
+   * @param items - Array of Zotero items
+   * @param format - Export format key
+   * @param options - Export options
+   * @returns Export result with the serialized content
+   */
+  async exportItems(items: any[], format: ExportFormat, options: ExportOptions = {}): Promise<ExportResult> {
+    const formatConfig = EXPORT_FORMATS[format]
+    if (!formatConfig) {
+      throw new PluginError(`Unsupported export format: ${format}`, 400)
+    }
+
+    logger.info(`Exporting ${items.length} item(s) as ${formatConfig.label}`)
+
+    let content = ''
+    if (items.length > 0) {
+      const translation = new Zotero.Translate.Export()
+      translation.setItems(items)
+      translation.setTranslator(formatConfig.translatorID)
+      if (typeof options.includeNotes === 'boolean') {
+        translation.setDisplayOptions({ exportNotes: options.includeNotes })
+      }
+
+      try {
+        await translation.translate()
+      } catch (error) {
+        throw new PluginError(`${formatConfig.label} export failed: ${error}`, 500)
+      }
+
+      content = translation.string || ''
+    }
+
+    return {
+      format,
+      label: formatConfig.label,
+      contentType: formatConfig.contentType,
+      extension: formatConfig.extension,
+      itemCount: items.length,
+      itemKeys: items.map(item => item.key),
+      content,
+    }
+  }
+}
@@ -1,21 +1,72 @@
-import { IService, CitationFormat } from '../core/types'
+import { IService, CitationFormat, LinkTarget } from '../core/types'
 import { serviceLogger as logger } from '../core/Logger'
-import { CITATION_FORMATS } from '../config/constants'
+import { CITATION_FORMATS, CSL_CONFIG, DEFAULT_PREFERENCES, LINK_TARGETS } from '../config/constants'
 import { StringUtils } from '../utils/StringUtils'
+import { TemplateRenderer } from '../utils/TemplateRenderer'
+import { CitationKeyService } from './CitationKeyService'
 
 export interface CitationResult {
   success: boolean
   citations: string[]
+  bibliography?: string[]
   format: string
   style: string
+  locale?: string
   warning?: string
 }
 
+export interface FormattedCitationResult {
+  output: string
+  entries: Array<{
+    itemKey: string
+    citation: string
+    bibliography?: string
+    citationKey: string | null
+    apiUrl: string
+    link: string
+    formatted: string
+  }>
+  format: CitationFormat
+  style: string
+  locale?: string
+  warning?: string
+}
+
+export interface TemplatedCitationResult {
+  output: string
+  entries: Array<{
+    itemKey: string
+    values: Record<string, string>
+    formatted: string
+  }>
+  style: string
+  locale?: string
+  warning?: string
+}
+
+export interface CitationLinkOptions {
+  target?: LinkTarget
+  page?: number
+}
+
+export interface PandocCitationOptions {
+  prefix?: string
+  locator?: string
+  label?: string
+  suffix?: string
+  suppressAuthor?: boolean
+}
+
 /**
  * Service for generating citations in various formats
  */
 export class CitationGenerator implements IService {
   private initialized = false
+  private citationKeyService: CitationKeyService
+
+  constructor(citationKeyService: CitationKeyService) {
+    this.citationKeyService = citationKeyService
+  }
 
   async initialize(): Promise<void> {
     if (this.initialized) return
@@ -34,12 +85,18 @@ export class CitationGenerator implements IService {
    * @param items - Array of Zotero items
    * @param format - Output format (markdown, html, plain)
    * @param citationStyle - Citation style to use
+   * @param citationOptions - Pandoc prefix/locator/suffix options keyed by item key
+   * @param linkOptions - Link target override and PDF page
+   * @param saveCitationKeys - Store generated citation keys, so the copied Pandoc keys match exports
    * @returns Success status
    */
   async generateAndCopyMarkdownLink(
     items: any[],
     format: CitationFormat = 'markdown',
     citationStyle?: string,
+    citationOptions: Record<string, PandocCitationOptions> = {},
+    linkOptions: CitationLinkOptions = {},
+    saveCitationKeys = false,
   ): Promise<boolean> {
     logger.info(`Generating ${format} citation for ${items.length} item(s)`)
 
@@ -49,33 +106,14 @@ export class CitationGenerator implements IService {
     }
 
     try {
-      // Generate professional citations
-      const citationResults = await this.generateProfessionalCitations(items, citationStyle)
-
-      if (!citationResults.success) {
-        throw new Error('Citation generation failed')
-      }
-
-      let finalOutput: string
-
-      if (items.length === 1) {
-        // Single item - create formatted link
-        const item = items[0]
-        const citation = citationResults.citations[0]
-        const apiUrl = this.generateApiUrl(item)
-
-        finalOutput = this.formatSingleCitation(citation, apiUrl, format)
-      } else {
-        // Multiple items - create formatted list
-        const formattedItems = items.map((item, index) => {
-          const citation = citationResults.citations[index]
-          const apiUrl = this.generateApiUrl(item)
-
-          return this.formatSingleCitation(citation, apiUrl, format, true)
-        })
-
-        finalOutput = this.formatMultipleCitations(formattedItems, format)
-      }
+      const { output: finalOutput } = await this.generateFormattedCitations(
+        items,
+        format,
+        citationStyle,
+        citationOptions,
+        linkOptions,
+        saveCitationKeys,
+      )
 
       // Copy to clipboard
       await this.copyToClipboard(finalOutput)
@@ -99,50 +137,433 @@ export class CitationGenerator implements IService {
   }
 
   /**
-   * Generate professional citations for items
+   * Render items with a citation template and copy the result to clipboard
+   * @param items - Array of Zotero items
+   * @param template - Template string (see TemplateRenderer)
+   * @param citationStyle - Citation style to use
+   * @param linkOptions - Link target and PDF page for the {{link}} placeholder
+   * @param saveCitationKeys - Store generated citation keys, so copied {{citekey}} values match exports
+   * @returns Success status
+   */
+  async generateAndCopyTemplate(
+    items: any[],
+    template: string,
+    citationStyle?: string,
+    linkOptions: CitationLinkOptions = {},
+    saveCitationKeys = false,
+  ): Promise<boolean> {
+    logger.info(`Generating templated citation for ${items.length} item(s)`)
+
+    if (!items || items.length === 0) {
+      logger.error('No items provided')
+      return false
+    }
+
+    try {
+      const { output } = await this.generateTemplatedCitations(
+        items,
+        template,
+        citationStyle,
+        linkOptions,
+        saveCitationKeys,
+      )
+      await this.copyToClipboard(output)
+
+      logger.info(`Generated templated citation: ${StringUtils.truncate(output, 200)}...`)
+      return true
+    } catch (error) {
+      logger.error(`Error generating templated citation: ${error}`)
+      return false
+    }
+  }
+
+  /**
+   * Render items with a citation template, one line per item
+   * Placeholders: citation, bibliography, title, year, date, authors, doi, url,
+   * link, apiUrl, zoteroSelectUrl, pdfUrl, webUrl, citekey and itemKey
+   * @param items - Array of Zotero items
+   * @param template - Template string (see TemplateRenderer)
+   * @param citationStyle - Citation style to use
+   * @param linkOptions - Link target and PDF page for the {{link}} placeholder
+   * @param saveCitationKeys - Store generated citation keys instead of only computing them
+   * @returns Combined output plus per-item placeholder values
+   */
+  async generateTemplatedCitations(
+    items: any[],
+    template: string,
+    citationStyle?: string,
+    linkOptions: CitationLinkOptions = {},
+    saveCitationKeys = false,
+  ): Promise<TemplatedCitationResult> {
+    const citationResults = await this.generateProfessionalCitations(items, citationStyle)
+
+    if (!citationResults.success) {
+      throw new Error('Citation generation failed')
+    }
+
+    // A bare {{citekey}} placeholder needs a key; sections like {{#citekey}} tolerate missing ones
+    const requiresCitationKey = TemplateRenderer.getPlaceholders(template).includes('citekey')
+    const citationKeys: Array<string | null> = requiresCitationKey
+      ? await this.citationKeyService.resolveCitationKeys(items, saveCitationKeys)
+      : items.map(item => this.citationKeyService.getCitationKey(item))
+    const linkTarget = linkOptions.target || this.getLinkTarget()
+
+    const entries = []
+    for (const [index, item] of items.entries()) {
+      const citationKey = citationKeys[index]
+
+      const pdfUrl = await this.generatePdfUrl(item, linkOptions.page)
+      const values = this.getTemplateValues(item, {
+        citation: citationResults.citations[index],
+        bibliography: citationResults.bibliography?.[index] || '',
+        citekey: citationKey || '',
+        pdfUrl: pdfUrl || '',
+        link: linkTarget === LINK_TARGETS.PDF && pdfUrl
+          ? pdfUrl
+          : await this.generateLinkUrl(item, linkTarget, linkOptions.page),
+      })
+
+      entries.push({
+        itemKey: item.key,
+        values,
+        formatted: TemplateRenderer.render(template, values),
+      })
+    }
+
+    return {
+      output: entries.map(entry => entry.formatted).join('\n'),
+      entries,
+      style: citationResults.style,
+      locale: citationResults.locale,
+      warning: citationResults.warning,
+    }
+  }
+
+  /**
+   * Collect template placeholder values for an item
+   * @param item - Zotero item
+   * @param generated - Values produced by citation processing
+   * @returns Placeholder values
+   */
+  private getTemplateValues(item: any, generated: Record<string, string>): Record<string, string> {
+    const date = item.getField('date') || ''
+    const yearMatch = String(date).match(/\d{4}/)
+
+    return {
+      ...generated,
+      itemKey: item.key,
+      title: item.getField('title') || '',
+      date,
+      year: yearMatch ? yearMatch[0] : '',
+      authors: item.getField('firstCreator') || '',
+      doi: this.getOptionalField(item, 'DOI'),
+      url: this.getOptionalField(item, 'url'),
+      apiUrl: this.generateApiUrl(item),
+      zoteroSelectUrl: this.generateSelectUrl(item),
+      webUrl: this.generateWebLibraryUrl(item),
+    }
+  }
+
+  /**
+   * Read a field that may not exist for the item type
+   * @param item - Zotero item
+   * @param field - Field name
+   * @returns Field value or empty string
+   */
+  private getOptionalField(item: any, field: string): string {
+    try {
+      return item.getField(field) || ''
+    } catch (error) {
+      logger.debug(`Field ${field} not available for item ${item.key}: ${error}`)
+      return ''
+    }
+  }
+
+  /**
+   * Generate formatted citation links for items without copying them
    * @param items - Array of Zotero items
+   * @param format - Output format
    * @param citationStyle - Citation style to use
+   * @param citationOptions - Pandoc prefix/locator/suffix options keyed by item key
+   * @param linkOptions - Link target override (defaults to the per-format preference) and PDF page
+   * @param saveCitationKeys - Store generated citation keys instead of only computing them
+   * @returns Combined output plus per-item citation details
+   */
+  async generateFormattedCitations(
+    items: any[],
+    format: CitationFormat = 'markdown',
+    citationStyle?: string,
+    citationOptions: Record<string, PandocCitationOptions> = {},
+    linkOptions: CitationLinkOptions = {},
+    saveCitationKeys = false,
+  ): Promise<FormattedCitationResult> {
+    const citationResults = await this.generateProfessionalCitations(items, citationStyle)
+
+    if (!citationResults.success) {
+      throw new Error('Citation generation failed')
+    }
+
+    // Pandoc citations cannot be written without a key, so generate missing ones
+    const citationKeys: Array<string | null> = format === CITATION_FORMATS.PANDOC
+      ? await this.citationKeyService.resolveCitationKeys(items, saveCitationKeys)
+      : items.map(item => this.citationKeyService.getCitationKey(item))
+
+    const linkTarget = linkOptions.target || this.getLinkTarget(format)
+    const links: string[] = []
+    for (const item of items) {
+      links.push(await this.generateLinkUrl(item, linkTarget, linkOptions.page))
+    }
+
+    const isList = items.length > 1
+    const entries = items.map((item, index) => {
+      const citation = citationResults.citations[index]
+      const apiUrl = this.generateApiUrl(item)
+      const link = links[index]
+      const citationKey = citationKeys[index]
+
+      return {
+        itemKey: item.key,
+        citation,
+        bibliography: citationResults.bibliography?.[index],
+        citationKey,
+        apiUrl,
+        link,
+        formatted: this.formatSingleCitation(
+          citation,
+          link,
+          format,
+          isList,
+          citationKey,
+          citationOptions[item.key],
+        ),
+      }
+    })
+
+    const output = isList
+      ? this.formatMultipleCitations(entries.map(entry => entry.formatted), format)
+      : entries[0]?.formatted || ''
+
+    return {
+      output,
+      entries,
+      format,
+      style: citationResults.style,
+      locale: citationResults.locale,
+      warning: citationResults.warning,
+    }
+  }
+
+  /**
+   * Generate professional citations for items
+   * Renders in-text citations and bibliography entries with Zotero's CSL processor,
+   * falling back to author-year citations when the style cannot be loaded
+   * @param items - Array of Zotero items
+   * @param citationStyle - CSL style ID (full URI or short name); defaults to the Quick Copy style
    * @returns Citation results
    */
   async generateProfessionalCitations(items: any[], citationStyle?: string): Promise<CitationResult> {
+    const styleID = this.resolveStyleID(citationStyle)
+    const locale = this.getQuickCopyLocale()
+
+    logger.info(`Generating professional citations for ${items.length} item(s) with style: ${styleID} (${locale})`)
+
+    let style: any = null
     try {
-      logger.info(`Generating professional citations for ${items.length} item(s) with style: ${citationStyle || 'default'}`)
+      style = await this.loadStyle(styleID)
+    } catch (error) {
+      logger.error(`Error loading citation style ${styleID}: ${error}`)
+    }
 
-      // Generate inline citations using enhanced fallback method
-      const citations: string[] = []
+    if (!style) {
+      logger.warn(`Citation style ${styleID} could not be loaded, using fallback citations`)
+      return this.generateFallbackCitations(items, `Citation style not available: ${styleID}`)
+    }
 
-      for (const item of items) {
-        try {
-          const citation = this.generateFallbackCitation(item)
-          citations.push(citation)
-          logger.debug(`Generated citation for item ${item.key}: ${StringUtils.truncate(citation, 100)}...`)
-        } catch (error) {
-          logger.error(`Error generating citation for item ${item.key}: ${error}`)
-          // Use basic fallback citation for this item
-          const fallbackCitation = this.generateBasicFallbackCitation(item)
-          citations.push(fallbackCitation)
-        }
-      }
+    try {
+      const { citations, bibliography } = this.renderWithCiteProc(items, style, locale)
 
       return {
         success: true,
-        citations: citations,
-        format: 'inline-fallback',
-        style: citationStyle || 'enhanced-fallback',
+        citations,
+        bibliography,
+        format: 'csl',
+        style: style.styleID,
+        locale,
       }
     } catch (error) {
-      logger.error(`Error in professional citation generation: ${error}`)
+      logger.error(`Error in CSL citation generation: ${error}`)
+      return this.generateFallbackCitations(items, `Used fallback citation due to error: ${error}`)
+    }
+  }
 
-      // Return fallback citations for all items
-      const fallbackCitations = items.map(item => this.generateBasicFallbackCitation(item))
+  /**
+   * Generate in-text citations with page locators for a single item, e.g. "(Smith, 2020, p. 33)"
+   * @param item - Zotero item
+   * @param pages - Page labels to cite
+   * @param citationStyle - CSL style ID (full URI or short name); defaults to the Quick Copy style
+   * @returns Map of page label to citation
+   */
+  async generatePageCitations(item: any, pages: string[], citationStyle?: string): Promise<Record<string, string>> {
+    const uniquePages = Array.from(new Set(pages.filter(Boolean)))
+    const citations: Record<string, string> = {}
 
-      return {
-        success: true,
-        citations: fallbackCitations,
-        format: 'inline-fallback',
-        style: 'enhanced-fallback',
-        warning: `Used fallback citation due to error: ${error}`,
+    let style: any = null
+    try {
+      style = await this.loadStyle(this.resolveStyleID(citationStyle))
+    } catch (error) {
+      logger.error(`Error loading citation style for page citations: ${error}`)
+    }
+
+    if (style) {
+      const cslEngine = style.getCiteProc(this.getQuickCopyLocale(), 'text')
+      try {
+        cslEngine.updateItems([item.id])
+        for (const page of uniquePages) {
+          const citation = cslEngine.previewCitationCluster(
+            { citationItems: [{ id: item.id, locator: page, label: 'page' }], properties: { noteIndex: 0 } },
+            [],
+            [],
+            'text',
+          )
+          if (citation && citation.trim()) {
+            citations[page] = citation.trim()
+          }
+        }
+      } catch (error) {
+        logger.error(`Error generating page citations with CSL: ${error}`)
+      } finally {
+        if (typeof cslEngine.free === 'function') {
+          cslEngine.free()
+        }
+      }
+    }
+
+    // Anything the CSL engine could not render gets the page appended to the plain citation
+    const missing = uniquePages.filter(page => !citations[page])
+    if (missing.length > 0) {
+      const base = (await this.generateProfessionalCitations([item], citationStyle)).citations[0]
+        || this.generateFallbackCitation(item)
+      for (const page of missing) {
+        citations[page] = /\)$/.test(base) ? base.replace(/\)$/, `, p. ${page})`) : `${base}, p. ${page}`
+      }
+    }
+
+    return citations
+  }
+
+  /**
+   * Render in-text citations and bibliography entries with a CSL engine
+   * @param items - Array of Zotero items
+   * @param style - Loaded Zotero style
+   * @param locale - CSL locale
+   * @returns Citation and bibliography strings, one per item
+   */
+  private renderWithCiteProc(items: any[], style: any, locale: string): {
+    citations: string[]
+    bibliography: string[]
+  } {
+    const cslEngine = style.getCiteProc(locale, 'text')
+    const citations: string[] = []
+    const bibliography: string[] = []
+
+    try {
+      for (const item of items) {
+        const citation = Zotero.Cite.makeFormattedBibliographyOrCitationList(cslEngine, [item], 'text', true).trim()
+        const entry = Zotero.Cite.makeFormattedBibliographyOrCitationList(cslEngine, [item], 'text', false).trim()
+
+        citations.push(citation || this.generateFallbackCitation(item))
+        bibliography.push(entry)
+        logger.debug(`Generated citation for item ${item.key}: ${StringUtils.truncate(citations[citations.length - 1], 100)}...`)
+      }
+    } finally {
+      // citeproc-js engines hold on to item data until freed
+      if (typeof cslEngine.free === 'function') {
+        cslEngine.free()
+      }
+    }
+
+    return { citations, bibliography }
+  }
+
+  /**
+   * Build a citation result from fallback author-year citations
+   * @param items - Array of Zotero items
+   * @param warning - Reason the CSL processor was not used
+   * @returns Citation results
+   */
+  private generateFallbackCitations(items: any[], warning: string): CitationResult {
+    const citations = items.map(item => {
+      try {
+        return this.generateFallbackCitation(item)
+      } catch (error) {
+        logger.error(`Error generating citation for item ${item.key}: ${error}`)
+        return this.generateBasicFallbackCitation(item)
+      }
+    })
+
+    return {
+      success: true,
+      citations,
+      format: 'inline-fallback',
+      style: 'enhanced-fallback',
+      warning,
+    }
+  }
+
+  /**
+   * Resolve the CSL style ID to use
+   * @param citationStyle - Requested style (full URI, short name or Quick Copy alias)
+   * @returns Full CSL style ID
+   */
+  private resolveStyleID(citationStyle?: string): string {
+    const requested = (citationStyle || '').trim()
+
+    if (!CSL_CONFIG.QUICK_COPY_ALIASES.includes(requested.toLowerCase())) {
+      return /^https?:\/\//.test(requested) ? requested : `${CSL_CONFIG.STYLE_ID_PREFIX}${requested}`
+    }
+
+    try {
+      const setting = Zotero.Prefs.get(CSL_CONFIG.QUICK_COPY_SETTING_PREF) as string
+      if (setting) {
+        const { mode, id } = Zotero.QuickCopy.unserializeSetting(setting)
+        if (mode === 'bibliography' && id) {
+          return id
+        }
+        logger.debug(`Quick Copy is set to ${mode} mode, using default citation style`)
       }
+    } catch (error) {
+      logger.warn(`Could not read Quick Copy setting: ${error}`)
+    }
+
+    return CSL_CONFIG.DEFAULT_STYLE_ID
+  }
+
+  /**
+   * Get the locale configured for Quick Copy
+   * @returns CSL locale
+   */
+  private getQuickCopyLocale(): string {
+    try {
+      const locale = Zotero.Prefs.get(CSL_CONFIG.QUICK_COPY_LOCALE_PREF) as string
+      return locale || Zotero.locale || CSL_CONFIG.DEFAULT_LOCALE
+    } catch (error) {
+      logger.warn(`Could not read Quick Copy locale: ${error}`)
+      return CSL_CONFIG.DEFAULT_LOCALE
+    }
+  }
+
+  /**
+   * Load a citation style, initializing Zotero's style registry if needed
+   * @param styleID - Full CSL style ID
+   * @returns Zotero style or null if not installed
+   */
+  private async loadStyle(styleID: string): Promise<any | null> {
+    try {
+      return Zotero.Styles.get(styleID) || null
+    } catch {
+      // Styles are loaded lazily by Zotero; load them once and retry
+      await Zotero.Styles.init()
+      return Zotero.Styles.get(styleID) || null
     }
   }
 
@@ -214,8 +635,8 @@ export class CitationGenerator implements IService {
       const itemKey = item.key
 
       // Check if this is a group library
-      if ((library as any).type === 'group') {
-        const fallbackUrl = `https://api.zotero.org/groups/${(library as any).id}/items/${itemKey}`
+      if (library?.libraryType === 'group') {
+        const fallbackUrl = `https://api.zotero.org/groups/${library.groupID}/items/${itemKey}`
         logger.debug(`Using group API URL: ${fallbackUrl}`)
         return fallbackUrl
       } else {
@@ -246,12 +667,160 @@ export class CitationGenerator implements IService {
     }
   }
 
+  /**
+   * Get the configured link target for a citation format
+   * Per-format overrides in citationLinkTargets win over citationLinkTarget
+   * @param format - Citation format
+   * @returns Link target
+   */
+  getLinkTarget(format?: CitationFormat): LinkTarget {
+    const isValid = (value: any): value is LinkTarget => Object.values(LINK_TARGETS).includes(value)
+
+    try {
+      if (format) {
+        const overrides = JSON.parse((Zotero.Prefs.get('citationLinkTargets') as string) || '{}')
+        if (isValid(overrides[format])) {
+          return overrides[format]
+        }
+      }
+
+      const target = Zotero.Prefs.get('citationLinkTarget')
+      if (isValid(target)) {
+        return target
+      }
+    } catch (error) {
+      logger.warn(`Error reading citation link target preferences: ${error}`)
+    }
+
+    return DEFAULT_PREFERENCES.citationLinkTarget as LinkTarget
+  }
+
+  /**
+   * Generate the link for an item according to a link target
+   * @param item - Zotero item
+   * @param target - Link target
+   * @param page - PDF page for open-pdf links
+   * @returns Link URL
+   */
+  async generateLinkUrl(item: any, target: LinkTarget, page?: number): Promise<string> {
+    switch (target) {
+      case LINK_TARGETS.SELECT:
+        return this.generateSelectUrl(item)
+      case LINK_TARGETS.WEB:
+        return this.generateWebLibraryUrl(item)
+      case LINK_TARGETS.PDF: {
+        const pdfUrl = await this.generatePdfUrl(item, page)
+        if (pdfUrl) {
+          return pdfUrl
+        }
+        // Items without a PDF still open in the client
+        logger.debug(`No PDF attachment for item ${item.key}, using zotero://select link`)
+        return this.generateSelectUrl(item)
+      }
+      case LINK_TARGETS.API:
+      default:
+        return this.generateApiUrl(item)
+    }
+  }
+
+  /**
+   * Generate a zotero://open-pdf link for the item's best PDF attachment
+   * @param item - Zotero item (a PDF attachment is linked directly)
+   * @param page - Page to open
+   * @param annotationKey - Annotation to scroll to
+   * @returns open-pdf URL, or null if the item has no PDF attachment
+   */
+  async generatePdfUrl(item: any, page?: number, annotationKey?: string): Promise<string | null> {
+    const attachment = await this.resolveBestPdfAttachment(item)
+    if (!attachment) {
+      return null
+    }
+
+    return this.generateOpenReaderUrl(attachment, page, annotationKey)
+  }
+
+  /**
+   * Generate a zotero://open-pdf link for a PDF or EPUB attachment
+   * @param attachment - Attachment item
+   * @param page - Page to open
+   * @param annotationKey - Annotation to scroll to
+   * @returns open-pdf URL
+   */
+  generateOpenReaderUrl(attachment: any, page?: number, annotationKey?: string): string {
+    const query = [
+      ...(page && page > 0 ? [`page=${page}`] : []),
+      ...(annotationKey ? [`annotation=${annotationKey}`] : []),
+    ].join('&')
+    return `zotero://open-pdf/${this.getLibraryPath(attachment)}/items/${attachment.key}${query ? `?${query}` : ''}`
+  }
+
+  /**
+   * Find the PDF attachment Zotero would open for an item
+   * @param item - Zotero item
+   * @returns PDF attachment item or null
+   */
+  async resolveBestPdfAttachment(item: any): Promise<any | null> {
+    try {
+      if (item.isAttachment()) {
+        return item.isPDFAttachment() ? item : null
+      }
+
+      // getBestAttachments() orders by Zotero's own preference (parent URL match, PDF, date added)
+      const attachments = await item.getBestAttachments()
+      return attachments.find((attachment: any) => attachment.isPDFAttachment()) || null
+    } catch (error) {
+      logger.error(`Error resolving PDF attachment for item ${item.key}: ${error}`)
+      return null
+    }
+  }
+
+  /**
+   * Generate the zotero.org web library URL for an item
+   * @param item - Zotero item
+   * @returns Web library URL, or a zotero://select link when not signed in
+   */
+  generateWebLibraryUrl(item: any): string {
+    const library = item.library
+    if (library?.libraryType === 'group') {
+      return `https://www.zotero.org/groups/${library.groupID}/items/${item.key}`
+    }
+
+    const userID = Zotero.Users.getCurrentUserID()
+    if (userID) {
+      return `https://www.zotero.org/users/${userID}/items/${item.key}`
+    }
+
+    logger.debug('No Zotero user ID available, using zotero://select link instead of web library URL')
+    return this.generateSelectUrl(item)
+  }
+
+  /**
+   * Get the library segment used in zotero:// URLs
+   * @param item - Zotero item
+   * @returns "library" or "groups/<groupID>"
+   */
+  private getLibraryPath(item: any): string {
+    const library = item.library
+    return library?.libraryType === 'group' ? `groups/${library.groupID}` : 'library'
+  }
+
+  /**
+   * Generate a zotero://select link that opens the item in the Zotero client
+   * @param item - Zotero item
+   * @returns zotero://select URL
+   */
+  generateSelectUrl(item: any): string {
+    return `zotero://select/${this.getLibraryPath(item)}/items/${item.key}`
+  }
+
   /**
    * Format a single citation based on the output format
    * @param citation - Citation text
-   * @param apiUrl - API URL for the item
+   * @param apiUrl - Link URL for the item
    * @param format - Output format
    * @param isListItem - Whether this is part of a list
+   * @param citationKey - Stored citation key, added as the Markdown link title
+   * @param pandocOptions - Prefix, locator, suffix and suppress-author for Pandoc output
    * @returns Formatted citation string
    */
   private formatSingleCitation(
@@ -259,12 +828,18 @@ export class CitationGenerator implements IService {
     apiUrl: string,
     format: CitationFormat,
     isListItem: boolean = false,
+    citationKey?: string | null,
+    pandocOptions: PandocCitationOptions = {},
   ): string {
     const prefix = isListItem ? '- ' : ''
 
     switch (format) {
+      case CITATION_FORMATS.PANDOC:
+        return `[${this.formatPandocReference(citationKey!, pandocOptions)}]`
       case CITATION_FORMATS.MARKDOWN:
-        return `${prefix}[${citation}](${apiUrl})`
+        return citationKey
+          ? `${prefix}[${citation}](${apiUrl} "${citationKey}")`
+          : `${prefix}[${citation}](${apiUrl})`
       case CITATION_FORMATS.HTML:
         if (isListItem) {
           return `<li><a href="${apiUrl}">${citation}</a></li>`
@@ -282,6 +857,31 @@ export class CitationGenerator implements IService {
     }
   }
 
+  /**
+   * Build a single Pandoc reference (without brackets), e.g. "see -@smith2020, p. 33 and passim"
+   * @param citationKey - Item citation key
+   * @param options - Prefix, locator, suffix and suppress-author options
+   * @returns Pandoc reference text
+   */
+  private formatPandocReference(citationKey: string, options: PandocCitationOptions): string {
+    const prefix = options.prefix?.trim()
+    const suffix = options.suffix?.trim()
+    let reference = `${options.suppressAuthor ? '-' : ''}@${citationKey}`
+
+    const locator = options.locator?.trim()
+    if (locator) {
+      // Locators that already start with a label ("chap. 2", "pp. 3-5") are used as given
+      const label = options.label?.trim() || (/^[a-z]/i.test(locator) ? '' : /[-–,]/.test(locator) ? 'pp.' : 'p.')
+      reference += `, ${label ? `${label} ` : ''}${locator}`
+    }
+
+    if (suffix) {
+      reference += locator ? ` ${suffix}` : `, ${suffix}`
+    }
+
+    return prefix ? `${prefix} ${reference}` : reference
+  }
+
   /**
    * Format multiple citations based on the output format
    * @param formattedItems - Array of formatted citation strings
@@ -290,6 +890,9 @@ export class CitationGenerator implements IService {
    */
   private formatMultipleCitations(formattedItems: string[], format: CitationFormat): string {
     switch (format) {
+      case CITATION_FORMATS.PANDOC:
+        // Merge the individual [@key] citations into one multi-cite group
+        return `[${formattedItems.map(item => item.slice(1, -1)).join('; ')}]`
       case CITATION_FORMATS.HTML:
         return `<ul>\n${formattedItems.join('\n')}\n</ul>`
       case CITATION_FORMATS.LATEX:
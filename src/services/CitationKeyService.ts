@@ -0,0 +1,348 @@
+import { IService } from '../core/types'
+import { serviceLogger as logger } from '../core/Logger'
+import { CITATION_KEY_CONFIG, DEFAULT_PREFERENCES } from '../config/constants'
+import { LibraryUtils } from '../utils/LibraryUtils'
+
+/**
+ * Service for generating and storing stable citation keys (e.g. smith2020attention)
+ * Keys live in the item's Extra field as a "Citation Key: <key>" line, the
+ * convention understood by Zotero's BibTeX/BibLaTeX/CSL JSON translators
+ */
+export class CitationKeyService implements IService {
+  private initialized = false
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return
+
+    logger.info('Initializing CitationKeyService')
+    this.initialized = true
+  }
+
+  async cleanup(): Promise<void> {
+    logger.info('Cleaning up CitationKeyService')
+    this.initialized = false
+  }
+
+  isInitialized(): boolean {
+    return this.initialized
+  }
+
+  /**
+   * Get the configured citation key pattern
+   * @returns Pattern string
+   */
+  getPattern(): string {
+    try {
+      const pattern = Zotero.Prefs.get('citationKeyPattern') as string
+      if (pattern && pattern.trim()) {
+        return pattern.trim()
+      }
+    } catch (error) {
+      logger.debug(`Error reading citation key pattern preference: ${error}`)
+    }
+    return DEFAULT_PREFERENCES.citationKeyPattern || CITATION_KEY_CONFIG.DEFAULT_PATTERN
+  }
+
+  /**
+   * Read the stored citation key of an item
+   * @param item - Zotero item
+   * @returns Stored citation key or null
+   */
+  getCitationKey(item: any): string | null {
+    try {
+      const extra = item.getField('extra') || ''
+      const match = extra.match(this.getExtraLinePattern())
+      return match ? match[1] : null
+    } catch (error) {
+      logger.error(`Error reading citation key for item ${item?.key}: ${error}`)
+      return null
+    }
+  }
+
+  /**
+   * Return the stored citation key, generating and saving one if missing
+   * @param item - Zotero item
+   * @returns Citation key
+   */
+  async ensureCitationKey(item: any): Promise<string> {
+    const existing = this.getCitationKey(item)
+    if (existing) {
+      return existing
+    }
+
+    return this.assignCitationKey(item)
+  }
+
+  /**
+   * Check whether generated citation keys can be stored on items
+   * @param items - Zotero items
+   * @returns True when every item is in an editable library
+   */
+  canStoreCitationKeys(items: any[]): boolean {
+    return items.every(item => LibraryUtils.isLibraryEditable(item.libraryID))
+  }
+
+  /**
+   * Get citation keys for a selection of items, one per item
+   * Without save, missing keys are computed but not stored, and are kept distinct within the selection
+   * @param items - Zotero items
+   * @param save - Store generated keys on the items (needs an editable library)
+   * @returns Citation keys in item order
+   */
+  async resolveCitationKeys(items: any[], save: boolean): Promise<string[]> {
+    // Sequential, so collision handling stays consistent within the selection
+    const citationKeys: string[] = []
+    const computedKeys = new Set<string>()
+    for (const item of items) {
+      if (save) {
+        citationKeys.push(await this.ensureCitationKey(item))
+        continue
+      }
+
+      const citationKey = this.getCitationKey(item)
+        || await this.generateUniqueCitationKey(item, this.getPattern(), computedKeys)
+      computedKeys.add(citationKey.toLowerCase())
+      citationKeys.push(citationKey)
+    }
+    return citationKeys
+  }
+
+  /**
+   * Generate a unique citation key from the pattern and store it on the item
+   * Replaces any key already stored
+   * @param item - Zotero item
+   * @returns The stored citation key
+   */
+  async assignCitationKey(item: any): Promise<string> {
+    const citationKey = await this.generateUniqueCitationKey(item)
+    this.setExtraCitationKey(item, citationKey)
+    await item.saveTx()
+
+    logger.info(`Stored citation key ${citationKey} for item ${item.key}`)
+    return citationKey
+  }
+
+  /**
+   * Generate a citation key that does not collide with other items in the library
+   * Does not modify the item
+   * @param item - Zotero item
+   * @param pattern - Pattern to use (defaults to the configured pattern)
+   * @param reservedKeys - Lowercased keys to avoid besides those stored in the library
+   * @returns Unique citation key
+   */
+  async generateUniqueCitationKey(
+    item: any,
+    pattern: string = this.getPattern(),
+    reservedKeys: Set<string> = new Set(),
+  ): Promise<string> {
+    const hasSuffixToken = /\[suffix\]/i.test(pattern)
+    const template = hasSuffixToken ? pattern : `${pattern}[suffix]`
+    const baseKey = this.expandPattern(item, template, '')
+    const prefix = this.expandPattern(item, template.split(/\[suffix\]/i)[0], '')
+
+    const existingKeys = await this.findKeysWithPrefix(item.libraryID, prefix, item.id)
+
+    let suffixIndex = 0
+    let candidate = baseKey
+    while (existingKeys.has(candidate.toLowerCase()) || reservedKeys.has(candidate.toLowerCase())) {
+      suffixIndex++
+      candidate = this.expandPattern(item, template, this.getDisambiguationSuffix(suffixIndex))
+    }
+
+    return candidate
+  }
+
+  /**
+   * Expand a citation key pattern for an item
+   * @param item - Zotero item
+   * @param pattern - Pattern with [token:modifier] placeholders
+   * @param suffix - Disambiguation suffix substituted for [suffix]
+   * @returns Expanded key restricted to characters safe for BibTeX and Pandoc
+   */
+  expandPattern(item: any, pattern: string, suffix: string = ''): string {
+    const expanded = pattern.replace(CITATION_KEY_CONFIG.TOKEN_PATTERN, (_match, token: string, modifiers: string) => {
+      let value = token.toLowerCase() === 'suffix' ? suffix : this.getTokenValue(item, token.toLowerCase())
+
+      for (const modifier of modifiers.split(':').filter(Boolean)) {
+        switch (modifier.toLowerCase()) {
+          case 'lower':
+            value = value.toLowerCase()
+            break
+          case 'upper':
+            value = value.toUpperCase()
+            break
+          default:
+            logger.warn(`Unknown citation key modifier: ${modifier}`)
+        }
+      }
+
+      return value
+    })
+
+    const key = this.sanitize(expanded)
+    return key || `zotero${item.key}`
+  }
+
+  /**
+   * Resolve a single pattern token
+   * @param item - Zotero item
+   * @param token - Lowercased token name
+   * @returns Token value
+   */
+  private getTokenValue(item: any, token: string): string {
+    switch (token) {
+      case 'auth':
+        return this.getCreatorNames(item).slice(0, 1).join('')
+      case 'authors':
+        return this.getCreatorNames(item).slice(0, CITATION_KEY_CONFIG.MAX_AUTHORS).join('')
+      case 'year':
+        return this.getYear(item)
+      case 'title':
+        return this.getSignificantTitleWords(item).slice(0, 1).join('')
+      case 'shorttitle':
+        return this.getSignificantTitleWords(item).slice(0, CITATION_KEY_CONFIG.SHORT_TITLE_WORDS).join('')
+      default:
+        logger.warn(`Unknown citation key token: [${token}]`)
+        return ''
+    }
+  }
+
+  /**
+   * Get last names of the item's primary creators
+   * @param item - Zotero item
+   * @returns Creator last names, ASCII-folded
+   */
+  private getCreatorNames(item: any): string[] {
+    const creators = item.getCreators ? item.getCreators() : []
+    const primaryTypeID = Zotero.CreatorTypes.getPrimaryIDForType(item.itemTypeID)
+    const primary = creators.filter((creator: any) => creator.creatorTypeID === primaryTypeID)
+
+    return (primary.length > 0 ? primary : creators)
+      .map((creator: any) => this.fold(creator.lastName || creator.name || ''))
+      .filter((name: string) => name.length > 0)
+  }
+
+  /**
+   * Get the four-digit year of the item's date
+   * @param item - Zotero item
+   * @returns Year or empty string
+   */
+  private getYear(item: any): string {
+    const date = item.getField('date') || ''
+    const match = String(date).match(/\d{4}/)
+    return match ? match[0] : ''
+  }
+
+  /**
+   * Get title words that are not stop words
+   * @param item - Zotero item
+   * @returns Significant title words, ASCII-folded
+   */
+  private getSignificantTitleWords(item: any): string[] {
+    const title = item.getField('title') || ''
+    return String(title)
+      .split(/[\s\-–—:;,./]+/)
+      .map(word => this.fold(word))
+      .filter(word => word.length > 0 && !CITATION_KEY_CONFIG.STOP_WORDS.includes(word.toLowerCase()))
+  }
+
+  /**
+   * Find stored citation keys in a library that start with the given prefix
+   * @param libraryID - Library to search
+   * @param prefix - Key prefix
+   * @param excludeItemID - Item to ignore (the item being keyed)
+   * @returns Set of lowercased keys
+   */
+  private async findKeysWithPrefix(libraryID: number, prefix: string, excludeItemID?: number): Promise<Set<string>> {
+    const keys = new Set<string>()
+
+    try {
+      const search = new Zotero.Search()
+      search.libraryID = libraryID
+      search.addCondition('extra', 'contains', `${CITATION_KEY_CONFIG.EXTRA_FIELD_LABEL}: ${prefix}`)
+
+      const itemIDs = await search.search()
+      const items = await Zotero.Items.getAsync(itemIDs)
+
+      for (const other of items) {
+        if (other.id === excludeItemID) continue
+        const otherKey = this.getCitationKey(other)
+        if (otherKey) {
+          keys.add(otherKey.toLowerCase())
+        }
+      }
+    } catch (error) {
+      logger.error(`Error searching for existing citation keys: ${error}`)
+    }
+
+    return keys
+  }
+
+  /**
+   * Write the citation key line into the item's Extra field (without saving)
+   * @param item - Zotero item
+   * @param citationKey - Citation key to store
+   */
+  private setExtraCitationKey(item: any, citationKey: string): void {
+    const extra: string = item.getField('extra') || ''
+    const line = `${CITATION_KEY_CONFIG.EXTRA_FIELD_LABEL}: ${citationKey}`
+    const pattern = this.getExtraLinePattern()
+
+    const updated = pattern.test(extra)
+      ? extra.replace(pattern, line)
+      : [line, extra].filter(Boolean).join('\n')
+
+    item.setField('extra', updated)
+  }
+
+  /**
+   * Build the regular expression matching the citation key line in Extra
+   * @returns Case-insensitive, multiline pattern capturing the key
+   */
+  private getExtraLinePattern(): RegExp {
+    return new RegExp(`^\\s*${CITATION_KEY_CONFIG.EXTRA_FIELD_LABEL}\\s*:\\s*(\\S+)\\s*$`, 'im')
+  }
+
+  /**
+   * Disambiguation suffix for the nth collision (a, b, ..., z, aa, ab, ...)
+   * @param index - 1-based collision index
+   * @returns Suffix string
+   */
+  private getDisambiguationSuffix(index: number): string {
+    let suffix = ''
+    let n = index
+    while (n > 0) {
+      n--
+      suffix = String.fromCharCode(97 + (n % 26)) + suffix
+      n = Math.floor(n / 26)
+    }
+    return suffix
+  }
+
+  /**
+   * Strip diacritics and non-alphanumeric characters
+   * @param value - Input string
+   * @returns ASCII alphanumeric string
+   */
+  private fold(value: string): string {
+    return this.stripDiacritics(value).replace(/[^A-Za-z0-9]/g, '')
+  }
+
+  /**
+   * Restrict a key to characters accepted by BibTeX and Pandoc citation syntax
+   * @param value - Expanded pattern
+   * @returns Sanitized key
+   */
+  private sanitize(value: string): string {
+    return this.stripDiacritics(value).replace(/[^A-Za-z0-9_:.-]/g, '')
+  }
+
+  /**
+   * Remove combining diacritical marks (é -> e)
+   * @param value - Input string
+   * @returns String without diacritics
+   */
+  private stripDiacritics(value: string): string {
+    return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+  }
+}
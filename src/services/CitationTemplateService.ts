@@ -0,0 +1,156 @@
+import { IService, LinkTarget, ValidationError } from '../core/types'
+import { serviceLogger as logger } from '../core/Logger'
+import { DEFAULT_CITATION_TEMPLATES, LINK_TARGETS } from '../config/constants'
+import { TemplateRenderer } from '../utils/TemplateRenderer'
+
+const TEMPLATES_PREF = 'citationTemplates'
+
+export interface CitationTemplatePreset {
+  name: string
+  template: string
+  linkTarget?: LinkTarget
+}
+
+/**
+ * Service for managing named citation template presets stored in preferences
+ * Presets are kept as a JSON object mapping preset name to either a template
+ * string or an object with `template` and an optional `linkTarget`
+ */
+export class CitationTemplateService implements IService {
+  private initialized = false
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return
+
+    logger.info('Initializing CitationTemplateService')
+    this.initialized = true
+  }
+
+  async cleanup(): Promise<void> {
+    logger.info('Cleaning up CitationTemplateService')
+    this.initialized = false
+  }
+
+  isInitialized(): boolean {
+    return this.initialized
+  }
+
+  /**
+   * Get the preference key holding the presets
+   * @returns Preference key
+   */
+  getPreferenceKey(): string {
+    return TEMPLATES_PREF
+  }
+
+  /**
+   * Get all template presets
+   * @returns Map of preset name to preset
+   */
+  getPresets(): Record<string, CitationTemplatePreset> {
+    let stored: Record<string, any> = DEFAULT_CITATION_TEMPLATES
+    try {
+      const value = Zotero.Prefs.get(TEMPLATES_PREF) as string
+      if (value) {
+        stored = JSON.parse(value)
+      }
+    } catch (error) {
+      logger.error(`Error reading citation templates, using defaults: ${error}`)
+    }
+
+    const presets: Record<string, CitationTemplatePreset> = {}
+    for (const [name, value] of Object.entries(stored)) {
+      const preset = this.parsePreset(name, value)
+      if (preset) {
+        presets[name] = preset
+      }
+    }
+    return presets
+  }
+
+  /**
+   * Get a single template preset
+   * @param name - Preset name
+   * @returns Preset or null if it does not exist
+   */
+  getPreset(name: string): CitationTemplatePreset | null {
+    return this.getPresets()[name] ?? null
+  }
+
+  /**
+   * Create or replace a template preset
+   * @param name - Preset name
+   * @param template - Template string
+   * @param linkTarget - Link target used for the {{link}} placeholder
+   */
+  savePreset(name: string, template: string, linkTarget?: LinkTarget): void {
+    if (!name || !name.trim()) {
+      throw new ValidationError('Template preset name is required')
+    }
+
+    const error = TemplateRenderer.validate(template)
+    if (error) {
+      throw new ValidationError(`Invalid template: ${error}`)
+    }
+
+    if (linkTarget && !Object.values(LINK_TARGETS).includes(linkTarget)) {
+      throw new ValidationError(`linkTarget must be one of: ${Object.values(LINK_TARGETS).join(', ')}`)
+    }
+
+    const presets = this.getPresets()
+    presets[name.trim()] = { name: name.trim(), template, ...(linkTarget && { linkTarget }) }
+    this.storePresets(presets)
+    logger.info(`Saved citation template preset "${name}"`)
+  }
+
+  /**
+   * Remove a template preset
+   * @param name - Preset name
+   * @returns True if the preset existed
+   */
+  deletePreset(name: string): boolean {
+    const presets = this.getPresets()
+    if (!(name in presets)) {
+      return false
+    }
+
+    delete presets[name]
+    this.storePresets(presets)
+    logger.info(`Deleted citation template preset "${name}"`)
+    return true
+  }
+
+  /**
+   * Normalize a stored preset value
+   * @param name - Preset name
+   * @param value - Template string or { template, linkTarget } object
+   * @returns Preset, or null if the value is invalid
+   */
+  private parsePreset(name: string, value: any): CitationTemplatePreset | null {
+    const template = typeof value === 'string' ? value : value?.template
+    if (typeof template !== 'string' || !template.trim()) {
+      logger.warn(`Ignoring citation template preset "${name}": template must be a non-empty string`)
+      return null
+    }
+
+    const linkTarget = typeof value === 'object' ? value.linkTarget : undefined
+    if (linkTarget !== undefined && !Object.values(LINK_TARGETS).includes(linkTarget)) {
+      logger.warn(`Ignoring unknown link target "${linkTarget}" for citation template preset "${name}"`)
+      return { name, template }
+    }
+
+    return { name, template, ...(linkTarget && { linkTarget }) }
+  }
+
+  /**
+   * Persist presets to preferences
+   * @param presets - Map of preset name to preset
+   */
+  private storePresets(presets: Record<string, CitationTemplatePreset>): void {
+    const stored: Record<string, string | { template: string, linkTarget?: LinkTarget }> = {}
+    for (const [name, preset] of Object.entries(presets)) {
+      stored[name] = preset.linkTarget ? { template: preset.template, linkTarget: preset.linkTarget } : preset.template
+    }
+    Zotero.Prefs.set(TEMPLATES_PREF, JSON.stringify(stored))
+  }
+}
@@ -0,0 +1,290 @@
+import { IService, ValidationError } from '../core/types'
+import { serviceLogger as logger } from '../core/Logger'
+
+const PATH_SEPARATOR = '/'
+
+export interface CollectionNode {
+  key: string
+  id: number
+  name: string
+  path: string
+  parentKey: string | null
+  itemCount: number
+  totalItemCount: number
+  children: CollectionNode[]
+}
+
+/**
+ * Service for looking up and creating collections by key or by name path (e.g. Projects/Thesis/Ch2)
+ */
+export class CollectionService implements IService {
+  private initialized = false
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return
+
+    logger.info('Initializing CollectionService')
+    this.initialized = true
+  }
+
+  async cleanup(): Promise<void> {
+    logger.info('Cleaning up CollectionService')
+    this.initialized = false
+  }
+
+  isInitialized(): boolean {
+    return this.initialized
+  }
+
+  /**
+   * Find a collection by key, falling back to a name path
+   * @param libraryID - Library to look in
+   * @param keyOrPath - Collection key or slash-separated path
+   * @param create - Create missing path segments
+   * @returns Collection, or null when it does not exist and create is false
+   */
+  async resolveCollection(libraryID: number, keyOrPath: string, create: boolean = false): Promise<any | null> {
+    const value = keyOrPath.trim()
+    if (!value.includes(PATH_SEPARATOR)) {
+      const collection = await Zotero.Collections.getByLibraryAndKeyAsync(libraryID, value)
+      if (collection) {
+        return collection
+      }
+    }
+
+    return this.resolvePath(libraryID, value, create)
+  }
+
+  /**
+   * Find a collection by key in the given library, or across all libraries when none is given
+   * @param key - Collection key
+   * @param libraryID - Library to look in (optional)
+   * @returns Collection or null if not found
+   */
+  async findCollection(key: string, libraryID?: number): Promise<any | null> {
+    if (libraryID !== undefined) {
+      return (await Zotero.Collections.getByLibraryAndKeyAsync(libraryID, key)) || null
+    }
+
+    // Keys are only unique per library, so the user library wins over group libraries
+    const libraryIDs = [
+      Zotero.Libraries.userLibraryID,
+      ...Zotero.Libraries.getAll().map((library: any) => library.libraryID),
+    ]
+    for (const id of libraryIDs) {
+      const collection = await Zotero.Collections.getByLibraryAndKeyAsync(id, key)
+      if (collection) {
+        return collection
+      }
+    }
+    return null
+  }
+
+  /**
+   * Walk a collection name path from the library root
+   * @param libraryID - Library to look in
+   * @param path - Slash-separated collection names
+   * @param create - Create missing path segments
+   * @returns Deepest collection, or null when a segment is missing and create is false
+   */
+  async resolvePath(libraryID: number, path: string, create: boolean = false): Promise<any | null> {
+    const names = this.splitPath(path)
+    let parent: any = null
+
+    for (const name of names) {
+      const siblings: any[] = parent
+        ? parent.getChildCollections(false, false)
+        : Zotero.Collections.getByLibrary(libraryID, false)
+      let collection = siblings.find(sibling => sibling.name === name)
+
+      if (!collection) {
+        if (!create) {
+          return null
+        }
+        collection = await this.createCollection(libraryID, name, parent?.id)
+      }
+
+      parent = collection
+    }
+
+    return parent
+  }
+
+  /**
+   * Create a collection
+   * @param libraryID - Library to create the collection in
+   * @param name - Collection name
+   * @param parentID - Parent collection ID (top level when omitted)
+   * @returns The saved collection
+   */
+  async createCollection(libraryID: number, name: string, parentID?: number): Promise<any> {
+    const collection = new Zotero.Collection()
+    collection.libraryID = libraryID
+    collection.name = name
+    if (parentID) {
+      collection.parentID = parentID
+    }
+    await collection.saveTx()
+
+    logger.info(`Created collection "${name}" (${collection.key}) in library ${libraryID}`)
+    return collection
+  }
+
+  /**
+   * Build the name path of a collection
+   * @param collection - Collection
+   * @returns Slash-separated path from the library root
+   */
+  getCollectionPath(collection: any): string {
+    const names: string[] = []
+    let current = collection
+    while (current) {
+      names.unshift(current.name)
+      current = current.parentID ? Zotero.Collections.get(current.parentID) : null
+    }
+    return names.join(PATH_SEPARATOR)
+  }
+
+  /**
+   * Build the collection tree of a library
+   * @param libraryID - Library ID
+   * @returns Top-level collections with nested children and item counts
+   */
+  getCollectionTree(libraryID: number): CollectionNode[] {
+    const topLevel: any[] = Zotero.Collections.getByLibrary(libraryID, false)
+    return this.sortByName(topLevel).map(collection => this.buildNode(collection, ''))
+  }
+
+  /**
+   * Describe a single collection for API responses
+   * @param collection - Collection
+   * @returns Collection node including its subtree
+   */
+  describeCollection(collection: any): CollectionNode {
+    const parent = collection.parentID ? Zotero.Collections.get(collection.parentID) : null
+    return this.buildNode(collection, parent ? this.getCollectionPath(parent) : '')
+  }
+
+  /**
+   * Find a direct child collection by name
+   * @param libraryID - Library ID
+   * @param name - Collection name
+   * @param parentID - Parent collection ID (top level when omitted)
+   * @returns Matching collection or null
+   */
+  findChildByName(libraryID: number, name: string, parentID?: number): any | null {
+    const siblings: any[] = parentID
+      ? Zotero.Collections.get(parentID).getChildCollections(false, false)
+      : Zotero.Collections.getByLibrary(libraryID, false)
+    return siblings.find(sibling => sibling.name === name) ?? null
+  }
+
+  /**
+   * Rename and/or move a collection
+   * @param collection - Collection to update
+   * @param changes - New name and/or new parent (null moves it to the top level)
+   * @returns The saved collection
+   */
+  async updateCollection(collection: any, changes: { name?: string; parent?: any | null }): Promise<any> {
+    if (changes.parent) {
+      if (changes.parent.libraryID !== collection.libraryID) {
+        throw new ValidationError('Collections cannot be moved between libraries')
+      }
+      if (this.isSameOrDescendant(changes.parent, collection)) {
+        throw new ValidationError('A collection cannot be moved into itself or one of its subcollections')
+      }
+    }
+
+    if (changes.name !== undefined) {
+      collection.name = changes.name
+    }
+    if (changes.parent !== undefined) {
+      collection.parentKey = changes.parent ? changes.parent.key : false
+    }
+
+    if (collection.hasChanged()) {
+      await collection.saveTx()
+      logger.info(`Updated collection ${collection.key} (${this.getCollectionPath(collection)})`)
+    }
+
+    return collection
+  }
+
+  /**
+   * Permanently delete a collection and its subcollections
+   * @param collection - Collection to delete
+   * @param deleteItems - Also move the contained items to the trash
+   */
+  async deleteCollection(collection: any, deleteItems: boolean = false): Promise<void> {
+    const path = this.getCollectionPath(collection)
+    await collection.eraseTx({ deleteItems })
+    logger.info(`Deleted collection "${path}" (${collection.key})${deleteItems ? ' and its items' : ''}`)
+  }
+
+  /**
+   * Build a tree node for a collection and its subcollections
+   * @param collection - Collection
+   * @param parentPath - Path of the parent collection ('' at the top level)
+   * @param subtreeItemIDs - Set collecting the IDs of all items in the subtree
+   * @returns Collection node
+   */
+  private buildNode(collection: any, parentPath: string, subtreeItemIDs: Set<number> = new Set()): CollectionNode {
+    const path = parentPath ? `${parentPath}${PATH_SEPARATOR}${collection.name}` : collection.name
+    const itemIDs: number[] = collection.getChildItems(true, false)
+    const ownSubtree = new Set<number>(itemIDs)
+    const children = this.sortByName(collection.getChildCollections(false, false))
+      .map(child => this.buildNode(child, path, ownSubtree))
+    const parent = collection.parentID ? Zotero.Collections.get(collection.parentID) : null
+
+    ownSubtree.forEach(id => subtreeItemIDs.add(id))
+
+    return {
+      key: collection.key,
+      id: collection.id,
+      name: collection.name,
+      path,
+      parentKey: parent ? parent.key : null,
+      itemCount: itemIDs.length,
+      // Items filed in several subcollections are counted once
+      totalItemCount: ownSubtree.size,
+      children,
+    }
+  }
+
+  /**
+   * Check whether a collection is the given ancestor or lies below it
+   * @param collection - Collection to check
+   * @param ancestor - Potential ancestor
+   * @returns True when collection is ancestor or one of its descendants
+   */
+  private isSameOrDescendant(collection: any, ancestor: any): boolean {
+    let current = collection
+    while (current) {
+      if (current.id === ancestor.id) return true
+      current = current.parentID ? Zotero.Collections.get(current.parentID) : null
+    }
+    return false
+  }
+
+  /**
+   * Sort collections by name
+   * @param collections - Collections
+   * @returns Collections in locale order
+   */
+  private sortByName(collections: any[]): any[] {
+    return [...collections].sort((a, b) => a.name.localeCompare(b.name))
+  }
+
+  /**
+   * Split a collection path into names
+   * @param path - Slash-separated path
+   * @returns Non-empty collection names
+   */
+  private splitPath(path: string): string[] {
+    const names = path.split(PATH_SEPARATOR).map(name => name.trim()).filter(name => name.length > 0)
+    if (names.length === 0) {
+      throw new ValidationError('Collection path must contain at least one collection name')
+    }
+    return names
+  }
+}
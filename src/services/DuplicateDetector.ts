@@ -3,12 +3,18 @@ import { serviceLogger as logger } from '../core/Logger'
 import { DUPLICATE_DETECTION } from '../config/constants'
 import { StringUtils } from '../utils/StringUtils'
 import { UrlUtils } from '../utils/UrlUtils'
+import { EventService } from './EventService'
 
 /**
  * Service for detecting duplicate items using multiple algorithms
  */
 export class DuplicateDetector implements IService {
   private initialized = false
+  private eventService: EventService
+
+  constructor(eventService: EventService) {
+    this.eventService = eventService
+  }
 
   async initialize(): Promise<void> {
     if (this.initialized) return
@@ -49,6 +55,14 @@ export class DuplicateDetector implements IService {
       }
 
       logger.info(`Duplicate detection completed: ${result.duplicateCount} potential duplicates found`)
+      // Unsaved items (dry runs) are checked without announcing them
+      if (result.hasDuplicates && item.id) {
+        this.eventService.publish('duplicate.flagged', {
+          key: item.key,
+          duplicateCount: result.duplicateCount,
+          duplicateKeys: result.flaggedItems,
+        }, { libraryID: item.libraryID })
+      }
       return result
     } catch (error) {
       logger.error(`Error detecting duplicates: ${error}`)
@@ -485,9 +499,10 @@ export class DuplicateDetector implements IService {
   /**
    * Find existing item by URL
    * @param url - URL to search for
+   * @param libraryID - Restrict the lookup to one library (all libraries when omitted)
    * @returns Existing item if found, null otherwise
    */
-  async findItemByUrl(url: string): Promise<any | null> {
+  async findItemByUrl(url: string, libraryID?: number): Promise<any | null> {
     try {
       logger.info(`Searching for existing item with URL: ${url}`)
 
@@ -497,6 +512,9 @@ export class DuplicateDetector implements IService {
 
       // Search for items with URLs containing the domain
       const search = new Zotero.Search()
+      if (libraryID !== undefined) {
+        search.libraryID = libraryID
+      }
       search.addCondition('url', 'contains', domain)
       search.addCondition('itemType', 'isNot', 'attachment')
       search.addCondition('itemType', 'isNot', 'note')
@@ -528,9 +546,10 @@ export class DuplicateDetector implements IService {
    * Find existing item by identifier (DOI, PMID, ArXiv, etc.)
    * @param identifierType - Type of identifier (DOI, PMID, ARXIV)
    * @param identifierValue - Value of the identifier
+   * @param libraryID - Restrict the lookup to one library (all libraries when omitted)
    * @returns Existing item if found, null otherwise
    */
-  async findItemByIdentifier(identifierType: string, identifierValue: string): Promise<any | null> {
+  async findItemByIdentifier(identifierType: string, identifierValue: string, libraryID?: number): Promise<any | null> {
     try {
       logger.info(`Searching for existing item with ${identifierType}: ${identifierValue}`)
 
@@ -539,6 +558,9 @@ export class DuplicateDetector implements IService {
       switch (identifierType.toUpperCase()) {
         case 'DOI': {
           const search = new Zotero.Search()
+          if (libraryID !== undefined) {
+            search.libraryID = libraryID
+          }
           search.addCondition('DOI', 'is', identifierValue)
           search.addCondition('itemType', 'isNot', 'attachment')
           search.addCondition('itemType', 'isNot', 'note')
@@ -551,6 +573,9 @@ export class DuplicateDetector implements IService {
         case 'PMID': {
           // Search in extra field for PMID
           const search = new Zotero.Search()
+          if (libraryID !== undefined) {
+            search.libraryID = libraryID
+          }
           search.addCondition('extra', 'contains', `PMID: ${identifierValue}`)
           search.addCondition('itemType', 'isNot', 'attachment')
           search.addCondition('itemType', 'isNot', 'note')
@@ -570,6 +595,9 @@ export class DuplicateDetector implements IService {
         case 'ARXIV': {
           // Search in extra field for ArXiv ID
           const search = new Zotero.Search()
+          if (libraryID !== undefined) {
+            search.libraryID = libraryID
+          }
           search.addCondition('extra', 'contains', identifierValue)
           search.addCondition('itemType', 'isNot', 'attachment')
           search.addCondition('itemType', 'isNot', 'note')
@@ -0,0 +1,289 @@
+import { ApiEvent, ApiEventFilter, ApiEventType, IService, ImportTarget, TranslationResult } from '../core/types'
+import { serviceLogger as logger } from '../core/Logger'
+import { EVENT_STREAM } from '../config/constants'
+
+const ITEM_EVENTS: Record<string, ApiEventType> = {
+  add: 'item.add',
+  modify: 'item.modify',
+  delete: 'item.delete',
+  trash: 'item.trash',
+}
+
+export interface EventBatch {
+  events: ApiEvent[]
+  lastEventId: number
+  missed: boolean
+}
+
+interface EventContext {
+  libraryID?: number | null
+  collections?: string[] | null
+}
+
+/* eslint-disable no-unused-vars */
+interface EventWaiter {
+  since: number
+  filter: ApiEventFilter
+  resolve: (batch: EventBatch) => void
+  timer: any // nsITimer
+}
+
+type EventListener = (event: ApiEvent) => void
+/* eslint-enable no-unused-vars */
+
+/**
+ * Service publishing library and import activity to event stream clients
+ * Events are numbered and kept in a bounded in-memory buffer, so a client can resume from
+ * the last id it has seen; waiting requests are answered as soon as a matching event arrives
+ */
+export class EventService implements IService {
+  private initialized = false
+  private events: ApiEvent[] = []
+  private nextId = 1
+  private waiters: Set<EventWaiter> = new Set()
+  private listeners: Set<EventListener> = new Set()
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return
+
+    logger.info('Initializing EventService')
+    this.initialized = true
+  }
+
+  async cleanup(): Promise<void> {
+    logger.info('Cleaning up EventService')
+
+    // Answer waiting requests so the server can shut down
+    for (const waiter of this.waiters) {
+      waiter.timer.cancel()
+      waiter.resolve(this.getEvents(waiter.since, waiter.filter))
+    }
+    this.waiters.clear()
+    this.listeners.clear()
+    this.initialized = false
+  }
+
+  isInitialized(): boolean {
+    return this.initialized
+  }
+
+  /**
+   * Get the id of the most recent event
+   * @returns Last event id, 0 when nothing was published yet
+   */
+  getLastEventId(): number {
+    return this.nextId - 1
+  }
+
+  /**
+   * Publish an event to the stream
+   * @param type - Event type
+   * @param data - Event payload
+   * @param context - Library and collections the event belongs to, used for filtering
+   * @returns The published event
+   */
+  publish(type: ApiEventType, data: Record<string, any>, context: EventContext = {}): ApiEvent {
+    const event: ApiEvent = {
+      id: this.nextId++,
+      type,
+      timestamp: new Date().toISOString(),
+      libraryID: context.libraryID ?? null,
+      collections: context.collections ?? null,
+      data,
+    }
+
+    this.events.push(event)
+    if (this.events.length > EVENT_STREAM.MAX_BUFFERED_EVENTS) {
+      this.events.splice(0, this.events.length - EVENT_STREAM.MAX_BUFFERED_EVENTS)
+    }
+
+    for (const waiter of this.waiters) {
+      if (this.matchesFilter(event, waiter.filter)) {
+        this.waiters.delete(waiter)
+        waiter.timer.cancel()
+        waiter.resolve(this.getEvents(waiter.since, waiter.filter))
+      }
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event)
+      } catch (error) {
+        logger.error(`Error in event listener: ${error}`)
+      }
+    }
+
+    return event
+  }
+
+  /**
+   * Register a listener called for every published event
+   * @param listener - Function receiving each event
+   * @returns Function removing the listener
+   */
+  subscribe(listener: EventListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Publish events for a Zotero item notification
+   * @param event - Notifier event (add, modify, delete, trash)
+   * @param ids - Item IDs
+   * @param extraData - Notifier extra data, the only source of keys for deleted items
+   */
+  publishItemEvents(event: string, ids: number[], extraData: Record<string, any> = {}): void {
+    const type = ITEM_EVENTS[event]
+    if (!type) return
+
+    try {
+      for (const id of ids) {
+        if (event === 'delete') {
+          const deleted = extraData[id] || {}
+          this.publish(type, { itemID: id, key: deleted.key ?? null }, { libraryID: deleted.libraryID ?? null })
+          continue
+        }
+
+        const item = Zotero.Items.get(id)
+        if (!item) continue
+
+        // Child items are not in collections themselves, they follow their parent
+        const parent = item.parentID ? Zotero.Items.get(item.parentID) : null
+        this.publish(type, {
+          itemID: id,
+          key: item.key,
+          itemType: item.itemType,
+          parentKey: parent ? parent.key : null,
+          title: item.getDisplayTitle(),
+        }, {
+          libraryID: item.libraryID,
+          collections: this.getCollectionKeys((parent || item).getCollections()),
+        })
+      }
+    } catch (error) {
+      logger.error(`Error publishing item events: ${error}`)
+    }
+  }
+
+  /**
+   * Run a translation, publishing translation.started and translation.finished around it
+   * @param source - Kind of translation (web or identifier)
+   * @param input - URL or identifier being translated
+   * @param target - Import target, when the caller chose one
+   * @param translate - Function performing the translation
+   * @returns The translation result
+   */
+  async trackTranslation(
+    source: 'web' | 'identifier',
+    input: string,
+    target: ImportTarget | undefined,
+    translate: () => Promise<TranslationResult>,
+  ): Promise<TranslationResult> {
+    const context: EventContext = target
+      ? { libraryID: target.libraryID, collections: this.getCollectionKeys(target.collectionIDs) }
+      : {}
+
+    this.publish('translation.started', { source, input }, context)
+    try {
+      const result = await translate()
+      this.publish('translation.finished', {
+        source,
+        input,
+        success: result.success,
+        translator: result.translator ?? null,
+        itemKeys: (result.items || []).map(item => item.key).filter(Boolean),
+        reason: result.reason ?? null,
+      }, context)
+      return result
+    } catch (error) {
+      this.publish('translation.finished', {
+        source,
+        input,
+        success: false,
+        translator: null,
+        itemKeys: [],
+        reason: String(error),
+      }, context)
+      throw error
+    }
+  }
+
+  /**
+   * Get the buffered events after an event id
+   * @param since - Last event id the client has seen (0 for everything buffered)
+   * @param filter - Library, collection and type filter
+   * @returns Matching events, the cursor to resume from and whether events were dropped
+   */
+  getEvents(since: number, filter: ApiEventFilter = {}): EventBatch {
+    const lastEventId = this.getLastEventId()
+
+    // A cursor from before a restart cannot be resumed; send everything still buffered
+    const restarted = since > lastEventId
+    const cursor = restarted ? 0 : since
+    const oldestId = this.events.length > 0 ? this.events[0].id : this.nextId
+
+    return {
+      events: this.events.filter(event => event.id > cursor && this.matchesFilter(event, filter)),
+      lastEventId,
+      missed: restarted || (cursor > 0 && cursor < oldestId - 1),
+    }
+  }
+
+  /**
+   * Wait for events after an event id (long polling)
+   * @param since - Last event id the client has seen
+   * @param filter - Library, collection and type filter
+   * @param timeoutMs - How long to wait when there are no matching events yet
+   * @returns Matching events, empty when the timeout passed first
+   */
+  waitForEvents(since: number, filter: ApiEventFilter, timeoutMs: number): Promise<EventBatch> {
+    const batch = this.getEvents(since, filter)
+    if (batch.events.length > 0 || batch.missed || timeoutMs <= 0) {
+      return Promise.resolve(batch)
+    }
+
+    return new Promise(resolve => {
+      const timer = Components.classes['@mozilla.org/timer;1'].createInstance(Components.interfaces.nsITimer)
+      const waiter: EventWaiter = { since, filter, resolve, timer }
+      timer.initWithCallback(() => {
+        this.waiters.delete(waiter)
+        resolve(this.getEvents(since, filter))
+      }, timeoutMs, Components.interfaces.nsITimer.TYPE_ONE_SHOT)
+      this.waiters.add(waiter)
+    })
+  }
+
+  /**
+   * Check whether an event passes a filter
+   * Events not tied to a library or collection (AI calls, deletions) pass those filters
+   * @param event - Event to check
+   * @param filter - Library, collection and type filter
+   * @returns True if the event matches
+   */
+  private matchesFilter(event: ApiEvent, filter: ApiEventFilter): boolean {
+    if (filter.types && filter.types.length > 0 && !filter.types.includes(event.type)) {
+      return false
+    }
+    if (filter.libraryID !== undefined && event.libraryID !== null && event.libraryID !== filter.libraryID) {
+      return false
+    }
+    if (filter.collection && event.collections !== null && !event.collections.includes(filter.collection)) {
+      return false
+    }
+    return true
+  }
+
+  /**
+   * Resolve collection IDs to keys
+   * @param collectionIDs - Collection IDs
+   * @returns Collection keys
+   */
+  private getCollectionKeys(collectionIDs: number[]): string[] {
+    return collectionIDs
+      .map(collectionID => Zotero.Collections.get(collectionID))
+      .filter(collection => collection)
+      .map(collection => collection.key)
+  }
+}
@@ -0,0 +1,126 @@
+import { IService, PluginError, ValidationError } from '../core/types'
+import { serviceLogger as logger } from '../core/Logger'
+import { IDEMPOTENCY } from '../config/constants'
+
+type EndpointResponse = [number, string, string]
+
+interface IdempotencyRecord {
+  fingerprint: string
+  createdAt: number
+  pending: Promise<EndpointResponse> | null
+  response: EndpointResponse | null
+}
+
+/**
+ * Service remembering the responses of import requests sent with an idempotency key
+ * A client retrying a request that timed out gets the original response (and item keys)
+ * back instead of importing the same items again. Successful responses are kept for the
+ * idempotencyWindowMinutes preference; failed requests are forgotten so they can be retried.
+ */
+export class IdempotencyService implements IService {
+  private initialized = false
+  private records: Map<string, IdempotencyRecord> = new Map()
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return
+
+    logger.info('Initializing IdempotencyService')
+    this.initialized = true
+  }
+
+  async cleanup(): Promise<void> {
+    logger.info('Cleaning up IdempotencyService')
+    this.records.clear()
+    this.initialized = false
+  }
+
+  isInitialized(): boolean {
+    return this.initialized
+  }
+
+  /**
+   * Run a request once per idempotency key
+   * A repeated request while the first is still running waits for its response.
+   * @param key - Idempotency key, scoped by the caller to the client and endpoint
+   * @param fingerprint - Serialized request, which repeated requests must match
+   * @param handler - Function handling the request
+   * @returns The response, with an Idempotent-Replayed header when it was remembered
+   * @throws PluginError (422) when the key was used for a different request
+   */
+  async execute(
+    key: string,
+    fingerprint: string,
+    handler: () => Promise<EndpointResponse>,
+  ): Promise<[number, string | Record<string, string>, string]> {
+    this.pruneRecords()
+
+    const record = this.records.get(key)
+    if (record) {
+      if (record.fingerprint !== fingerprint) {
+        throw new PluginError('Idempotency key was already used for a different request', 422)
+      }
+
+      const [statusCode, contentType, body] = record.response ?? await record.pending!
+      logger.info(`Replaying response for idempotency key ${key}`)
+      return [statusCode, { 'Content-Type': contentType, [IDEMPOTENCY.REPLAYED_HEADER]: 'true' }, body]
+    }
+
+    const pending = handler()
+    const newRecord: IdempotencyRecord = { fingerprint, createdAt: Date.now(), pending, response: null }
+    this.records.set(key, newRecord)
+
+    try {
+      const response = await pending
+      if (response[0] >= 200 && response[0] < 300) {
+        newRecord.response = response
+        newRecord.pending = null
+      } else {
+        this.records.delete(key)
+      }
+      return response
+    } catch (error) {
+      this.records.delete(key)
+      throw error
+    }
+  }
+
+  /**
+   * Read and validate the idempotency key of a request (header or body field)
+   * @param headerValue - Idempotency-Key header value
+   * @param bodyValue - idempotencyKey body field
+   * @returns The key, or null when none was sent
+   * @throws ValidationError when the key is not a string of acceptable length
+   */
+  parseKey(headerValue: string | null, bodyValue: any): string | null {
+    const value = headerValue ?? bodyValue
+    if (value === undefined || value === null || value === '') return null
+
+    if (typeof value !== 'string' || value.trim().length === 0 || value.length > IDEMPOTENCY.MAX_KEY_LENGTH) {
+      throw new ValidationError(`idempotencyKey must be a string of at most ${IDEMPOTENCY.MAX_KEY_LENGTH} characters`)
+    }
+    return value.trim()
+  }
+
+  /**
+   * Forget responses older than the window, and the oldest ones beyond the size limit
+   */
+  private pruneRecords(): void {
+    const minutes = Number(Zotero.Prefs.get('idempotencyWindowMinutes'))
+    const window = (Number.isFinite(minutes) && minutes >= 0 ? minutes : IDEMPOTENCY.DEFAULT_WINDOW_MINUTES) * 60 * 1000
+    const cutoff = Date.now() - window
+
+    for (const [key, record] of this.records) {
+      if (record.response && record.createdAt < cutoff) {
+        this.records.delete(key)
+      }
+    }
+
+    // Maps iterate in insertion order, so the oldest keys come first
+    for (const [key, record] of this.records) {
+      if (this.records.size <= IDEMPOTENCY.MAX_REMEMBERED_KEYS) break
+      if (record.response) {
+        this.records.delete(key)
+      }
+    }
+  }
+}
@@ -0,0 +1,190 @@
+import { IService } from '../core/types'
+import { serviceLogger as logger } from '../core/Logger'
+import { LibraryUtils } from '../utils/LibraryUtils'
+import { CitationGenerator } from './CitationGenerator'
+import { CitationKeyService } from './CitationKeyService'
+
+/**
+ * Service for serializing Zotero items into the API's item data shape
+ * Shared by the item, search and other endpoints that return full item data
+ */
+export class ItemDataService implements IService {
+  private initialized = false
+  private citationKeyService: CitationKeyService
+  private citationGenerator: CitationGenerator
+
+  constructor(citationKeyService: CitationKeyService, citationGenerator: CitationGenerator) {
+    this.citationKeyService = citationKeyService
+    this.citationGenerator = citationGenerator
+  }
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return
+
+    logger.info('Initializing ItemDataService')
+    this.initialized = true
+  }
+
+  async cleanup(): Promise<void> {
+    logger.info('Cleaning up ItemDataService')
+    this.initialized = false
+  }
+
+  isInitialized(): boolean {
+    return this.initialized
+  }
+
+  /**
+   * Extract comprehensive data from a Zotero item
+   * @param item - Zotero item object
+   * @returns Extracted item data
+   */
+  async extractItemData(item: any): Promise<any> {
+    const itemData: any = {
+      key: item.key,
+      version: item.version,
+      itemType: item.itemType,
+      libraryID: item.libraryID,
+      library: LibraryUtils.getLibraryInfo(item.libraryID),
+      dateAdded: item.dateAdded,
+      dateModified: item.dateModified,
+      fields: {},
+      creators: [],
+      tags: [],
+      collections: [],
+      relations: {},
+      attachments: [],
+      notes: [],
+      raw: item,
+    }
+
+    // Extract all fields
+    const fieldNames = item.getUsedFields()
+    for (const fieldName of fieldNames) {
+      try {
+        const value = item.getField(fieldName)
+        if (value) {
+          itemData.fields[fieldName] = value
+        }
+      } catch (error) {
+        logger.warn(`Could not get field ${fieldName}: ${error}`)
+      }
+    }
+
+    // For backwards compatibility, include title and date at top level
+    itemData.title = item.getField('title') || itemData.fields.title || 'Untitled'
+    itemData.date = item.getField('date') || itemData.fields.date || ''
+
+    // Extract creators
+    const creators = item.getCreators()
+    itemData.creators = creators.map((creator: any) => ({
+      creatorType: creator.creatorType,
+      firstName: creator.firstName || '',
+      lastName: creator.lastName || '',
+      name: creator.name || '',
+    }))
+
+    // Extract tags
+    const tags = item.getTags()
+    itemData.tags = tags.map((tag: any) => ({
+      tag: tag.tag,
+      type: tag.type || 0,
+    }))
+
+    // Extract collections
+    const collections = item.getCollections()
+    itemData.collections = collections
+
+    // Extract relations
+    itemData.relations = item.getRelations()
+
+    // Extract attachments if this is a regular item
+    if (item.isRegularItem()) {
+      const attachmentIDs = item.getAttachments()
+      itemData.attachments = await Promise.all(
+        attachmentIDs.map(async (attachmentID: number) => {
+          try {
+            const attachment = await Zotero.Items.getAsync(attachmentID)
+            return {
+              key: attachment.key,
+              title: attachment.getField('title'),
+              contentType: attachment.attachmentContentType,
+              path: attachment.attachmentPath,
+              linkMode: attachment.attachmentLinkMode,
+            }
+          } catch (error) {
+            logger.warn(`Could not get attachment ${attachmentID}: ${error}`)
+            return null
+          }
+        }),
+      )
+      itemData.attachments = itemData.attachments.filter(Boolean)
+
+      // Extract notes
+      const noteIDs = item.getNotes()
+      itemData.notes = await Promise.all(
+        noteIDs.map(async (noteID: number) => {
+          try {
+            const note = await Zotero.Items.getAsync(noteID)
+            return {
+              key: note.key,
+              note: note.getNote(),
+              dateAdded: note.dateAdded,
+              dateModified: note.dateModified,
+            }
+          } catch (error) {
+            logger.warn(`Could not get note ${noteID}: ${error}`)
+            return null
+          }
+        }),
+      )
+      itemData.notes = itemData.notes.filter(Boolean)
+    }
+
+    // Stored citation key (null until one is generated)
+    itemData.citationKey = this.citationKeyService.getCitationKey(item)
+
+    // Generate citation if citation service is available
+    try {
+      const citationResult = await this.citationGenerator.generateProfessionalCitations([item])
+      if (citationResult.success && citationResult.citations.length > 0) {
+        itemData.citation = citationResult.citations[0]
+        itemData.citationFormat = citationResult.format
+        itemData.citationStyle = citationResult.style
+        if (citationResult.bibliography?.length) {
+          itemData.bibliography = citationResult.bibliography[0]
+        }
+      }
+    } catch (error) {
+      logger.warn(`Could not generate citation: ${error}`)
+    }
+
+    // Generate API and web library URLs (groups/<id> for group items, users/<id> otherwise)
+    try {
+      const ownerPath = this.getOwnerPath(item)
+      if (ownerPath) {
+        itemData.apiURL = `https://api.zotero.org/${ownerPath}/items/${item.key}`
+        itemData.webURL = `https://www.zotero.org/${ownerPath}/items/${item.key}`
+      }
+    } catch (error) {
+      logger.warn(`Could not generate API/web URLs: ${error}`)
+    }
+
+    return itemData
+  }
+
+  /**
+   * Get the zotero.org path segment owning an item
+   * @param item - Zotero item
+   * @returns "groups/<groupID>", "users/<userID>", or null when not signed in
+   */
+  private getOwnerPath(item: any): string | null {
+    const library = item.library
+    if (library?.libraryType === 'group') {
+      return `groups/${library.groupID}`
+    }
+
+    const userID = Zotero.Users.getCurrentUserID()
+    return userID ? `users/${userID}` : null
+  }
+}
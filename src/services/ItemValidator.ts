@@ -181,11 +181,11 @@ export class ItemValidator implements IService {
   }
 
   /**
-   * Find item in all libraries
+   * Find item in all libraries (user library first, then group libraries)
    * @param itemKey - Item key to search for
    * @returns Found item or null
    */
-  private async findItemInAllLibraries(itemKey: string): Promise<any | null> {
+  async findItemInAllLibraries(itemKey: string): Promise<any | null> {
     const allLibraries = Zotero.Libraries.getAll()
 
     for (const library of allLibraries) {
@@ -0,0 +1,300 @@
+import { IService, JobContext, JobStage, JobStatus, JobType, ValidationError } from '../core/types'
+import { ServiceManager } from '../core/ServiceManager'
+import { serviceLogger as logger } from '../core/Logger'
+import { API_ENDPOINTS, JOB_QUEUE } from '../config/constants'
+
+const JOB_ENDPOINTS: Record<JobType, string> = {
+  url: API_ENDPOINTS.PROCESS_URL,
+  url_ai: API_ENDPOINTS.PROCESS_URL_WITH_AI,
+  identifier: API_ENDPOINTS.PROCESS_IDENTIFIER,
+}
+
+export interface ImportJob {
+  id: string
+  type: JobType
+  input: Record<string, any>
+  status: JobStatus
+  stage: JobStage
+  stages: Array<{ stage: JobStage; at: string }>
+  createdAt: string
+  startedAt?: string
+  finishedAt?: string
+  cancelRequested: boolean
+  statusCode?: number
+  result?: any
+  error?: string
+}
+
+/**
+ * Service for running slow imports (web, PDF and AI translation) as background jobs
+ * Jobs run the regular processing endpoints outside the HTTP request, so they keep
+ * going when the client disconnects, and are kept for polling until the retention
+ * period (jobRetentionMinutes preference) has passed
+ */
+export class JobQueue implements IService {
+  private initialized = false
+  private serviceManager: ServiceManager
+  private jobs: Map<string, ImportJob> = new Map()
+  private pending: string[] = []
+  private running = 0
+
+  constructor(serviceManager: ServiceManager) {
+    this.serviceManager = serviceManager
+  }
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return
+
+    logger.info('Initializing JobQueue service')
+    this.initialized = true
+  }
+
+  async cleanup(): Promise<void> {
+    logger.info('Cleaning up JobQueue service')
+
+    // Running jobs stop at their next stage boundary
+    for (const job of this.jobs.values()) {
+      if (job.status === 'queued' || job.status === 'running') {
+        job.cancelRequested = true
+      }
+    }
+    this.pending = []
+    this.initialized = false
+  }
+
+  isInitialized(): boolean {
+    return this.initialized
+  }
+
+  /**
+   * Queue a new import job
+   * @param type - Job type (url, url_ai or identifier)
+   * @param input - Request body passed to the processing endpoint
+   * @returns The queued job
+   */
+  submit(type: JobType, input: Record<string, any>): ImportJob {
+    if (!JOB_ENDPOINTS[type]) {
+      throw new ValidationError(`Unknown job type: ${type}`)
+    }
+
+    this.pruneJobs()
+
+    const now = new Date().toISOString()
+    const job: ImportJob = {
+      id: Zotero.Utilities.randomString(16),
+      type,
+      input,
+      status: 'queued',
+      stage: 'queued',
+      stages: [{ stage: 'queued', at: now }],
+      createdAt: now,
+      cancelRequested: false,
+    }
+
+    this.jobs.set(job.id, job)
+    this.pending.push(job.id)
+    logger.info(`Queued ${type} job ${job.id}`)
+
+    this.processQueue()
+    return job
+  }
+
+  /**
+   * Get a job by id
+   * @param jobId - Job id
+   * @returns Job or null if unknown or expired
+   */
+  getJob(jobId: string): ImportJob | null {
+    this.pruneJobs()
+    return this.jobs.get(jobId) ?? null
+  }
+
+  /**
+   * List retained jobs, newest first
+   * @param status - Optional status filter
+   * @returns Jobs
+   */
+  listJobs(status?: JobStatus): ImportJob[] {
+    this.pruneJobs()
+    return Array.from(this.jobs.values())
+      .filter(job => !status || job.status === status)
+      .reverse()
+  }
+
+  /**
+   * Cancel a queued or running job
+   * Queued jobs are cancelled immediately; running jobs stop at their next stage
+   * @param jobId - Job id
+   * @returns The job, or null if unknown
+   */
+  cancel(jobId: string): ImportJob | null {
+    const job = this.jobs.get(jobId)
+    if (!job) return null
+
+    if (job.status === 'queued') {
+      this.pending = this.pending.filter(id => id !== jobId)
+      this.finishJob(job, 'cancelled')
+    } else if (job.status === 'running') {
+      job.cancelRequested = true
+      logger.info(`Cancellation requested for job ${jobId}`)
+    }
+
+    return job
+  }
+
+  /**
+   * Build the public representation of a job
+   * @param job - Job
+   * @returns Serializable job data
+   */
+  serializeJob(job: ImportJob): Record<string, any> {
+    return {
+      id: job.id,
+      type: job.type,
+      input: job.input,
+      status: job.status,
+      stage: job.stage,
+      stages: job.stages,
+      cancelRequested: job.cancelRequested,
+      createdAt: job.createdAt,
+      ...(job.startedAt && { startedAt: job.startedAt }),
+      ...(job.finishedAt && { finishedAt: job.finishedAt }),
+      ...(job.statusCode !== undefined && { statusCode: job.statusCode }),
+      ...(job.result !== undefined && { result: job.result }),
+      ...(job.error && { error: job.error }),
+    }
+  }
+
+  /**
+   * Start queued jobs while running slots are free
+   */
+  private processQueue(): void {
+    while (this.running < JOB_QUEUE.MAX_RUNNING_JOBS && this.pending.length > 0) {
+      const job = this.jobs.get(this.pending.shift()!)
+      if (!job) continue
+
+      this.running++
+      this.runJob(job)
+        .catch(error => logger.error(`Unexpected error running job ${job.id}: ${error}`))
+        .finally(() => {
+          this.running--
+          this.processQueue()
+        })
+    }
+  }
+
+  /**
+   * Run a job through its processing endpoint
+   * @param job - Job to run
+   */
+  private async runJob(job: ImportJob): Promise<void> {
+    job.status = 'running'
+    job.startedAt = new Date().toISOString()
+    logger.info(`Running ${job.type} job ${job.id}`)
+
+    const endpoint = this.serviceManager.apiServer.getEndpoint(JOB_ENDPOINTS[job.type])
+    if (!endpoint) {
+      job.error = `Endpoint ${JOB_ENDPOINTS[job.type]} is not available`
+      this.finishJob(job, 'failed')
+      return
+    }
+
+    const jobContext: JobContext = {
+      jobId: job.id,
+      setStage: (stage: JobStage) => this.setStage(job, stage),
+      isCancelled: () => job.cancelRequested,
+    }
+
+    // Jobs are admitted by the queue, so they count against the translation cap without being rejected
+    const releaseSlot = this.serviceManager.rateLimiter.holdTranslationSlot()
+    try {
+      const [statusCode, , body] = await endpoint.handleRequest({ data: job.input, jobContext })
+      job.statusCode = statusCode
+      const response = this.parseBody(body)
+
+      // A job that finished before noticing the cancellation keeps its result
+      if (statusCode < 400) {
+        job.result = response
+        this.finishJob(job, 'completed')
+      } else if (job.cancelRequested) {
+        this.finishJob(job, 'cancelled')
+      } else {
+        job.error = response?.error?.message || `Request failed with status ${statusCode}`
+        job.result = response
+        this.finishJob(job, 'failed')
+      }
+    } catch (error) {
+      job.error = `${error}`
+      this.finishJob(job, job.cancelRequested ? 'cancelled' : 'failed')
+    } finally {
+      releaseSlot()
+    }
+  }
+
+  /**
+   * Record a stage transition
+   * @param job - Job
+   * @param stage - New stage
+   */
+  private setStage(job: ImportJob, stage: JobStage): void {
+    if (job.stage === stage) return
+
+    job.stage = stage
+    job.stages.push({ stage, at: new Date().toISOString() })
+    logger.debug(`Job ${job.id} entered stage ${stage}`)
+  }
+
+  /**
+   * Mark a job as finished
+   * @param job - Job
+   * @param status - Final status
+   */
+  private finishJob(job: ImportJob, status: JobStatus): void {
+    job.status = status
+    job.finishedAt = new Date().toISOString()
+    if (status === 'completed') {
+      this.setStage(job, 'done')
+    }
+    logger.info(`Job ${job.id} ${status}${job.error ? `: ${job.error}` : ''}`)
+  }
+
+  /**
+   * Parse a JSON response body
+   * @param body - Response body
+   * @returns Parsed body, or the raw string when it is not JSON
+   */
+  private parseBody(body: string): any {
+    try {
+      return JSON.parse(body)
+    } catch (error) {
+      logger.debug(`Job response is not JSON: ${error}`)
+      return body
+    }
+  }
+
+  /**
+   * Drop finished jobs older than the retention period
+   */
+  private pruneJobs(): void {
+    const minutes = Number(Zotero.Prefs.get('jobRetentionMinutes'))
+    const retention = (Number.isFinite(minutes) && minutes >= 0 ? minutes : JOB_QUEUE.DEFAULT_RETENTION_MINUTES) * 60 * 1000
+    const cutoff = Date.now() - retention
+
+    const finished: ImportJob[] = []
+    for (const job of this.jobs.values()) {
+      if (!job.finishedAt) continue
+
+      if (new Date(job.finishedAt).getTime() < cutoff) {
+        this.jobs.delete(job.id)
+      } else {
+        finished.push(job)
+      }
+    }
+
+    // Cap memory use when many jobs finish within the retention period
+    const excess = this.jobs.size - JOB_QUEUE.MAX_RETAINED_JOBS
+    if (excess > 0) {
+      finished.slice(0, excess).forEach(job => this.jobs.delete(job.id))
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import { IService } from '../core/types'
+import { serviceLogger as logger } from '../core/Logger'
+import { LIBRARY_SEARCH } from '../config/constants'
+
+export interface LibrarySearchCriteria {
+  libraryID: number
+  query?: string
+  title?: string
+  creator?: string
+  yearFrom?: number
+  yearTo?: number
+  itemType?: string
+  tags?: string[]
+  collection?: string
+  recursive?: boolean
+  doi?: string
+  fulltext?: string
+  sort?: string
+  direction?: 'asc' | 'desc'
+}
+
+/**
+ * Service for querying a library with structured conditions through Zotero.Search
+ * Matches on attachments and notes (e.g. full-text hits) are reported as their parent item
+ */
+export class LibrarySearchService implements IService {
+  private initialized = false
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return
+
+    logger.info('Initializing LibrarySearchService')
+    this.initialized = true
+  }
+
+  async cleanup(): Promise<void> {
+    logger.info('Cleaning up LibrarySearchService')
+    this.initialized = false
+  }
+
+  isInitialized(): boolean {
+    return this.initialized
+  }
+
+  /**
+   * Run a search and return the matching regular items, sorted
+   * @param criteria - Search conditions (all must match)
+   * @returns Sorted regular items, or null if the collection does not exist
+   */
+  async search(criteria: LibrarySearchCriteria): Promise<any[] | null> {
+    const search = new Zotero.Search()
+    search.libraryID = criteria.libraryID
+
+    if (criteria.collection) {
+      const collection = await Zotero.Collections.getByLibraryAndKeyAsync(criteria.libraryID, criteria.collection)
+      if (!collection) {
+        return null
+      }
+      search.addCondition('collection', 'is', collection.key)
+      if (criteria.recursive) {
+        search.addCondition('recursive', 'true')
+      }
+    }
+
+    if (criteria.query) {
+      search.addCondition('quicksearch-titleCreatorYear', 'contains', criteria.query)
+    }
+    if (criteria.title) {
+      search.addCondition('title', 'contains', criteria.title)
+    }
+    if (criteria.creator) {
+      search.addCondition('creator', 'contains', criteria.creator)
+    }
+    if (criteria.yearFrom !== undefined) {
+      search.addCondition('date', 'isAfter', `${criteria.yearFrom - 1}-12-31`)
+    }
+    if (criteria.yearTo !== undefined) {
+      search.addCondition('date', 'isBefore', `${criteria.yearTo + 1}-01-01`)
+    }
+    if (criteria.itemType) {
+      search.addCondition('itemType', 'is', criteria.itemType)
+    }
+    for (const tag of criteria.tags || []) {
+      search.addCondition('tag', 'is', tag)
+    }
+    if (criteria.doi) {
+      search.addCondition('DOI', 'contains', criteria.doi)
+    }
+    if (criteria.fulltext) {
+      search.addCondition('fulltextContent', 'contains', criteria.fulltext)
+    }
+
+    const itemIDs = await search.search()
+    const items = await Zotero.Items.getAsync(itemIDs)
+    const regularItems = this.toRegularItems(items)
+
+    logger.info(`Library search matched ${itemIDs.length} item(s), ${regularItems.length} regular item(s)`)
+    return this.sortItems(regularItems, criteria.sort, criteria.direction)
+  }
+
+  /**
+   * Check whether an item type name exists
+   * @param itemType - Item type name (e.g. journalArticle)
+   * @returns True for known item types
+   */
+  isValidItemType(itemType: string): boolean {
+    return !!Zotero.ItemTypes.getID(itemType)
+  }
+
+  /**
+   * Replace child matches with their parent items and drop duplicates
+   * @param items - Matched items
+   * @returns Unique regular items in match order
+   */
+  private toRegularItems(items: any[]): any[] {
+    const seen = new Set<number>()
+    const regularItems: any[] = []
+
+    for (const item of items) {
+      const candidate = item.isRegularItem() ? item : item.parentItem
+      if (!candidate || !candidate.isRegularItem() || seen.has(candidate.id)) continue
+
+      seen.add(candidate.id)
+      regularItems.push(candidate)
+    }
+
+    return regularItems
+  }
+
+  /**
+   * Sort items by one of LIBRARY_SEARCH.SORT_FIELDS
+   * @param items - Items to sort
+   * @param sort - Sort field (defaults to dateModified)
+   * @param direction - Sort direction (defaults to desc for dates, asc otherwise)
+   * @returns Sorted items
+   */
+  private sortItems(items: any[], sort: string = LIBRARY_SEARCH.DEFAULT_SORT, direction?: 'asc' | 'desc'): any[] {
+    const isDateField = sort === 'date' || sort === 'dateAdded' || sort === 'dateModified'
+    const factor = (direction ?? (isDateField ? 'desc' : 'asc')) === 'desc' ? -1 : 1
+
+    const sortValue = (item: any): string => {
+      switch (sort) {
+        case 'title':
+          return (item.getField('title') || '').toLowerCase()
+        case 'creator':
+          return (item.getField('firstCreator') || '').toLowerCase()
+        case 'date':
+          // Multipart dates (YYYY-MM-DD originalText) sort chronologically as strings
+          return item.getField('date', true, true) || ''
+        case 'dateAdded':
+          return item.dateAdded || ''
+        default:
+          return item.dateModified || ''
+      }
+    }
+
+    return items
+      .map(item => ({ item, value: sortValue(item) }))
+      .sort((a, b) => a.value.localeCompare(b.value) * factor)
+      .map(entry => entry.item)
+  }
+}
@@ -0,0 +1,141 @@
+import { IService } from '../core/types'
+import { serviceLogger as logger } from '../core/Logger'
+import { MarkdownUtils } from '../utils/MarkdownUtils'
+
+export interface NoteContent {
+  markdown?: string
+  html?: string
+}
+
+export interface NoteCreateOptions {
+  libraryID: number
+  content: NoteContent
+  parentItem?: any
+  collectionIDs?: number[]
+  tags?: string[]
+}
+
+/**
+ * Service for creating, updating and serializing child and standalone notes
+ * Notes can be written and read as Markdown, which is converted to and from Zotero's HTML note format
+ */
+export class NoteService implements IService {
+  private initialized = false
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return
+
+    logger.info('Initializing NoteService')
+    this.initialized = true
+  }
+
+  async cleanup(): Promise<void> {
+    logger.info('Cleaning up NoteService')
+    this.initialized = false
+  }
+
+  isInitialized(): boolean {
+    return this.initialized
+  }
+
+  /**
+   * Create a note, as a child of parentItem or as a standalone note
+   * @param options - Library, content, optional parent item, collections (standalone only) and tags
+   * @returns The saved note
+   */
+  async createNote(options: NoteCreateOptions): Promise<any> {
+    const note = new Zotero.Item('note')
+    note.libraryID = options.libraryID
+    note.setNote(this.toHtml(options.content))
+
+    if (options.parentItem) {
+      note.parentID = options.parentItem.id
+    } else if (options.collectionIDs && options.collectionIDs.length > 0) {
+      note.setCollections(options.collectionIDs)
+    }
+
+    for (const tag of options.tags || []) {
+      note.addTag(tag)
+    }
+
+    await note.saveTx()
+    logger.info(`Created ${options.parentItem ? `child note of ${options.parentItem.key}` : 'standalone note'}: ${note.key}`)
+    return note
+  }
+
+  /**
+   * Replace the content and/or tags of a note
+   * @param note - Note item
+   * @param content - New content (unchanged when omitted)
+   * @param tags - New tags replacing the existing ones (unchanged when omitted)
+   * @returns The saved note
+   */
+  async updateNote(note: any, content?: NoteContent, tags?: string[]): Promise<any> {
+    if (content) {
+      note.setNote(this.toHtml(content))
+    }
+    if (tags) {
+      note.setTags(tags.map(tag => ({ tag })))
+    }
+
+    if (note.hasChanged()) {
+      await note.saveTx()
+      logger.info(`Updated note ${note.key}`)
+    }
+    return note
+  }
+
+  /**
+   * Get the child notes of an item
+   * @param item - Regular item
+   * @returns Note items
+   */
+  async getChildNotes(item: any): Promise<any[]> {
+    return Zotero.Items.getAsync(item.getNotes())
+  }
+
+  /**
+   * Get the standalone notes filed in a collection
+   * @param collection - Collection
+   * @returns Note items
+   */
+  getCollectionNotes(collection: any): any[] {
+    return collection.getChildItems(false, false).filter((item: any) => item.isNote())
+  }
+
+  /**
+   * Describe a note for API responses
+   * @param note - Note item
+   * @returns Note data with Markdown and HTML content
+   */
+  serializeNote(note: any): Record<string, any> {
+    const html = note.getNote()
+    const parentItem = note.parentID ? Zotero.Items.get(note.parentID) : null
+
+    return {
+      key: note.key,
+      version: note.version,
+      libraryID: note.libraryID,
+      parentItemKey: parentItem ? parentItem.key : null,
+      title: note.getNoteTitle(),
+      markdown: MarkdownUtils.htmlToMarkdown(html),
+      html,
+      tags: note.getTags().map((tag: any) => tag.tag),
+      collections: parentItem ? [] : Zotero.Collections.get(note.getCollections()).map((collection: any) => collection.key),
+      dateAdded: note.dateAdded,
+      dateModified: note.dateModified,
+    }
+  }
+
+  /**
+   * Convert request content to note HTML
+   * @param content - Markdown or HTML content
+   * @returns Note HTML
+   */
+  private toHtml(content: NoteContent): string {
+    if (content.html !== undefined) {
+      return content.html
+    }
+    return MarkdownUtils.markdownToHtml(content.markdown || '')
+  }
+}
@@ -1,6 +1,8 @@
 import { serviceLogger as logger } from '../core/Logger'
 import { IService } from '../core/types'
 import { systemPromptIdentifierExtraction, userPromptIdentifierExtraction, systemPromptCitationDataExtraction, userPromptCitationDataExtraction } from '../utils/Prompts'
+import { EventService } from './EventService'
+import { RateLimiter } from './RateLimiter'
 
 /**
  * Service for interacting with Perplexity AI API
@@ -13,6 +15,13 @@ export class PerplexityService implements IService {
   private readonly citationModel = 'sonar-pro' // Premium model for citation data extraction
   private initialized = false
   private apiKey: string | null = null
+  private eventService: EventService
+  private rateLimiter: RateLimiter
+
+  constructor(eventService: EventService, rateLimiter: RateLimiter) {
+    this.eventService = eventService
+    this.rateLimiter = rateLimiter
+  }
 
   /**
    * Initialize the Perplexity service
@@ -306,6 +315,7 @@ export class PerplexityService implements IService {
    * @returns Promise<any> - API response
    */
   private async makeChatRequest(systemPrompt: string, userPrompt: string, model: string): Promise<any> {
+    let status: number | null = null
     try {
       const url = `${this.baseUrl}/chat/completions`
 
@@ -336,6 +346,7 @@ export class PerplexityService implements IService {
       logger.debug(`API key present: ${!!this.apiKey}`)
       logger.debug(`Payload: ${JSON.stringify(payload, null, 2)}`)
 
+      await this.rateLimiter.waitForDomain(url)
       const response = await Zotero.HTTP.request('POST', url, {
         headers,
         body: JSON.stringify(payload),
@@ -343,6 +354,7 @@ export class PerplexityService implements IService {
         responseType: 'json',
       })
 
+      status = response.status
       logger.info(`Perplexity API response status: ${response.status}`)
 
       if (response.status !== 200) {
@@ -356,6 +368,8 @@ export class PerplexityService implements IService {
       logger.error(`Perplexity API request failed: ${error}`)
       logger.error(`Error details: ${JSON.stringify(error, null, 2)}`)
       throw error
+    } finally {
+      this.eventService.publish('ai.call', { provider: 'perplexity', model, status, success: status === 200 })
     }
   }
 
@@ -0,0 +1,223 @@
+import { IService, RateLimitError } from '../core/types'
+import { serviceLogger as logger } from '../core/Logger'
+import { DEFAULT_PREFERENCES, RATE_LIMIT } from '../config/constants'
+import { UrlUtils } from '../utils/UrlUtils'
+
+interface TokenBucket {
+  tokens: number
+  updatedAt: number
+}
+
+/**
+ * Service protecting Zotero, publisher sites and the AI provider from request floods
+ *
+ * - Per-client token buckets limit how many translation requests each client (API token,
+ *   web page origin, or all other local clients together) may send
+ * - A global cap limits translations running at the same time
+ * - Outgoing requests to the same site are spaced out, so bulk imports do not get the
+ *   user's IP blocked by a publisher
+ *
+ * Limits are read from preferences on every use, so changes apply immediately.
+ */
+export class RateLimiter implements IService {
+  private initialized = false
+  private buckets: Map<string, TokenBucket> = new Map()
+  private runningTranslations = 0
+  private slotWaiters: Array<() => void> = []
+  private nextDomainRequest: Map<string, number> = new Map()
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return
+
+    logger.info('Initializing RateLimiter service')
+    this.initialized = true
+  }
+
+  async cleanup(): Promise<void> {
+    logger.info('Cleaning up RateLimiter service')
+    this.buckets.clear()
+    this.nextDomainRequest.clear()
+    this.initialized = false
+
+    // Let waiting batch entries go, so the server can shut down
+    this.slotWaiters.splice(0).forEach(wake => wake())
+  }
+
+  isInitialized(): boolean {
+    return this.initialized
+  }
+
+  /**
+   * Take one request from a client's token bucket
+   * @param clientKey - API token name, origin, or a shared key for other local clients
+   * @throws RateLimitError when the bucket is empty
+   */
+  consume(clientKey: string): void {
+    this.admit(clientKey)
+    this.charge(clientKey)
+  }
+
+  /**
+   * Check that a client may send a request, without taking from its bucket
+   * Used for batches, which are charged per translated entry instead
+   * @param clientKey - API token name, origin, or a shared key for other local clients
+   * @throws RateLimitError when the bucket is empty
+   */
+  admit(clientKey: string): void {
+    const perMinute = this.getLimit('rateLimitRequestsPerMinute')
+    if (perMinute <= 0) return
+
+    const bucket = this.getBucket(clientKey, perMinute)
+    if (bucket.tokens < 1) {
+      const retryAfter = Math.ceil((1 - bucket.tokens) / (perMinute / 60000) / 1000)
+      logger.warn(`Client ${clientKey} exceeded ${perMinute} translation requests per minute`)
+      throw new RateLimitError(
+        `Too many requests: at most ${perMinute} translation requests per minute are allowed`,
+        retryAfter,
+      )
+    }
+  }
+
+  /**
+   * Take one unit from an admitted client's bucket, without rejecting
+   * A client owes at most one burst, so a large batch delays its next requests by a bounded time
+   * @param clientKey - API token name, origin, or a shared key for other local clients
+   */
+  charge(clientKey: string): void {
+    const perMinute = this.getLimit('rateLimitRequestsPerMinute')
+    if (perMinute <= 0) return
+
+    const bucket = this.getBucket(clientKey, perMinute)
+    bucket.tokens = Math.max(-this.getBurst(), bucket.tokens - 1)
+  }
+
+  /**
+   * Claim a translation slot for an HTTP request
+   * @returns Function releasing the slot, to call when the request is done
+   * @throws RateLimitError when the maximum number of translations is already running
+   */
+  acquireTranslationSlot(): () => void {
+    const maxConcurrent = this.getLimit('maxConcurrentTranslations')
+    if (maxConcurrent > 0 && this.runningTranslations >= maxConcurrent) {
+      throw new RateLimitError(
+        `Too many translations in progress (limit ${maxConcurrent}), retry shortly`,
+        RATE_LIMIT.BUSY_RETRY_AFTER_SECONDS,
+      )
+    }
+    return this.holdTranslationSlot()
+  }
+
+  /**
+   * Wait for a free translation slot (batch entries), instead of rejecting when all are taken
+   * @returns Function releasing the slot
+   */
+  async waitForTranslationSlot(): Promise<() => void> {
+    const maxConcurrent = this.getLimit('maxConcurrentTranslations')
+    if (!this.initialized || maxConcurrent <= 0 || this.runningTranslations < maxConcurrent) {
+      return this.holdTranslationSlot()
+    }
+
+    await new Promise<void>(resolve => this.slotWaiters.push(resolve))
+    return this.waitForTranslationSlot()
+  }
+
+  /**
+   * Count a translation that was already admitted (background jobs), without rejecting it
+   * @returns Function releasing the slot
+   */
+  holdTranslationSlot(): () => void {
+    this.runningTranslations++
+
+    let released = false
+    return () => {
+      if (released) return
+      released = true
+      this.runningTranslations--
+      this.slotWaiters.shift()?.()
+    }
+  }
+
+  /**
+   * Wait until an outgoing request to a URL's site keeps the configured spacing
+   * Requests to the same host are delayed one after another; other hosts are not affected
+   * @param url - URL about to be requested
+   */
+  async waitForDomain(url: string): Promise<void> {
+    const spacing = this.getLimit('domainRequestSpacingMs')
+    if (spacing <= 0) return
+
+    const host = UrlUtils.extractDomain(url).toLowerCase()
+    const now = Date.now()
+    this.pruneDomains(now)
+
+    const scheduledAt = Math.max(now, this.nextDomainRequest.get(host) ?? 0)
+    this.nextDomainRequest.set(host, scheduledAt + spacing)
+
+    if (scheduledAt > now) {
+      logger.debug(`Delaying request to ${host} by ${scheduledAt - now} ms`)
+      await this.wait(scheduledAt - now)
+    }
+  }
+
+  /**
+   * Get a client's token bucket, refilled for the time since it was last used
+   * @param clientKey - Client key
+   * @param perMinute - Refill rate
+   * @returns Bucket
+   */
+  private getBucket(clientKey: string, perMinute: number): TokenBucket {
+    const capacity = this.getBurst()
+    const now = Date.now()
+
+    const bucket = this.buckets.get(clientKey) ?? { tokens: capacity, updatedAt: now }
+    bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * perMinute / 60000)
+    bucket.updatedAt = now
+    this.buckets.set(clientKey, bucket)
+    return bucket
+  }
+
+  /**
+   * Get the bucket capacity (requests a client may send at once)
+   * @returns Burst size, at least 1
+   */
+  private getBurst(): number {
+    return Math.max(1, this.getLimit('rateLimitBurst'))
+  }
+
+  /**
+   * Read a numeric limit preference, falling back to its default when unset or invalid
+   * @param pref - Preference name
+   * @returns Limit value
+   */
+  private getLimit(
+    pref: 'rateLimitRequestsPerMinute' | 'rateLimitBurst' | 'maxConcurrentTranslations' | 'domainRequestSpacingMs',
+  ): number {
+    const value = Number(Zotero.Prefs.get(pref))
+    return Number.isFinite(value) && value >= 0 ? value : DEFAULT_PREFERENCES[pref]
+  }
+
+  /**
+   * Drop spacing entries of sites that have been idle, once too many are tracked
+   * @param now - Current time
+   */
+  private pruneDomains(now: number): void {
+    if (this.nextDomainRequest.size <= RATE_LIMIT.MAX_TRACKED_DOMAINS) return
+
+    for (const [host, nextAt] of this.nextDomainRequest) {
+      if (nextAt <= now) {
+        this.nextDomainRequest.delete(host)
+      }
+    }
+  }
+
+  /**
+   * Wait for a number of milliseconds
+   * @param ms - Delay
+   */
+  private wait(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = Components.classes['@mozilla.org/timer;1'].createInstance(Components.interfaces.nsITimer)
+      timer.initWithCallback(() => resolve(), ms, Components.interfaces.nsITimer.TYPE_ONE_SHOT)
+    })
+  }
+}
@@ -0,0 +1,283 @@
+import { ApiEvent, ApiEventType, IService, WebhookConfig, WebhookDeliveryStatus } from '../core/types'
+import { serviceLogger as logger } from '../core/Logger'
+import { WEBHOOKS } from '../config/constants'
+import { EventService } from './EventService'
+import { ItemDataService } from './ItemDataService'
+
+const WEBHOOKS_PREF = 'webhooks'
+
+export interface WebhookDelivery {
+  id: string
+  webhook: string
+  url: string
+  eventId: number
+  eventType: string
+  itemKey: string
+  status: WebhookDeliveryStatus
+  attempts: number
+  createdAt: string
+  lastAttemptAt?: string
+  nextAttemptAt?: string
+  deliveredAt?: string
+  statusCode?: number
+  error?: string
+}
+
+/**
+ * Service posting item changes to webhook URLs configured in the webhooks preference
+ * Each matching item event is sent as JSON with the item in the same shape as the item endpoint.
+ * Failed deliveries are retried with exponential backoff, and every delivery is kept in a
+ * bounded in-memory log for inspection.
+ */
+export class WebhookService implements IService {
+  private initialized = false
+  private eventService: EventService
+  private itemDataService: ItemDataService
+  private unsubscribe: (() => void) | null = null
+  private deliveries: WebhookDelivery[] = []
+  private retryTimers: Map<any, () => void> = new Map()
+
+  constructor(eventService: EventService, itemDataService: ItemDataService) {
+    this.eventService = eventService
+    this.itemDataService = itemDataService
+  }
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return
+
+    logger.info('Initializing WebhookService')
+    this.unsubscribe = this.eventService.subscribe(event => {
+      this.handleEvent(event).catch(error => logger.error(`Error sending webhooks: ${error}`))
+    })
+    this.initialized = true
+  }
+
+  async cleanup(): Promise<void> {
+    logger.info('Cleaning up WebhookService')
+
+    if (this.unsubscribe) {
+      this.unsubscribe()
+      this.unsubscribe = null
+    }
+
+    // Wake up deliveries waiting for a retry; they stop because the service is no longer initialized
+    for (const [timer, wake] of this.retryTimers) {
+      timer.cancel()
+      wake()
+    }
+    this.retryTimers.clear()
+    this.initialized = false
+  }
+
+  isInitialized(): boolean {
+    return this.initialized
+  }
+
+  /**
+   * Get the configured webhooks, skipping malformed entries
+   * @returns Valid webhooks
+   */
+  getWebhooks(): WebhookConfig[] {
+    let stored: any[] = []
+    try {
+      const value = Zotero.Prefs.get(WEBHOOKS_PREF) as string
+      if (value) {
+        stored = JSON.parse(value)
+      }
+    } catch (error) {
+      logger.error(`Error reading webhooks: ${error}`)
+      return []
+    }
+
+    if (!Array.isArray(stored)) {
+      logger.error('Webhooks preference must be a JSON array')
+      return []
+    }
+
+    return stored
+      .filter(entry => entry && typeof entry.url === 'string' && /^https?:\/\//i.test(entry.url))
+      .map((entry, index) => ({
+        name: typeof entry.name === 'string' && entry.name ? entry.name : `webhook-${index + 1}`,
+        url: entry.url,
+        events: Array.isArray(entry.events)
+          ? entry.events.filter((event: any) => WEBHOOKS.EVENTS.includes(event))
+          : [...WEBHOOKS.DEFAULT_EVENTS] as ApiEventType[],
+        libraryID: Number.isInteger(entry.libraryID) ? entry.libraryID : undefined,
+        collection: typeof entry.collection === 'string' && entry.collection ? entry.collection : undefined,
+        tag: typeof entry.tag === 'string' && entry.tag ? entry.tag : undefined,
+        itemType: typeof entry.itemType === 'string' && entry.itemType ? entry.itemType : undefined,
+      }))
+  }
+
+  /**
+   * Get the delivery log, newest first
+   * @param webhook - Only deliveries of this webhook (name)
+   * @returns Logged deliveries
+   */
+  getDeliveries(webhook?: string): WebhookDelivery[] {
+    return this.deliveries
+      .filter(delivery => !webhook || delivery.webhook === webhook)
+      .slice()
+      .reverse()
+  }
+
+  /**
+   * Send an item event to every webhook whose filters match it
+   * @param event - Published event
+   */
+  private async handleEvent(event: ApiEvent): Promise<void> {
+    if (!WEBHOOKS.EVENTS.includes(event.type) || !event.data.itemID) return
+
+    const webhooks = this.getWebhooks().filter(webhook => webhook.events.includes(event.type))
+    if (webhooks.length === 0) return
+
+    const item = await Zotero.Items.getAsync(event.data.itemID)
+    if (!item) return
+
+    const matching = webhooks.filter(webhook => this.matchesWebhook(webhook, event, item))
+    if (matching.length === 0) return
+
+    const itemData = await this.itemDataService.extractItemData(item)
+
+    for (const webhook of matching) {
+      const delivery: WebhookDelivery = {
+        id: Zotero.Utilities.randomString(16),
+        webhook: webhook.name,
+        url: webhook.url,
+        eventId: event.id,
+        eventType: event.type,
+        itemKey: item.key,
+        status: 'pending',
+        attempts: 0,
+        createdAt: new Date().toISOString(),
+      }
+      this.logDelivery(delivery)
+
+      const payload = {
+        event: event.type,
+        eventId: event.id,
+        timestamp: event.timestamp,
+        deliveryId: delivery.id,
+        webhook: webhook.name,
+        libraryID: item.libraryID,
+        item: itemData,
+      }
+
+      this.deliver(delivery, payload).catch(error => logger.error(`Error delivering webhook ${webhook.name}: ${error}`))
+    }
+  }
+
+  /**
+   * Check whether an item event passes a webhook's filters
+   * Child items (attachments, notes) are only sent to webhooks filtering on their item type
+   * @param webhook - Webhook configuration
+   * @param event - Item event
+   * @param item - Zotero item
+   * @returns True if the webhook wants the event
+   */
+  private matchesWebhook(webhook: WebhookConfig, event: ApiEvent, item: any): boolean {
+    if (webhook.itemType ? item.itemType !== webhook.itemType : !item.isTopLevelItem()) {
+      return false
+    }
+    if (webhook.libraryID !== undefined && item.libraryID !== webhook.libraryID) {
+      return false
+    }
+    if (webhook.collection && !(event.collections || []).includes(webhook.collection)) {
+      return false
+    }
+    if (webhook.tag) {
+      const parent = item.parentID ? Zotero.Items.get(item.parentID) : null
+      const tags = (parent || item).getTags().map((tag: any) => tag.tag)
+      if (!tags.includes(webhook.tag)) {
+        return false
+      }
+    }
+    return true
+  }
+
+  /**
+   * POST a payload, retrying with exponential backoff on network errors, 408, 429 and 5xx
+   * @param delivery - Log entry, updated as attempts are made
+   * @param payload - JSON payload
+   */
+  private async deliver(delivery: WebhookDelivery, payload: Record<string, any>): Promise<void> {
+    let backoff = WEBHOOKS.INITIAL_BACKOFF_MS
+
+    while (this.initialized) {
+      delivery.attempts++
+      delivery.lastAttemptAt = new Date().toISOString()
+      delivery.nextAttemptAt = undefined
+
+      let retryable = true
+      try {
+        const response = await Zotero.HTTP.request('POST', delivery.url, {
+          headers: {
+            'Content-Type': 'application/json',
+            [WEBHOOKS.EVENT_HEADER]: delivery.eventType,
+            [WEBHOOKS.DELIVERY_HEADER]: delivery.id,
+          },
+          body: JSON.stringify(payload),
+          timeout: WEBHOOKS.REQUEST_TIMEOUT_MS,
+          successCodes: false,
+        })
+
+        delivery.statusCode = response.status
+        if (response.status >= 200 && response.status < 300) {
+          delivery.status = 'delivered'
+          delivery.deliveredAt = new Date().toISOString()
+          delivery.error = undefined
+          logger.info(`Webhook ${delivery.webhook} delivered ${delivery.eventType} for ${delivery.itemKey}`)
+          return
+        }
+
+        delivery.error = `HTTP ${response.status}`
+        retryable = response.status >= 500 || response.status === 408 || response.status === 429
+      } catch (error) {
+        delivery.error = `${error}`
+      }
+
+      if (!retryable || delivery.attempts >= WEBHOOKS.MAX_ATTEMPTS) {
+        break
+      }
+
+      delivery.status = 'retrying'
+      delivery.nextAttemptAt = new Date(Date.now() + backoff).toISOString()
+      logger.warn(`Webhook ${delivery.webhook} failed (${delivery.error}), retrying in ${backoff} ms`)
+      await this.wait(backoff)
+      backoff = Math.min(backoff * 2, WEBHOOKS.MAX_BACKOFF_MS)
+    }
+
+    delivery.status = 'failed'
+    delivery.nextAttemptAt = undefined
+    if (!this.initialized) {
+      delivery.error = 'Stopped because the plugin shut down'
+    }
+    logger.error(`Webhook ${delivery.webhook} gave up after ${delivery.attempts} attempt(s): ${delivery.error}`)
+  }
+
+  /**
+   * Wait before the next delivery attempt
+   * @param ms - Delay in milliseconds
+   */
+  private wait(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const timer = Components.classes['@mozilla.org/timer;1'].createInstance(Components.interfaces.nsITimer)
+      this.retryTimers.set(timer, resolve)
+      timer.initWithCallback(() => {
+        this.retryTimers.delete(timer)
+        resolve()
+      }, ms, Components.interfaces.nsITimer.TYPE_ONE_SHOT)
+    })
+  }
+
+  /**
+   * Add a delivery to the log, dropping the oldest entries beyond the limit
+   * @param delivery - New delivery
+   */
+  private logDelivery(delivery: WebhookDelivery): void {
+    this.deliveries.push(delivery)
+    if (this.deliveries.length > WEBHOOKS.MAX_LOGGED_DELIVERIES) {
+      this.deliveries.splice(0, this.deliveries.length - WEBHOOKS.MAX_LOGGED_DELIVERIES)
+    }
+  }
+}
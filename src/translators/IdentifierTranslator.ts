@@ -1,4 +1,4 @@
-import { IService, TranslationResult } from '../core/types'
+import { IService, ImportTarget, TranslationResult } from '../core/types'
 import { ServiceManager } from '../core/ServiceManager'
 import { serviceLogger as logger } from '../core/Logger'
 
@@ -35,9 +35,25 @@ export class IdentifierTranslator implements IService {
   /**
    * Attempt to translate an identifier using Zotero's translation system
    * @param identifier - Identifier to translate (DOI, ISBN, PMID, etc.)
+   * @param target - Library, collections and tags for the saved items (Zotero's default when omitted)
    * @returns Translation result with items and metadata
    */
-  async attemptIdentifierTranslation(identifier: string): Promise<TranslationResult> {
+  async attemptIdentifierTranslation(identifier: string, target?: ImportTarget): Promise<TranslationResult> {
+    return this.serviceManager.eventService.trackTranslation(
+      'identifier',
+      identifier,
+      target,
+      () => this.translateIdentifier(identifier, target),
+    )
+  }
+
+  /**
+   * Run the search translation for an identifier
+   * @param identifier - Identifier to translate
+   * @param target - Import target
+   * @returns Translation result with items and metadata
+   */
+  private async translateIdentifier(identifier: string, target?: ImportTarget): Promise<TranslationResult> {
     try {
       logger.info(`Starting identifier translation attempt for: ${identifier}`)
 
@@ -84,7 +100,9 @@ export class IdentifierTranslator implements IService {
       logger.info(`Using translator: ${translator.label} with priority ${translator.priority}`)
 
       // Execute the translation
-      const items = await search.translate()
+      const items = await search.translate(
+        target ? { libraryID: target.libraryID, collections: target.collectionIDs } : undefined,
+      )
 
       if (!items) {
         logger.info('Identifier translation completed but produced no items')
@@ -105,7 +123,7 @@ export class IdentifierTranslator implements IService {
           const isValid = await this.validateItemData(item)
           if (!isValid) {
             logger.info(`Item: ${item.title} is not valid`)
-            await this.deleteItemByKey(item.key)
+            await this.deleteItemByKey(item.key, item.libraryID)
           } else {
             validItems.push(item)
           }
@@ -120,6 +138,15 @@ export class IdentifierTranslator implements IService {
           }
         }
 
+        for (const item of validItems) {
+          for (const tag of target?.tags || []) {
+            item.addTag(tag)
+          }
+          if (target?.tags.length) {
+            await item.saveTx()
+          }
+        }
+
         // Process duplicates before formatting
         logger.info('Starting duplicate detection for translated items')
         const duplicateResults = await this.serviceManager.duplicateDetector.detectDuplicates(validItems[0])
@@ -254,10 +281,11 @@ export class IdentifierTranslator implements IService {
   /**
    * Delete an item by key
    * @param key - Item key to delete
+   * @param libraryID - Library of the item (defaults to the user library)
    */
-  private async deleteItemByKey(key: string): Promise<void> {
+  private async deleteItemByKey(key: string, libraryID: number = Zotero.Libraries.userLibraryID): Promise<void> {
     try {
-      const item = await Zotero.Items.getByLibraryAndKeyAsync(Zotero.Libraries.userLibraryID, key)
+      const item = await Zotero.Items.getByLibraryAndKeyAsync(libraryID, key)
       if (item) {
         await item.eraseTx()
         logger.info(`Deleted invalid item with key: ${key}`)
@@ -50,7 +50,7 @@ export class TranslatorManager implements IService {
     this.serviceManager = serviceManager
 
     // Initialize translator services
-    this.webTranslator = new WebTranslator()
+    this.webTranslator = new WebTranslator(serviceManager.eventService, serviceManager.rateLimiter)
     this.identifierTranslator = new IdentifierTranslator(serviceManager)
     this.metadataExtractor = new MetadataExtractor()
 
@@ -284,6 +284,7 @@ export class TranslatorManager implements IService {
   private async extractMetadataFromUrl(url: string): Promise<ExtractedMetadata> {
     try {
       // Load HTML content
+      await this.serviceManager.rateLimiter.waitForDomain(url)
       const response = await Zotero.HTTP.request('GET', url, {
         timeout: 30000,
       })
@@ -305,6 +306,7 @@ export class TranslatorManager implements IService {
   private async extractIdentifiersFromUrl(url: string): Promise<{ identifiers: ExtractedIdentifiers }> {
     try {
       // Load HTML content
+      await this.serviceManager.rateLimiter.waitForDomain(url)
       const response = await Zotero.HTTP.request('GET', url, {
         timeout: 30000,
       })
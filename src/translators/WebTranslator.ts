@@ -1,5 +1,8 @@
-import { IService, TranslationResult } from '../core/types'
+import { IService, ImportTarget, TranslationResult } from '../core/types'
 import { serviceLogger as logger } from '../core/Logger'
+import { EventService } from '../services/EventService'
+import { RateLimiter } from '../services/RateLimiter'
+import { LibraryUtils } from '../utils/LibraryUtils'
 
 const { Services } = ChromeUtils.import('resource://gre/modules/Services.jsm')
 
@@ -8,6 +11,13 @@ const { Services } = ChromeUtils.import('resource://gre/modules/Services.jsm')
  */
 export class WebTranslator implements IService {
   private initialized = false
+  private eventService: EventService
+  private rateLimiter: RateLimiter
+
+  constructor(eventService: EventService, rateLimiter: RateLimiter) {
+    this.eventService = eventService
+    this.rateLimiter = rateLimiter
+  }
 
   async initialize(): Promise<void> {
     if (this.initialized) return
@@ -24,9 +34,42 @@ export class WebTranslator implements IService {
   /**
    * Attempt web translation of a URL
    * @param url - URL to translate
+   * @param target - Library, collections and tags for the saved items (Zotero's default when omitted)
+   * @param dryRun - Return unsaved items instead of saving them
    * @returns Translation result
    */
-  async attemptWebTranslation(url: string): Promise<TranslationResult> {
+  async attemptWebTranslation(url: string, target?: ImportTarget, dryRun = false): Promise<TranslationResult> {
+    return this.eventService.trackTranslation('web', url, target, () => this.translateWeb(url, target, dryRun))
+  }
+
+  /**
+   * Attempt identifier translation (DOI, PMID, etc.)
+   * @param identifier - Identifier to translate
+   * @param target - Library, collections and tags for the saved items (Zotero's default when omitted)
+   * @param dryRun - Return unsaved items instead of saving them
+   * @returns Translation result
+   */
+  async attemptIdentifierTranslation(
+    identifier: string,
+    target?: ImportTarget,
+    dryRun = false,
+  ): Promise<TranslationResult> {
+    return this.eventService.trackTranslation(
+      'identifier',
+      identifier,
+      target,
+      () => this.translateIdentifier(identifier, target, dryRun),
+    )
+  }
+
+  /**
+   * Translate a URL with the first matching web translator
+   * @param url - URL to translate
+   * @param target - Import target
+   * @param dryRun - Return unsaved items instead of saving them
+   * @returns Translation result
+   */
+  private async translateWeb(url: string, target?: ImportTarget, dryRun = false): Promise<TranslationResult> {
     try {
       logger.info(`Attempting web translation for URL: ${url}`)
 
@@ -56,7 +99,8 @@ export class WebTranslator implements IService {
       logger.info(`Using translator: ${translator.label}`)
 
       // Perform translation
-      const translatedItems = await translate.translate()
+      const translated = await translate.translate(this.getTranslateOptions(target, dryRun))
+      const translatedItems = dryRun ? this.toUnsavedItems(translated || [], target) : translated
 
       if (!translatedItems || translatedItems.length === 0) {
         return {
@@ -67,6 +111,7 @@ export class WebTranslator implements IService {
       }
 
       logger.info(`Translation successful: ${translatedItems.length} items created`)
+      await this.applyTags(translatedItems, target, dryRun)
 
       return {
         success: true,
@@ -84,11 +129,17 @@ export class WebTranslator implements IService {
   }
 
   /**
-   * Attempt identifier translation (DOI, PMID, etc.)
+   * Translate an identifier with the first matching search translator
    * @param identifier - Identifier to translate
+   * @param target - Import target
+   * @param dryRun - Return unsaved items instead of saving them
    * @returns Translation result
    */
-  async attemptIdentifierTranslation(identifier: string): Promise<TranslationResult> {
+  private async translateIdentifier(
+    identifier: string,
+    target?: ImportTarget,
+    dryRun = false,
+  ): Promise<TranslationResult> {
     try {
       logger.info(`Attempting identifier translation for: ${identifier}`)
 
@@ -125,7 +176,8 @@ export class WebTranslator implements IService {
       logger.info(`Using translator: ${translator.label}`)
 
       // Perform translation
-      const translatedItems = await search.translate()
+      const translated = await search.translate(this.getTranslateOptions(target, dryRun))
+      const translatedItems = dryRun ? this.toUnsavedItems(translated || [], target) : translated
 
       if (!translatedItems || translatedItems.length === 0) {
         return {
@@ -136,6 +188,7 @@ export class WebTranslator implements IService {
       }
 
       logger.info(`Identifier translation successful: ${translatedItems.length} items created`)
+      await this.applyTags(translatedItems, target, dryRun)
 
       return {
         success: true,
@@ -177,6 +230,83 @@ export class WebTranslator implements IService {
     }
   }
 
+  /**
+   * Build the save options passed to Zotero.Translate
+   * @param target - Import target
+   * @param dryRun - Translate without saving anything
+   * @returns Translate options, or undefined to keep Zotero's default
+   */
+  private getTranslateOptions(target?: ImportTarget, dryRun = false): any {
+    // libraryID false makes Zotero return the item JSON instead of saving it
+    if (dryRun) return { libraryID: false, saveAttachments: false }
+    if (!target) return undefined
+
+    return {
+      libraryID: target.libraryID,
+      collections: target.collectionIDs,
+    }
+  }
+
+  /**
+   * Build unsaved items from the JSON returned by a translation that did not save
+   * Notes and attachments the translator found are left out
+   * @param jsonItems - Translator item JSON
+   * @param target - Import target (Zotero's save target when omitted)
+   * @returns Unsaved Zotero items
+   */
+  private toUnsavedItems(jsonItems: any[], target?: ImportTarget): any[] {
+    const libraryID = target ? target.libraryID : LibraryUtils.getSaveTargetLibraryID()
+
+    return jsonItems.map(json => {
+      const item = new Zotero.Item(json.itemType)
+      item.libraryID = libraryID
+      if (target) {
+        item.setCollections(target.collectionIDs)
+      }
+
+      for (const [field, value] of Object.entries(json)) {
+        const fieldID = Zotero.ItemFields.getID(field)
+        if (typeof value !== 'string' || !fieldID || !Zotero.ItemFields.isValidForType(fieldID, item.itemTypeID)) {
+          continue
+        }
+        item.setField(field, value === 'CURRENT_TIMESTAMP' ? Zotero.Date.dateToSQL(new Date(), true) : value)
+      }
+
+      const creators = (json.creators || []).filter((creator: any) =>
+        Zotero.CreatorTypes.isValidForItemType(Zotero.CreatorTypes.getID(creator.creatorType), item.itemTypeID),
+      )
+      item.setCreators(creators)
+
+      for (const tag of json.tags || []) {
+        item.addTag(typeof tag === 'string' ? tag : tag.tag)
+      }
+      return item
+    })
+  }
+
+  /**
+   * Add the import target's tags to translated items
+   * @param items - Saved items, or unsaved items in a dry run
+   * @param target - Import target
+   * @param dryRun - Tag the items without saving them
+   */
+  private async applyTags(items: any[], target?: ImportTarget, dryRun = false): Promise<void> {
+    if (!target || target.tags.length === 0) return
+
+    for (const item of items) {
+      try {
+        for (const tag of target.tags) {
+          item.addTag(tag)
+        }
+        if (!dryRun) {
+          await item.saveTx()
+        }
+      } catch (error) {
+        logger.error(`Failed to tag item ${item.key}: ${error}`)
+      }
+    }
+  }
+
   /**
    * Check if service is initialized
    */
@@ -232,6 +362,7 @@ export class WebTranslator implements IService {
         followRedirects: true,
       }
 
+      await this.rateLimiter.waitForDomain(url)
       const response = await Zotero.HTTP.request('GET', url, options)
 
       if (!response.responseText) {
@@ -1,6 +1,7 @@
 import { IService } from '../core/types'
 import { ServiceManager } from '../core/ServiceManager'
 import { uiLogger as logger } from '../core/Logger'
+import { PandocCitationOptions } from '../services/CitationGenerator'
 
 declare const ztoolkit: any
 
@@ -11,6 +12,8 @@ declare const ztoolkit: any
 export class ContextMenu implements IService {
   private initialized = false
   private serviceManager: ServiceManager
+  private templateMenuIDs: string[] = []
+  private templatePrefObserverID: symbol | null = null
 
   constructor(serviceManager: ServiceManager) {
     this.serviceManager = serviceManager
@@ -36,6 +39,11 @@ export class ContextMenu implements IService {
 
     try {
       // Toolkit will handle cleanup automatically through unregisterAll()
+      if (this.templatePrefObserverID) {
+        Zotero.Prefs.unregisterObserver(this.templatePrefObserverID)
+        this.templatePrefObserverID = null
+      }
+      this.templateMenuIDs = []
       this.initialized = false
       logger.info('Context menu service cleaned up')
     } catch (error) {
@@ -83,6 +91,32 @@ export class ContextMenu implements IService {
       },
     })
 
+    // Pandoc citation with optional prefix, locator/suffix and suppress-author
+    ztoolkit.Menu.register('item', {
+      tag: 'menuitem',
+      id: 'zotero-citation-linker-copy-pandoc',
+      label: 'Copy Pandoc Citation…',
+      icon: 'chrome://zotero/skin/citation.png',
+      commandListener: () => {
+        this.handleCopyPandocCommand()
+      },
+      isHidden: () => {
+        try {
+          const ZoteroPane = ztoolkit.getGlobal('ZoteroPane')
+          if (!ZoteroPane) return true
+          const items = ZoteroPane.getSelectedItems()
+          if (!items || items.length === 0) return true
+          return !items.some(item => item.isRegularItem())
+        } catch (error) {
+          logger.debug(`Error in isHidden callback: ${error}`)
+          return true
+        }
+      },
+      onShowing: (elem: any) => {
+        elem.setAttribute('tooltiptext', 'Copy a Pandoc citation such as [see @smith2020, p. 33]')
+      },
+    })
+
     // Additional menu item for copying just the API URL
     ztoolkit.Menu.register('item', {
       tag: 'menuitem',
@@ -108,6 +142,115 @@ export class ContextMenu implements IService {
         elem.setAttribute('tooltiptext', 'Copy the Zotero API URL for this item')
       },
     })
+
+    // Menu item for copying (and generating if needed) citation keys
+    ztoolkit.Menu.register('item', {
+      tag: 'menuitem',
+      id: 'zotero-citation-linker-copy-citation-key',
+      label: 'Copy Citation Key',
+      icon: 'chrome://zotero/skin/tag.png',
+      commandListener: () => {
+        this.handleCopyCitationKeyCommand()
+      },
+      isHidden: () => {
+        try {
+          const ZoteroPane = ztoolkit.getGlobal('ZoteroPane')
+          if (!ZoteroPane) return true
+          const items = ZoteroPane.getSelectedItems()
+          if (!items || items.length === 0) return true
+          return !items.some(item => item.isRegularItem())
+        } catch (error) {
+          logger.debug(`Error in isHidden callback: ${error}`)
+          return true
+        }
+      },
+      onShowing: (elem: any) => {
+        elem.setAttribute('tooltiptext', 'Copy the citation key, generating and storing one if the item has none')
+      },
+    })
+
+    // Annotations of the selected items' PDF/EPUB attachments as cited blockquotes
+    ztoolkit.Menu.register('item', {
+      tag: 'menuitem',
+      id: 'zotero-citation-linker-copy-annotations',
+      label: 'Copy Annotations as Markdown',
+      icon: 'chrome://zotero/skin/annotate-highlight.svg',
+      commandListener: () => {
+        this.handleCopyAnnotationsCommand()
+      },
+      isHidden: () => {
+        try {
+          const ZoteroPane = ztoolkit.getGlobal('ZoteroPane')
+          if (!ZoteroPane) return true
+          const items = ZoteroPane.getSelectedItems()
+          if (!items || items.length === 0) return true
+          return !items.some(item => item.isRegularItem() || item.isAttachment())
+        } catch (error) {
+          logger.debug(`Error in isHidden callback: ${error}`)
+          return true
+        }
+      },
+      onShowing: (elem: any) => {
+        elem.setAttribute('tooltiptext', 'Copy highlights, underlines, notes and image annotations as cited Markdown quotes')
+      },
+    })
+
+    // One "Copy as…" entry per citation template preset, rebuilt when the presets change
+    this.registerTemplateMenuItems()
+    this.templatePrefObserverID = Zotero.Prefs.registerObserver(
+      this.serviceManager.citationTemplateService.getPreferenceKey(),
+      () => this.registerTemplateMenuItems(),
+    )
+  }
+
+  /**
+   * (Re)register a "Copy as <preset>" menu item for every citation template preset
+   */
+  private registerTemplateMenuItems(): void {
+    for (const id of this.templateMenuIDs) {
+      ztoolkit.Menu.unregister(id)
+    }
+    this.templateMenuIDs = []
+
+    const presets = this.serviceManager.citationTemplateService.getPresets()
+    Object.keys(presets).forEach((name, index) => {
+      const id = `zotero-citation-linker-copy-template-${index}`
+      ztoolkit.Menu.register('item', {
+        tag: 'menuitem',
+        id,
+        label: `Copy as ${name}`,
+        icon: 'chrome://zotero/skin/citation.png',
+        commandListener: () => {
+          this.handleCopyTemplateCommand(name)
+        },
+        isHidden: () => {
+          try {
+            const ZoteroPane = ztoolkit.getGlobal('ZoteroPane')
+            if (!ZoteroPane) return true
+            const items = ZoteroPane.getSelectedItems()
+            if (!items || items.length === 0) return true
+            return !items.some(item => item.isRegularItem())
+          } catch (error) {
+            logger.debug(`Error in isHidden callback: ${error}`)
+            return true
+          }
+        },
+        onShowing: (elem: any) => {
+          elem.setAttribute('tooltiptext', `Copy using the "${name}" citation template`)
+        },
+      })
+      this.templateMenuIDs.push(id)
+    })
+
+    logger.debug(`Registered ${this.templateMenuIDs.length} citation template menu item(s)`)
+  }
+
+  /**
+   * Get the number of registered context menu items
+   * @returns Fixed items plus one per citation template preset
+   */
+  getRegisteredItemCount(): number {
+    return 5 + this.templateMenuIDs.length
   }
 
   /**
@@ -139,7 +282,14 @@ export class ContextMenu implements IService {
 
       // Generate and copy markdown links directly
       try {
-        await this.serviceManager.citationGenerator.generateAndCopyMarkdownLink(regularItems)
+        await this.serviceManager.citationGenerator.generateAndCopyMarkdownLink(
+          regularItems,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          this.serviceManager.citationKeyService.canStoreCitationKeys(regularItems),
+        )
       } catch (error) {
         logger.error(`Error generating markdown links: ${error}`)
         return
@@ -151,6 +301,176 @@ export class ContextMenu implements IService {
     }
   }
 
+  /**
+   * Handle the "Copy Pandoc Citation…" context menu command
+   * Prompts for a prefix and a locator/suffix before copying
+   */
+  private async handleCopyPandocCommand(): Promise<void> {
+    logger.info('Copy Pandoc Citation command triggered')
+
+    try {
+      const ZoteroPane = ztoolkit.getGlobal('ZoteroPane')
+      if (!ZoteroPane) {
+        logger.error('ZoteroPane not available')
+        return
+      }
+
+      const selectedItems = ZoteroPane.getSelectedItems()
+      if (!selectedItems || selectedItems.length === 0) {
+        logger.warn('No items selected')
+        return
+      }
+
+      const regularItems = selectedItems.filter(item => item.isRegularItem())
+      if (regularItems.length === 0) {
+        logger.warn('No regular items selected')
+        return
+      }
+
+      const options = this.promptPandocOptions()
+      if (!options) {
+        logger.info('Pandoc citation prompt cancelled')
+        return
+      }
+
+      // In a multi-cite group the prefix belongs to the first reference and the suffix to the last
+      const citationOptions: Record<string, PandocCitationOptions> = {}
+      regularItems.forEach((item, index) => {
+        citationOptions[item.key] = {
+          suppressAuthor: options.suppressAuthor,
+          ...(index === 0 && { prefix: options.prefix }),
+          ...(index === regularItems.length - 1 && { suffix: options.suffix }),
+        }
+      })
+
+      // Keys are stored like "Copy Citation Key" does, so the document's keys match later exports
+      await this.serviceManager.citationGenerator.generateAndCopyMarkdownLink(
+        regularItems,
+        'pandoc',
+        undefined,
+        citationOptions,
+        undefined,
+        this.serviceManager.citationKeyService.canStoreCitationKeys(regularItems),
+      )
+
+      logger.info(`Successfully copied Pandoc citation for ${regularItems.length} item(s) to clipboard`)
+    } catch (error) {
+      logger.error(`Error in handleCopyPandocCommand: ${error}`)
+    }
+  }
+
+  /**
+   * Ask the user for Pandoc prefix, locator/suffix and suppress-author
+   * @returns Entered options, or null if a prompt was cancelled
+   */
+  private promptPandocOptions(): PandocCitationOptions | null {
+    const window = ztoolkit.getGlobal('window')
+    const title = 'Copy Pandoc Citation'
+
+    const prefix = { value: '' }
+    if (!Services.prompt.prompt(window, title, 'Prefix (optional, e.g. "see"):', prefix, null, {})) {
+      return null
+    }
+
+    // Pandoc parses locators such as "p. 33" out of the suffix text
+    const suffix = { value: '' }
+    const suppressAuthor = { value: false }
+    if (!Services.prompt.prompt(
+      window,
+      title,
+      'Locator and suffix (optional, e.g. "p. 33" or "chap. 2 and passim"):',
+      suffix,
+      'Suppress author (-@key)',
+      suppressAuthor,
+    )) {
+      return null
+    }
+
+    return {
+      prefix: prefix.value.trim() || undefined,
+      suffix: suffix.value.trim() || undefined,
+      suppressAuthor: suppressAuthor.value,
+    }
+  }
+
+  /**
+   * Handle the "Copy Annotations as Markdown" context menu command
+   */
+  private async handleCopyAnnotationsCommand(): Promise<void> {
+    logger.info('Copy Annotations command triggered')
+
+    try {
+      const ZoteroPane = ztoolkit.getGlobal('ZoteroPane')
+      if (!ZoteroPane) {
+        logger.error('ZoteroPane not available')
+        return
+      }
+
+      const selectedItems = ZoteroPane.getSelectedItems()
+      if (!selectedItems || selectedItems.length === 0) {
+        logger.warn('No items selected')
+        return
+      }
+
+      const markdown = await this.serviceManager.annotationExporter.exportSelectionMarkdown(selectedItems)
+      if (!markdown) {
+        this.serviceManager.uiManager.showInfo('Citation Linker', 'No annotations found in the selected items')
+        return
+      }
+
+      this.copyToClipboard(markdown)
+      logger.info('Successfully copied annotations to clipboard')
+    } catch (error) {
+      logger.error(`Error in handleCopyAnnotationsCommand: ${error}`)
+    }
+  }
+
+  /**
+   * Handle a "Copy as <preset>" context menu command
+   * @param presetName - Citation template preset name
+   */
+  private async handleCopyTemplateCommand(presetName: string): Promise<void> {
+    logger.info(`Copy as ${presetName} command triggered`)
+
+    try {
+      const ZoteroPane = ztoolkit.getGlobal('ZoteroPane')
+      if (!ZoteroPane) {
+        logger.error('ZoteroPane not available')
+        return
+      }
+
+      const selectedItems = ZoteroPane.getSelectedItems()
+      if (!selectedItems || selectedItems.length === 0) {
+        logger.warn('No items selected')
+        return
+      }
+
+      const regularItems = selectedItems.filter(item => item.isRegularItem())
+      if (regularItems.length === 0) {
+        logger.warn('No regular items selected')
+        return
+      }
+
+      const preset = this.serviceManager.citationTemplateService.getPreset(presetName)
+      if (!preset) {
+        logger.warn(`Citation template preset "${presetName}" no longer exists`)
+        return
+      }
+
+      await this.serviceManager.citationGenerator.generateAndCopyTemplate(
+        regularItems,
+        preset.template,
+        undefined,
+        { target: preset.linkTarget },
+        this.serviceManager.citationKeyService.canStoreCitationKeys(regularItems),
+      )
+
+      logger.info(`Successfully copied ${regularItems.length} citation(s) as ${presetName}`)
+    } catch (error) {
+      logger.error(`Error in handleCopyTemplateCommand: ${error}`)
+    }
+  }
+
   /**
    * Handle the "Copy API URL" context menu command
    */
@@ -206,6 +526,55 @@ export class ContextMenu implements IService {
     }
   }
 
+  /**
+   * Handle the "Copy Citation Key" context menu command
+   */
+  private async handleCopyCitationKeyCommand(): Promise<void> {
+    logger.info('Copy Citation Key command triggered')
+
+    try {
+      const ZoteroPane = ztoolkit.getGlobal('ZoteroPane')
+      if (!ZoteroPane) {
+        logger.error('ZoteroPane not available')
+        return
+      }
+
+      const selectedItems = ZoteroPane.getSelectedItems()
+      if (!selectedItems || selectedItems.length === 0) {
+        logger.warn('No items selected')
+        return
+      }
+
+      const regularItems = selectedItems.filter(item => item.isRegularItem())
+      if (regularItems.length === 0) {
+        logger.warn('No regular items selected')
+        return
+      }
+
+      // Keys are generated sequentially so collisions within the selection are detected
+      const citationKeys: string[] = []
+      for (const item of regularItems) {
+        try {
+          citationKeys.push(await this.serviceManager.citationKeyService.ensureCitationKey(item))
+        } catch (error) {
+          logger.error(`Error generating citation key for item ${item.key}: ${error}`)
+        }
+      }
+
+      if (citationKeys.length === 0) {
+        logger.warn('No citation keys could be generated')
+        return
+      }
+
+      // Comma-separated so the result can be pasted straight into \cite{}
+      this.copyToClipboard(citationKeys.join(','))
+
+      logger.info(`Successfully copied ${citationKeys.length} citation key(s) to clipboard`)
+    } catch (error) {
+      logger.error(`Error in handleCopyCitationKeyCommand: ${error}`)
+    }
+  }
+
   /**
    * Generate API URL for an item
    * @param item - Zotero item
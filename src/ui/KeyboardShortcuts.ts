@@ -58,9 +58,16 @@ export class KeyboardShortcuts implements IService {
         event.preventDefault()
         this.handleCopyMarkdownShortcut()
       }
+
+      // Check if Ctrl+Alt+Shift+A (or Cmd+Alt+Shift+A on Mac)
+      if ((event.ctrlKey || event.metaKey) && event.altKey && event.shiftKey && event.code === 'KeyA') {
+        event.preventDefault()
+        this.handleCopyAnnotationsShortcut()
+      }
     })
 
     logger.debug('Registered Ctrl+Shift+C (Cmd+Shift+C on Mac) shortcut for copying Markdown links')
+    logger.debug('Registered Ctrl+Alt+Shift+A (Cmd+Alt+Shift+A on Mac) shortcut for copying annotations')
   }
 
   /**
@@ -92,7 +99,14 @@ export class KeyboardShortcuts implements IService {
 
       // Generate and copy markdown links directly
       try {
-        await this.serviceManager.citationGenerator.generateAndCopyMarkdownLink(regularItems)
+        await this.serviceManager.citationGenerator.generateAndCopyMarkdownLink(
+          regularItems,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          this.serviceManager.citationKeyService.canStoreCitationKeys(regularItems),
+        )
       } catch (error) {
         logger.error(`Error generating markdown links via keyboard shortcut: ${error}`)
         return
@@ -104,6 +118,38 @@ export class KeyboardShortcuts implements IService {
     }
   }
 
+  /**
+   * Handle the keyboard shortcut for copying annotations as Markdown
+   */
+  private async handleCopyAnnotationsShortcut(): Promise<void> {
+    logger.info('Keyboard shortcut Ctrl+Alt+Shift+A triggered for copying annotations')
+
+    try {
+      const ZoteroPane = ztoolkit.getGlobal('ZoteroPane')
+      if (!ZoteroPane) {
+        logger.error('ZoteroPane not available')
+        return
+      }
+
+      const selectedItems = ZoteroPane.getSelectedItems()
+      if (!selectedItems || selectedItems.length === 0) {
+        logger.warn('No items selected for keyboard shortcut')
+        return
+      }
+
+      const markdown = await this.serviceManager.annotationExporter.exportSelectionMarkdown(selectedItems)
+      if (!markdown) {
+        logger.warn('No annotations found in the selected items')
+        return
+      }
+
+      this.copyToClipboard(markdown)
+      logger.info('Successfully copied annotations to clipboard via keyboard shortcut')
+    } catch (error) {
+      logger.error(`Error in handleCopyAnnotationsShortcut: ${error}`)
+    }
+  }
+
   /**
    * Copy text to clipboard using Zotero's clipboard helper
    * @param text - Text to copy
@@ -131,7 +177,7 @@ export class KeyboardShortcuts implements IService {
     return {
       enabled: true,
       shortcut: 'Ctrl+Shift+C (Cmd+Shift+C on Mac)',
-      description: 'Copy Markdown citation link for selected items',
+      description: 'Copy Markdown citation link for selected items (Ctrl+Alt+Shift+A copies annotations)',
     }
   }
 
@@ -247,7 +247,7 @@ export class UIManager implements IService {
     return {
       contextMenu: {
         enabled: this.isContextMenuEnabled(),
-        itemsRegistered: 2, // Copy Markdown Link + Copy API URL
+        itemsRegistered: this.contextMenu.getRegisteredItemCount(),
       },
       keyboardShortcuts: this.keyboardShortcuts.getShortcutConfig(),
       notifications: {
@@ -0,0 +1,20 @@
+/**
+ * Helpers for reading request headers passed by the Zotero server
+ */
+export class HeaderUtils {
+  /**
+   * Read a header case-insensitively
+   * @param headers - Request headers (Headers object or plain object)
+   * @param name - Header name
+   * @returns Header value or null
+   */
+  static getHeader(headers: any, name: string): string | null {
+    if (!headers) return null
+    if (typeof headers.get === 'function') {
+      return headers.get(name)
+    }
+
+    const key = Object.keys(headers).find(header => header.toLowerCase() === name.toLowerCase())
+    return key ? String(headers[key]) : null
+  }
+}
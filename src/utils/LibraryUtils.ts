@@ -0,0 +1,102 @@
+import { utilLogger as logger } from '../core/Logger'
+
+export interface LibraryInfo {
+  libraryID: number
+  type: 'user' | 'group' | 'feed' | string
+  groupID: number | null
+  name: string
+  editable: boolean
+  filesEditable: boolean
+}
+
+/**
+ * Utility for addressing user and group libraries
+ */
+export class LibraryUtils {
+  /**
+   * Resolve an optional libraryID or groupID request parameter to a library ID
+   * @param libraryID - Raw libraryID value (number or numeric string)
+   * @param groupID - Raw group ID value (number or numeric string)
+   * @returns Validation result; libraryID is undefined when neither parameter was given
+   */
+  static resolveLibraryParam(libraryID: any, groupID: any): { valid: boolean; error?: string; libraryID?: number } {
+    const isPresent = (value: any) => value !== undefined && value !== null && value !== ''
+
+    if (isPresent(libraryID) && isPresent(groupID)) {
+      return { valid: false, error: 'Provide either libraryID or groupID, not both' }
+    }
+
+    if (isPresent(libraryID)) {
+      const id = Number(libraryID)
+      if (!Number.isInteger(id) || !Zotero.Libraries.exists(id)) {
+        return { valid: false, error: `Library ${libraryID} not found` }
+      }
+      return { valid: true, libraryID: id }
+    }
+
+    if (isPresent(groupID)) {
+      const id = Number(groupID)
+      const groupLibraryID = Number.isInteger(id) ? Zotero.Groups.getLibraryIDFromGroupID(id) : false
+      if (!groupLibraryID) {
+        return { valid: false, error: `Group ${groupID} not found` }
+      }
+      return { valid: true, libraryID: groupLibraryID }
+    }
+
+    return { valid: true }
+  }
+
+  /**
+   * Describe a library for API responses
+   * @param libraryID - Library ID
+   * @returns Library information, or null if the library does not exist
+   */
+  static getLibraryInfo(libraryID: number): LibraryInfo | null {
+    try {
+      const library = Zotero.Libraries.get(libraryID)
+      if (!library) return null
+
+      const isGroup = library.libraryType === 'group'
+      return {
+        libraryID,
+        type: library.libraryType,
+        groupID: isGroup ? Zotero.Groups.getGroupIDFromLibraryID(libraryID) : null,
+        name: library.name,
+        editable: !!library.editable,
+        filesEditable: !!library.filesEditable,
+      }
+    } catch (error) {
+      logger.error(`Error reading library ${libraryID}: ${error}`)
+      return null
+    }
+  }
+
+  /**
+   * Get the library currently selected in the Zotero UI (the connector save target)
+   * @returns Library ID, or the user library when no save target is available
+   */
+  static getSaveTargetLibraryID(): number {
+    try {
+      const { library } = (Zotero.Server as any).Connector.getSaveTarget()
+      return library?.libraryID ?? Zotero.Libraries.userLibraryID
+    } catch (error) {
+      logger.error(`Error reading save target: ${error}`)
+      return Zotero.Libraries.userLibraryID
+    }
+  }
+
+  /**
+   * Check if a specific library can be written to
+   * @param libraryID - Library ID
+   * @returns True if the library is editable
+   */
+  static isLibraryEditable(libraryID: number): boolean {
+    try {
+      const library = Zotero.Libraries.get(libraryID)
+      return !!(library && library.editable)
+    } catch (error) {
+      logger.error(`Error checking library editability: ${error}`)
+      return false
+    }
+  }
+}
@@ -0,0 +1,362 @@
+// Global DOMParser declaration
+/* eslint-disable no-unused-vars */
+declare const DOMParser: {
+  new(): {
+    parseFromString(str: string, contentType: string): any
+  }
+}
+/* eslint-enable no-unused-vars */
+
+const ELEMENT_NODE = 1
+const TEXT_NODE = 3
+
+interface ListFrame {
+  tag: 'ul' | 'ol'
+  indent: number
+}
+
+/**
+ * Conversion between Markdown and the HTML subset used by Zotero notes
+ * Covers headings, paragraphs, emphasis, inline and fenced code, links, lists, blockquotes and rules
+ */
+export class MarkdownUtils {
+  /**
+   * Convert Markdown to Zotero note HTML
+   * @param markdown - Markdown text
+   * @returns Note HTML
+   */
+  static markdownToHtml(markdown: string): string {
+    const lines = markdown.replace(/\r\n?/g, '\n').split('\n')
+    const html: string[] = []
+    const lists: ListFrame[] = []
+    let paragraph: string[] = []
+    let quote: string[] = []
+    let i = 0
+
+    const flushParagraph = () => {
+      if (paragraph.length > 0) {
+        html.push(`<p>${paragraph.map(line => MarkdownUtils.inlineToHtml(line)).join('<br>')}</p>`)
+        paragraph = []
+      }
+    }
+    const flushQuote = () => {
+      if (quote.length > 0) {
+        html.push(`<blockquote>${MarkdownUtils.markdownToHtml(quote.join('\n'))}</blockquote>`)
+        quote = []
+      }
+    }
+    const closeLists = (indent: number = -1) => {
+      while (lists.length > 0 && lists[lists.length - 1].indent > indent) {
+        html.push(`</li></${lists.pop()!.tag}>`)
+      }
+    }
+    const flushAll = () => {
+      flushParagraph()
+      flushQuote()
+      closeLists()
+    }
+
+    while (i < lines.length) {
+      const line = lines[i]
+
+      const fence = line.match(/^\s*(```|~~~)\s*(\S*)/)
+      if (fence) {
+        flushAll()
+        const code: string[] = []
+        i++
+        while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+          code.push(lines[i])
+          i++
+        }
+        html.push(`<pre>${MarkdownUtils.escapeHtml(code.join('\n'))}</pre>`)
+        i++
+        continue
+      }
+
+      const quoteLine = line.match(/^\s*>\s?(.*)$/)
+      if (quoteLine) {
+        flushParagraph()
+        closeLists()
+        quote.push(quoteLine[1])
+        i++
+        continue
+      }
+      flushQuote()
+
+      if (line.trim() === '') {
+        flushParagraph()
+        closeLists()
+        i++
+        continue
+      }
+
+      const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/)
+      if (heading) {
+        flushAll()
+        const level = heading[1].length
+        html.push(`<h${level}>${MarkdownUtils.inlineToHtml(heading[2])}</h${level}>`)
+        i++
+        continue
+      }
+
+      if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+        flushAll()
+        html.push('<hr>')
+        i++
+        continue
+      }
+
+      const listItem = line.match(/^(\s*)([-*+]|\d+[.)])\s+(.*)$/)
+      if (listItem) {
+        flushParagraph()
+        const indent = listItem[1].replace(/\t/g, '    ').length
+        const tag = /^\d/.test(listItem[2]) ? 'ol' : 'ul'
+
+        closeLists(indent)
+        const current = lists[lists.length - 1]
+        if (current && current.indent === indent && current.tag === tag) {
+          html.push('</li><li>')
+        } else {
+          if (current && current.indent === indent) {
+            html.push(`</li></${lists.pop()!.tag}>`)
+          }
+          html.push(`<${tag}><li>`)
+          lists.push({ tag, indent })
+        }
+        html.push(MarkdownUtils.inlineToHtml(listItem[3]))
+        i++
+        continue
+      }
+
+      // Indented continuation of a list item
+      if (lists.length > 0 && /^\s+\S/.test(line)) {
+        html.push(`<br>${MarkdownUtils.inlineToHtml(line.trim())}`)
+        i++
+        continue
+      }
+
+      closeLists()
+      paragraph.push(line.trim())
+      i++
+    }
+
+    flushAll()
+    return html.join('')
+  }
+
+  /**
+   * Convert Zotero note HTML to Markdown
+   * @param html - Note HTML
+   * @returns Markdown text
+   */
+  static htmlToMarkdown(html: string): string {
+    if (!html) return ''
+
+    const document = new DOMParser().parseFromString(html, 'text/html')
+    const markdown = MarkdownUtils.blockChildrenToMarkdown(document.body)
+    return markdown.replace(/\n{3,}/g, '\n\n').trim()
+  }
+
+  /**
+   * Escape text for use in HTML
+   * @param text - Plain text
+   * @returns Escaped text
+   */
+  static escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+  }
+
+  /**
+   * Convert inline Markdown (code, links, emphasis) to HTML
+   * @param text - Markdown text of a single line
+   * @returns HTML
+   */
+  private static inlineToHtml(text: string): string {
+    // Protect code spans from further formatting
+    const codeSpans: string[] = []
+    let result = text.replace(/`([^`]+)`/g, (_match, code: string) => {
+      codeSpans.push(`<code>${MarkdownUtils.escapeHtml(code)}</code>`)
+      return `\uE000${codeSpans.length - 1}\uE000`
+    })
+
+    result = MarkdownUtils.escapeHtml(result)
+      .replace(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+&quot;[^&]*&quot;)?\)/g, '<a href="$2">$1</a>')
+      .replace(/\[([^\]]+)\]\(([^)\s]+)(?:\s+&quot;[^&]*&quot;)?\)/g, '<a href="$2">$1</a>')
+      .replace(/&lt;(https?:\/\/[^\s&]+)&gt;/g, '<a href="$1">$1</a>')
+      .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '<strong>$2</strong>')
+      .replace(/(^|[^\w*])\*(?=\S)([^*]*?\S)\*/g, '$1<em>$2</em>')
+      .replace(/(^|[^\w])_(?=\S)([^_]*?\S)_(?!\w)/g, '$1<em>$2</em>')
+      .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<span style="text-decoration: line-through">$1</span>')
+
+    return result.replace(/\uE000(\d+)\uE000/g, (_match, index: string) => codeSpans[Number(index)])
+  }
+
+  /**
+   * Convert the children of a block container, separating blocks by blank lines
+   * @param node - Container node
+   * @returns Markdown
+   */
+  private static blockChildrenToMarkdown(node: any): string {
+    const blocks: string[] = []
+    let inline = ''
+
+    const flushInline = () => {
+      if (inline.trim()) {
+        blocks.push(inline.trim())
+      }
+      inline = ''
+    }
+
+    for (const child of Array.from(node.childNodes) as any[]) {
+      if (child.nodeType === ELEMENT_NODE && MarkdownUtils.isBlock(child)) {
+        flushInline()
+        const block = MarkdownUtils.blockToMarkdown(child)
+        if (block.trim()) {
+          blocks.push(block)
+        }
+      } else {
+        inline += MarkdownUtils.inlineToMarkdown(child)
+      }
+    }
+    flushInline()
+
+    return blocks.join('\n\n')
+  }
+
+  /**
+   * Convert a block element to Markdown
+   * @param element - Block element
+   * @returns Markdown
+   */
+  private static blockToMarkdown(element: any): string {
+    const tag = element.tagName.toLowerCase()
+
+    switch (tag) {
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6':
+        return `${'#'.repeat(Number(tag[1]))} ${MarkdownUtils.inlineChildrenToMarkdown(element).trim()}`
+      case 'p':
+        return MarkdownUtils.inlineChildrenToMarkdown(element).trim()
+      case 'pre':
+        return `\`\`\`\n${element.textContent.replace(/\n$/, '')}\n\`\`\``
+      case 'blockquote':
+        return MarkdownUtils.blockChildrenToMarkdown(element)
+          .split('\n')
+          .map(line => (line ? `> ${line}` : '>'))
+          .join('\n')
+      case 'hr':
+        return '---'
+      case 'ul':
+      case 'ol':
+        return MarkdownUtils.listToMarkdown(element)
+      case 'table':
+        return Array.from(element.querySelectorAll('tr') as any[])
+          .map(row => `| ${Array.from(row.children as any[]).map(cell => MarkdownUtils.inlineChildrenToMarkdown(cell).trim()).join(' | ')} |`)
+          .join('\n')
+      default:
+        return MarkdownUtils.blockChildrenToMarkdown(element)
+    }
+  }
+
+  /**
+   * Convert a list element to Markdown, indenting nested lists
+   * @param list - ul or ol element
+   * @returns Markdown
+   */
+  private static listToMarkdown(list: any): string {
+    const ordered = list.tagName.toLowerCase() === 'ol'
+    const lines: string[] = []
+    let number = Number(list.getAttribute('start')) || 1
+
+    for (const item of Array.from(list.children) as any[]) {
+      if (item.tagName.toLowerCase() !== 'li') continue
+
+      const marker = ordered ? `${number++}.` : '-'
+      const content = MarkdownUtils.blockChildrenToMarkdown(item).split('\n')
+      const indent = ' '.repeat(marker.length + 1)
+      lines.push(`${marker} ${content[0]}`)
+      for (const line of content.slice(1)) {
+        if (line.trim()) {
+          lines.push(`${indent}${line}`)
+        }
+      }
+    }
+
+    return lines.join('\n')
+  }
+
+  /**
+   * Convert the inline children of an element to Markdown
+   * @param element - Element
+   * @returns Markdown
+   */
+  private static inlineChildrenToMarkdown(element: any): string {
+    return (Array.from(element.childNodes) as any[]).map(child => MarkdownUtils.inlineToMarkdown(child)).join('')
+  }
+
+  /**
+   * Convert an inline node to Markdown
+   * @param node - Text or element node
+   * @returns Markdown
+   */
+  private static inlineToMarkdown(node: any): string {
+    if (node.nodeType === TEXT_NODE) {
+      return node.textContent.replace(/\s+/g, ' ')
+    }
+    if (node.nodeType !== ELEMENT_NODE) {
+      return ''
+    }
+
+    const tag = node.tagName.toLowerCase()
+    const content = MarkdownUtils.inlineChildrenToMarkdown(node)
+    const wrap = (marker: string) => (content.trim() ? `${marker}${content.trim()}${marker}` : content)
+
+    switch (tag) {
+      case 'br':
+        return '\n'
+      case 'strong':
+      case 'b':
+        return wrap('**')
+      case 'em':
+      case 'i':
+        return wrap('*')
+      case 's':
+      case 'del':
+      case 'strike':
+        return wrap('~~')
+      case 'code':
+        return `\`${node.textContent}\``
+      case 'a': {
+        const href = node.getAttribute('href')
+        return href ? `[${content}](${href})` : content
+      }
+      case 'img':
+        return node.getAttribute('alt') || ''
+      case 'span':
+        if (/line-through/.test(node.getAttribute('style') || '')) {
+          return wrap('~~')
+        }
+        return content
+      default:
+        return MarkdownUtils.isBlock(node) ? `\n${MarkdownUtils.blockToMarkdown(node)}\n` : content
+    }
+  }
+
+  /**
+   * Check whether an element is rendered as a block
+   * @param element - Element
+   * @returns True for block-level elements
+   */
+  private static isBlock(element: any): boolean {
+    return /^(address|article|aside|blockquote|div|dl|figure|footer|h[1-6]|header|hr|li|ol|p|pre|section|table|ul)$/
+      .test(element.tagName.toLowerCase())
+  }
+}
@@ -24,6 +24,24 @@ export class ResponseBuilder {
     return [HTTP_STATUS.OK, 'application/json', JSON.stringify(response, null, 2)]
   }
 
+  /**
+   * Build an accepted response for work that continues in the background
+   * @param data - Response data (e.g. the queued job)
+   * @param metadata - Additional metadata
+   * @returns Formatted response array [statusCode, contentType, body]
+   */
+  static accepted(data: any, metadata?: Record<string, any>): [number, string, string] {
+    const response: ApiResponse = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      ...data,
+      ...metadata,
+    }
+
+    logger.debug(`Accepted response: ${JSON.stringify(response)}`)
+    return [HTTP_STATUS.ACCEPTED, 'application/json', JSON.stringify(response, null, 2)]
+  }
+
   /**
    * Build an error response
    * @param error - Error object or message
@@ -108,6 +126,32 @@ export class ResponseBuilder {
     return [HTTP_STATUS.NOT_FOUND, 'application/json', JSON.stringify(response)]
   }
 
+  /**
+   * Build a rate limit response
+   * Zotero's server accepts a headers object in place of the content type, which carries Retry-After
+   * @param message - Why the request was throttled
+   * @param retryAfter - Seconds the client should wait before retrying
+   * @returns Formatted response array [statusCode, headers, body]
+   */
+  static tooManyRequests(message: string, retryAfter: number): [number, Record<string, string>, string] {
+    const response = {
+      success: false,
+      error: {
+        message,
+        code: HTTP_STATUS.TOO_MANY_REQUESTS,
+        retryAfter,
+        timestamp: new Date().toISOString(),
+      },
+    }
+
+    logger.warn(`Rate limited: ${message}`)
+    return [
+      HTTP_STATUS.TOO_MANY_REQUESTS,
+      { 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) },
+      JSON.stringify(response),
+    ]
+  }
+
   /**
    * Build a translation success response with item enrichment
    * @param items - Array of translated items
@@ -159,6 +203,65 @@ export class ResponseBuilder {
     return [HTTP_STATUS.OK, 'application/json', JSON.stringify(response, null, 2)]
   }
 
+  /**
+   * Build the response of an import run in dry-run mode
+   * Items are unsaved: they show what would be created, without keys or versions
+   * @param items - Items that would be created
+   * @param rejectedItems - Translated items that would be discarded by validation
+   * @param method - Translation method
+   * @param translator - Translator name
+   * @param duplicateProcessing - Duplicate detection results
+   * @param collectionToCreate - Collection path that would be created for the items
+   * @returns Formatted response array [statusCode, contentType, body]
+   */
+  static dryRunTranslation(
+    items: any[],
+    rejectedItems: any[],
+    method: string,
+    translator: string,
+    duplicateProcessing?: any,
+    collectionToCreate?: string,
+  ): [number, string, string] {
+    const serialize = (item: any, index: number) => ({
+      ...(item.toJSON ? item.toJSON() : item),
+      _meta: {
+        index,
+        itemType: item.itemType,
+        library: item.libraryID,
+      },
+    })
+
+    const response = {
+      success: true,
+      dryRun: true,
+      method,
+      translator,
+      itemCount: items.length,
+      timestamp: new Date().toISOString(),
+      items: items.map(serialize),
+      rejectedItems: rejectedItems.map((item, index) => ({
+        ...serialize(item, index),
+        reason: 'Item failed title or creator validation',
+      })),
+      duplicateInfo: duplicateProcessing || { processed: false },
+      ...(collectionToCreate && { collectionToCreate }),
+    }
+
+    logger.info(`Dry run: ${method} (${translator}) would create ${items.length} items`)
+    return [HTTP_STATUS.OK, 'application/json', JSON.stringify(response, null, 2)]
+  }
+
+  /**
+   * Build a raw (non-JSON) response, e.g. a serialized bibliography file
+   * @param content - Response body
+   * @param contentType - Content type of the body
+   * @returns Formatted response array [statusCode, contentType, body]
+   */
+  static raw(content: string, contentType: string): [number, string, string] {
+    logger.debug(`Raw ${contentType} response (${content.length} chars)`)
+    return [HTTP_STATUS.OK, contentType, content]
+  }
+
   /**
    * Build an analysis response
    * @param analysisData - Analysis results
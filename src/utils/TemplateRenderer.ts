@@ -0,0 +1,80 @@
+/**
+ * Minimal mustache-style template renderer for citation templates
+ *
+ * Supported syntax:
+ * - `{{field}}` inserts the field value (empty when missing)
+ * - `{{#field}}...{{/field}}` renders its content only when the field has a value
+ * - `{{^field}}...{{/field}}` renders its content only when the field is empty
+ */
+export class TemplateRenderer {
+  /**
+   * Render a template against a set of values
+   * @param template - Template string
+   * @param values - Placeholder values
+   * @returns Rendered string
+   */
+  static render(template: string, values: Record<string, string | null | undefined>): string {
+    const withSections = template.replace(
+      /\{\{([#^])\s*(\w+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g,
+      (_match, type: string, field: string, content: string) => {
+        const present = TemplateRenderer.hasValue(values[field])
+        const show = type === '#' ? present : !present
+        // Sections may contain other sections, so render their content recursively
+        return show ? TemplateRenderer.render(content, values) : ''
+      },
+    )
+
+    return withSections.replace(/\{\{\s*(\w+)\s*\}\}/g, (_match, field: string) => {
+      const value = values[field]
+      return TemplateRenderer.hasValue(value) ? String(value) : ''
+    })
+  }
+
+  /**
+   * List the plain placeholders used by a template (sections excluded)
+   * @param template - Template string
+   * @returns Unique placeholder names
+   */
+  static getPlaceholders(template: string): string[] {
+    const names = new Set<string>()
+    const pattern = /\{\{\s*(\w+)\s*\}\}/g
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(template)) !== null) {
+      names.add(match[1])
+    }
+    return Array.from(names)
+  }
+
+  /**
+   * Check whether a template has balanced sections
+   * @param template - Template string
+   * @returns Error message, or null when the template is valid
+   */
+  static validate(template: string): string | null {
+    const stack: string[] = []
+    const pattern = /\{\{\s*([#^/])\s*(\w+)\s*\}\}/g
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(template)) !== null) {
+      const [, type, field] = match
+      if (type === '/') {
+        const open = stack.pop()
+        if (open !== field) {
+          return `Unexpected closing section {{/${field}}}`
+        }
+      } else {
+        stack.push(field)
+      }
+    }
+
+    return stack.length > 0 ? `Unclosed section {{#${stack[stack.length - 1]}}}` : null
+  }
+
+  /**
+   * Determine whether a placeholder value counts as present
+   * @param value - Placeholder value
+   * @returns True for non-empty values
+   */
+  private static hasValue(value: string | null | undefined): boolean {
+    return value !== undefined && value !== null && String(value).trim() !== ''
+  }
+}
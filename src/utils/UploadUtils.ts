@@ -0,0 +1,186 @@
+import { utilLogger as logger } from '../core/Logger'
+import { DEFAULT_PREFERENCES } from '../config/constants'
+
+declare const IOUtils: any
+declare const PathUtils: any
+
+/**
+ * Multipart form field as decoded by the Zotero server
+ */
+export interface MultipartField {
+  params: {
+    name?: string
+    filename?: string
+    contentType?: string
+  }
+  body: string
+}
+
+/**
+ * Uploaded file extracted from multipart form data
+ */
+export interface UploadedFile {
+  filename: string
+  body: string
+  contentType: string
+}
+
+/**
+ * Helpers for multipart file uploads: finding the file field, size limits and temporary files
+ */
+export class UploadUtils {
+  /**
+   * Find the uploaded file in multipart form data
+   * @param fields - Multipart form fields
+   * @param accept - Optional check restricting which files are accepted (e.g. PDFs only)
+   * @param label - Name of the expected file in error messages
+   * @returns Validation result with the first accepted file
+   */
+  static findFileField(
+    fields: MultipartField[],
+    accept?: (filename: string, contentType: string) => boolean, // eslint-disable-line no-unused-vars
+    label: string = 'file',
+  ): { valid: boolean; error?: string; file?: UploadedFile } {
+    for (const field of fields) {
+      const params = field.params || {}
+      const filename = params.filename || ''
+      const contentType = params.contentType || ''
+
+      if (!filename && !contentType) continue
+      if (accept && !accept(filename, contentType)) continue
+
+      if (!field.body || field.body.length === 0) {
+        return { valid: false, error: `${label.charAt(0).toUpperCase()}${label.slice(1)} is empty` }
+      }
+
+      return {
+        valid: true,
+        file: {
+          filename,
+          body: field.body,
+          contentType: contentType || 'application/octet-stream',
+        },
+      }
+    }
+
+    return { valid: false, error: `No ${label} found in request. Please upload a ${label}.` }
+  }
+
+  /**
+   * Collect the plain (non-file) fields of multipart form data
+   * @param fields - Multipart form fields
+   * @returns Field values by name
+   */
+  static getFormFields(fields: MultipartField[]): Record<string, string> {
+    const values: Record<string, string> = {}
+    for (const field of fields) {
+      const params = field.params || {}
+      if (params.name && !params.filename) {
+        values[params.name] = field.body
+      }
+    }
+    return values
+  }
+
+  /**
+   * Check a file size against the upload limit (maxPdfUploadSize)
+   * @param size - File size in bytes
+   * @returns Error message, or null when the size is acceptable
+   */
+  static checkUploadSize(size: number): string | null {
+    const maxSize = DEFAULT_PREFERENCES.maxPdfUploadSize
+    if (size > maxSize) {
+      return `File too large. Maximum size: ${maxSize / 1024 / 1024}MB, received: ${(size / 1024 / 1024).toFixed(2)}MB`
+    }
+    return null
+  }
+
+  /**
+   * Sanitize filename to prevent path traversal and invalid characters
+   * @param filename - Original filename
+   * @param extension - Extension to enforce (e.g. '.pdf'), if any
+   * @returns Sanitized filename
+   */
+  static sanitizeFilename(filename: string, extension?: string): string {
+    // Remove path components
+    let sanitized = filename.replace(/^.*[\\/]/, '')
+
+    // Remove invalid characters
+    sanitized = sanitized.replace(/[^a-zA-Z0-9._-]/g, '_')
+
+    if (extension && !sanitized.toLowerCase().endsWith(extension)) {
+      sanitized += extension
+    }
+
+    // Default name if empty
+    if (!sanitized || sanitized === extension) {
+      sanitized = `upload${extension || ''}`
+    }
+
+    return sanitized
+  }
+
+  /**
+   * Write uploaded data to a file in Zotero's temp directory
+   * @param data - File data (binary string or bytes)
+   * @param filename - Sanitized filename
+   * @param prefix - Prefix for the temporary filename
+   * @returns Path to the temporary file
+   */
+  static async writeTempFile(data: string | ArrayLike<number>, filename: string, prefix: string): Promise<string> {
+    const tempDir = Zotero.getTempDirectory().path
+    const tempPath = PathUtils.join(tempDir, `${prefix}-${Date.now()}-${filename}`)
+
+    // Multipart bodies arrive as binary strings (one byte per character)
+    let fileData: Uint8Array
+    if (typeof data === 'string') {
+      fileData = new Uint8Array(data.length)
+      for (let i = 0; i < data.length; i++) {
+        fileData[i] = data.charCodeAt(i) & 0xff
+      }
+    } else {
+      fileData = new Uint8Array(data)
+    }
+
+    await IOUtils.write(tempPath, fileData, { tmpPath: tempPath + '.tmp' })
+
+    logger.info(`Temporary file created: ${tempPath} (${fileData.length} bytes)`)
+    return tempPath
+  }
+
+  /**
+   * Rename a stored upload back to the filename sent by the client
+   * Files imported from writeTempFile keep the temporary name unless Zotero's automatic renaming applied
+   * @param attachment - Stored attachment item
+   * @param filename - Original filename
+   * @param prefix - Prefix passed to writeTempFile
+   */
+  static async restoreFilename(attachment: any, filename: string, prefix: string): Promise<void> {
+    try {
+      const storedPath = attachment?.getFilePath()
+      if (!storedPath || !PathUtils.filename(storedPath).startsWith(`${prefix}-`)) return
+
+      const originalName = Zotero.File.getValidFileName(filename.replace(/^.*[\\/]/, ''))
+      if (originalName) {
+        await attachment.renameAttachmentFile(originalName)
+      }
+    } catch (error) {
+      logger.warn(`Could not restore filename ${filename}: ${error}`)
+    }
+  }
+
+  /**
+   * Remove a temporary file if it exists
+   * @param path - File path
+   */
+  static async removeTempFile(path: string): Promise<void> {
+    try {
+      if (await IOUtils.exists(path)) {
+        await IOUtils.remove(path)
+        logger.info(`Deleted temporary file: ${path}`)
+      }
+    } catch (error) {
+      logger.error(`Failed to delete temporary file ${path}: ${error}`)
+    }
+  }
+}